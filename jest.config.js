@@ -0,0 +1,28 @@
+const nextJest = require('next/jest');
+
+const createJestConfig = nextJest({
+  // Provide the path to your Next.js app to load next.config.js and .env files
+  dir: './',
+});
+
+/**
+ * Default Jest configuration, used by `npm test` and the other local test
+ * scripts. It resolves the same `@/` imports and runs in the same environment
+ * as jest.config.ci.js, without the CI-only settings (bail, worker limits).
+ */
+const jestConfig = {
+  setupFilesAfterEnv: ['<rootDir>/jest.setup.js'],
+  testEnvironment: 'jsdom',
+
+  roots: ['<rootDir>/src'],
+  testPathIgnorePatterns: ['<rootDir>/.next/', '<rootDir>/node_modules/', '<rootDir>/out/'],
+
+  // Mirrors the "@/*" path alias in tsconfig.json
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/src/$1',
+  },
+
+  collectCoverageFrom: ['src/**/*.{js,jsx,ts,tsx}', '!src/**/*.d.ts', '!src/types/**/*'],
+};
+
+module.exports = createJestConfig(jestConfig);
@@ -16,7 +16,9 @@ const CONFIG = {
   publicDir: path.join(process.cwd(), 'public'),
   nodeEnv: process.env.NODE_ENV || 'development',
   siteUrl: process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000',
-  generateSitemap: process.env.GENERATE_SITEMAP !== 'false',
+  // Keep in step with LOCALES and DEFAULT_LOCALE in src/lib/i18n.ts
+  locales: ['en', 'es'],
+  defaultLocale: 'en',
 };
 
 /**
@@ -59,6 +61,7 @@ function ensureDirectories() {
     path.join(CONFIG.contentDir, 'blog'),
     path.join(CONFIG.contentDir, 'case-studies'),
     path.join(CONFIG.contentDir, 'pages'),
+    path.join(CONFIG.contentDir, 'authors'),
     CONFIG.publicDir,
   ];
 
@@ -187,87 +190,11 @@ This project demonstrates our expertise in large-scale cloud migrations and our
 }
 
 /**
- * Generate robots.txt file
+ * Validate content frontmatter so invalid files fail the build up front
  */
-function generateRobotsTxt() {
-  log('Generating robots.txt...');
-
-  const robotsTxt = `User-agent: *
-${CONFIG.nodeEnv === 'production' ? 'Allow: /' : 'Disallow: /'}
-
-Sitemap: ${CONFIG.siteUrl}/sitemap.xml
-`;
-
-  fs.writeFileSync(path.join(CONFIG.publicDir, 'robots.txt'), robotsTxt);
-  log('Generated robots.txt');
-}
-
-/**
- * Generate sitemap.xml file
- */
-function generateSitemap() {
-  if (!CONFIG.generateSitemap) {
-    log('Sitemap generation disabled, skipping...');
-    return;
-  }
-
-  log('Generating sitemap.xml...');
-
-  // Basic pages
-  const pages = [
-    { url: '/', priority: '1.0', changefreq: 'weekly' },
-    { url: '/contact/', priority: '0.9', changefreq: 'monthly' },
-    { url: '/services/', priority: '0.8', changefreq: 'monthly' },
-    { url: '/about/', priority: '0.7', changefreq: 'monthly' },
-  ];
-
-  // Add blog posts and case studies if they exist
-  try {
-    const blogDir = path.join(CONFIG.contentDir, 'blog');
-    if (fs.existsSync(blogDir)) {
-      const blogFiles = fs.readdirSync(blogDir).filter(file => file.endsWith('.md'));
-      blogFiles.forEach(file => {
-        const slug = path.basename(file, '.md');
-        pages.push({
-          url: `/blog/${slug}/`,
-          priority: '0.6',
-          changefreq: 'monthly',
-        });
-      });
-    }
-
-    const caseStudyDir = path.join(CONFIG.contentDir, 'case-studies');
-    if (fs.existsSync(caseStudyDir)) {
-      const caseStudyFiles = fs.readdirSync(caseStudyDir).filter(file => file.endsWith('.md'));
-      caseStudyFiles.forEach(file => {
-        const slug = path.basename(file, '.md');
-        pages.push({
-          url: `/case-studies/${slug}/`,
-          priority: '0.7',
-          changefreq: 'monthly',
-        });
-      });
-    }
-  } catch (error) {
-    log(`Error reading content directories: ${error.message}`, 'warn');
-  }
-
-  const sitemap = `<?xml version="1.0" encoding="UTF-8"?>
-<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
-${pages
-  .map(
-    page => `  <url>
-    <loc>${CONFIG.siteUrl}${page.url}</loc>
-    <lastmod>${new Date().toISOString().split('T')[0]}</lastmod>
-    <changefreq>${page.changefreq}</changefreq>
-    <priority>${page.priority}</priority>
-  </url>`
-  )
-  .join('\n')}
-</urlset>`;
-
-  fs.writeFileSync(path.join(CONFIG.publicDir, 'sitemap.xml'), sitemap);
-  log(`Generated sitemap.xml with ${pages.length} pages`);
+function checkContent() {
+  log('Validating content frontmatter...');
+  exec('npm run content:check');
 }
 
 /**
@@ -313,6 +240,71 @@ function runBuild() {
   log('Build completed successfully!', 'success');
 }
 
+/**
+ * Static page that sends the visitor to another URL
+ */
+function redirectPage(target, script = '') {
+  const refresh = `<meta http-equiv="refresh" content="0; url=${target}">`;
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Redirecting…</title>
+<meta name="robots" content="noindex">
+<link rel="canonical" href="${target}">
+${script ? `<script>${script}</script>\n<noscript>${refresh}</noscript>` : refresh}
+</head>
+<body><a href="${target}">${target}</a></body>
+</html>
+`;
+}
+
+/**
+ * Every route is prefixed with its locale, so write redirect pages for the
+ * root (picking the browser's preferred locale) and for each pre-i18n URL
+ */
+function writeLocaleRedirects() {
+  const defaultDir = path.join(CONFIG.outputDir, CONFIG.defaultLocale);
+
+  if (!fs.existsSync(defaultDir)) {
+    log('No default locale output found, skipping locale redirects', 'warn');
+    return;
+  }
+
+  const defaultRoot = `/${CONFIG.defaultLocale}/`;
+  const pickLocale = `var locales=${JSON.stringify(CONFIG.locales)};var match=(navigator.languages||[navigator.language||'']).map(function(tag){return String(tag).slice(0,2).toLowerCase();}).filter(function(tag){return locales.indexOf(tag)!==-1;})[0];location.replace('/'+(match||'${CONFIG.defaultLocale}')+'/');`;
+  fs.writeFileSync(
+    path.join(CONFIG.outputDir, 'index.html'),
+    redirectPage(defaultRoot, pickLocale)
+  );
+
+  let written = 0;
+  const walk = directory => {
+    fs.readdirSync(directory, { withFileTypes: true }).forEach(entry => {
+      const entryPath = path.join(directory, entry.name);
+
+      if (entry.isDirectory()) {
+        walk(entryPath);
+        return;
+      }
+
+      if (entry.name !== 'index.html' || directory === defaultDir) return;
+
+      const route = path.relative(defaultDir, directory).split(path.sep).join('/');
+      const legacyFile = path.join(CONFIG.outputDir, route, 'index.html');
+      if (fs.existsSync(legacyFile)) return;
+
+      fs.mkdirSync(path.dirname(legacyFile), { recursive: true });
+      fs.writeFileSync(legacyFile, redirectPage(`${defaultRoot}${route}/`));
+      written += 1;
+    });
+  };
+
+  walk(defaultDir);
+  log(`Added locale redirects for / and ${written} unprefixed routes`);
+}
+
 /**
  * Post-build optimization and validation
  */
@@ -334,8 +326,17 @@ function postBuildOptimization() {
     log('Added CNAME file');
   }
 
-  // Validate critical files exist
-  const criticalFiles = ['index.html', '_next/static', 'contact/index.html'];
+  writeLocaleRedirects();
+
+  // Validate critical files exist (sitemap.xml and robots.txt are generated by the app routes)
+  const criticalFiles = [
+    'index.html',
+    '_next/static',
+    `${CONFIG.defaultLocale}/index.html`,
+    `${CONFIG.defaultLocale}/contact/index.html`,
+    'sitemap.xml',
+    'robots.txt',
+  ];
 
   const missingFiles = criticalFiles.filter(
     file => !fs.existsSync(path.join(CONFIG.outputDir, file))
@@ -369,8 +370,7 @@ function main() {
     checkEnvironment();
     ensureDirectories();
     createSampleContent();
-    generateRobotsTxt();
-    generateSitemap();
+    checkContent();
     runBuild();
     postBuildOptimization();
 
@@ -0,0 +1,29 @@
+#!/usr/bin/env node
+
+/**
+ * Content validation script for BorderlessBits.com
+ * Checks every blog post, case study and page against its frontmatter schema
+ * (including relative image references) and exits non-zero if any file is invalid
+ */
+
+import path from 'path';
+import { checkContent, formatContentIssues } from '../src/lib/content-schema';
+
+const CONTENT_DIR = path.join(process.cwd(), 'content');
+
+function main(): void {
+  console.log('ℹ️ Checking content frontmatter and images...');
+
+  const issues = checkContent(CONTENT_DIR);
+
+  if (issues.length > 0) {
+    const files = new Set(issues.map(issue => issue.file));
+    console.error(formatContentIssues(issues));
+    console.error(`❌ Found ${issues.length} problem(s) in ${files.size} file(s)`);
+    process.exit(1);
+  }
+
+  console.log('✅ All content is valid');
+}
+
+main();
@@ -0,0 +1,39 @@
+#!/usr/bin/env node
+
+/**
+ * Link checker for the exported site
+ * Crawls out/ offline and exits non-zero if any internal link, anchor, asset,
+ * canonical URL or og:image points at something that wasn't exported
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { checkLinks, collectSiteFiles, formatBrokenReferences } from '../src/lib/link-check';
+
+const OUT_DIR = path.join(process.cwd(), 'out');
+
+function main(): void {
+  if (!fs.existsSync(OUT_DIR)) {
+    console.error('❌ No out/ directory found, run npm run build first');
+    process.exit(1);
+  }
+
+  console.log('ℹ️ Checking links, anchors and assets in out/...');
+
+  const files = collectSiteFiles(OUT_DIR);
+  const broken = checkLinks(files);
+  const pages = Array.from(files.values()).filter(html => html !== null).length;
+
+  if (broken.length > 0) {
+    const brokenPages = new Set(broken.map(reference => reference.page));
+    console.error(formatBrokenReferences(broken));
+    console.error(
+      `❌ Found ${broken.length} broken reference(s) on ${brokenPages.size} of ${pages} page(s)`
+    );
+    process.exit(1);
+  }
+
+  console.log(`✅ All references on ${pages} page(s) resolve`);
+}
+
+main();
@@ -0,0 +1,133 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { ContentBody } from '@/components/content/ContentBody';
+import { DraftBanner } from '@/components/content/DraftBanner';
+import { TableOfContents } from '@/components/content/TableOfContents';
+import { UntranslatedNotice } from '@/components/i18n/UntranslatedNotice';
+import { Breadcrumbs } from '@/components/navigation/Breadcrumbs';
+import { getAllPages, getContentLocales, getPageBySlug, isPublished } from '@/lib/content';
+import { formatDate } from '@/lib/format';
+import { contentAlternates, getMessages, LOCALE_TAGS, localizePath } from '@/lib/i18n';
+import { getPageOgImage } from '@/lib/og-images';
+import { NOT_FOUND_METADATA } from '@/lib/static-params';
+import type { Locale, Page } from '@/types';
+
+interface ContentPageProps {
+  params: { locale: Locale; slug: string[] };
+}
+
+// Only the pages in content/pages known at build time exist in the static export
+export const dynamicParams = false;
+
+export async function generateStaticParams({ params }: { params: { locale: Locale } }) {
+  const pages = await getAllPages(params.locale);
+  return pages.map(page => ({ slug: [page.slug] }));
+}
+
+/**
+ * Resolve the page for a route; pages are flat files, so only single-segment
+ * paths can match
+ */
+async function getPage(slug: string[], locale: Locale): Promise<Page | null> {
+  return slug.length === 1 ? getPageBySlug(slug[0], locale) : null;
+}
+
+export async function generateMetadata({ params }: ContentPageProps): Promise<Metadata> {
+  const page = await getPage(params.slug, params.locale);
+
+  if (!page) {
+    return NOT_FOUND_METADATA;
+  }
+
+  const path = `/${page.slug}/`;
+  const title = page.seo.meta_title || page.title;
+  const description = page.seo.meta_description || page.description;
+  const image = await getPageOgImage(page, params.locale);
+
+  return {
+    title,
+    description,
+    // Drafts rendered by preview builds must never be indexed
+    robots: page.seo.noindex || !isPublished(page) ? { index: false, follow: true } : undefined,
+    alternates: contentAlternates(
+      path,
+      page.locale,
+      await getContentLocales('page', page.slug),
+      page.seo.canonical_url
+    ),
+    openGraph: {
+      type: 'website',
+      locale: LOCALE_TAGS[page.locale],
+      title,
+      description,
+      url: localizePath(path, params.locale),
+      images: [image],
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title,
+      description,
+      images: [image],
+    },
+  };
+}
+
+export default async function ContentPage({ params }: ContentPageProps) {
+  const { locale } = params;
+  const page = await getPage(params.slug, locale);
+
+  if (!page) {
+    notFound();
+  }
+
+  // 'wide' pages use the full container without a sidebar; 'legal' pages use
+  // smaller type and show when they last changed
+  const wide = page.layout === 'wide';
+  const legal = page.layout === 'legal';
+  const showToc = !wide && page.toc.length > 0;
+
+  return (
+    <main id="main-content" className="section">
+      <div className="container lg:flex lg:justify-center lg:gap-12">
+        <article className={`${wide ? 'max-w-5xl' : 'max-w-3xl'} min-w-0 flex-1`}>
+          <DraftBanner item={page} locale={locale} />
+          <UntranslatedNotice locale={locale} contentLocale={page.locale} className="mb-8" />
+
+          <Breadcrumbs
+            items={[{ label: page.title, href: `/${page.slug}/` }]}
+            locale={locale}
+            className="mb-6"
+          />
+
+          <header className="mb-10">
+            <h1 className="text-4xl font-bold text-gray-900 mb-4">{page.title}</h1>
+            {page.description && <p className="text-xl text-gray-600">{page.description}</p>}
+            {legal && (
+              <p className="mt-4 text-sm text-gray-500">
+                {getMessages(locale).content.lastUpdated}{' '}
+                <time dateTime={page.updated || page.date}>
+                  {formatDate(page.updated || page.date, locale)}
+                </time>
+              </p>
+            )}
+          </header>
+
+          <ContentBody
+            content={page.content}
+            format={page.format}
+            locale={locale}
+            contentLocale={page.locale}
+            collection="page"
+            className={legal ? 'prose' : wide ? 'prose prose-lg max-w-none' : 'prose prose-lg'}
+          />
+        </article>
+
+        {showToc && (
+          <aside className="hidden lg:block w-56 shrink-0">
+            <TableOfContents entries={page.toc} locale={locale} />
+          </aside>
+        )}
+      </div>
+    </main>
+  );
+}
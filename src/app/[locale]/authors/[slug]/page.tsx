@@ -0,0 +1,147 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { AuthorAvatar } from '@/components/authors/AuthorAvatar';
+import { PostCard } from '@/components/blog/PostCard';
+import { CaseStudyCard } from '@/components/case-studies/CaseStudyCard';
+import { ContentBody } from '@/components/content/ContentBody';
+import { Breadcrumbs } from '@/components/navigation/Breadcrumbs';
+import { JsonLd } from '@/components/seo/JsonLd';
+import { getAllAuthors, getAuthorBySlug, getContentByAuthor } from '@/lib/content';
+import { formatMessage, getMessages, localeAlternates, localizePath } from '@/lib/i18n';
+import { SITE_CONFIG } from '@/lib/site';
+import { buildPerson } from '@/lib/structured-data';
+import type { Locale } from '@/types';
+
+interface AuthorPageProps {
+  params: { locale: Locale; slug: string };
+}
+
+// Only profiles known at build time exist in the static export
+export const dynamicParams = false;
+
+export async function generateStaticParams({ params }: { params: { locale: Locale } }) {
+  const authors = await getAllAuthors(params.locale);
+  return authors.map(author => ({ slug: author.slug }));
+}
+
+export async function generateMetadata({ params }: AuthorPageProps): Promise<Metadata> {
+  const author = await getAuthorBySlug(params.slug, params.locale);
+
+  if (!author) {
+    return {};
+  }
+
+  const t = getMessages(params.locale).authors;
+  const path = `/authors/${author.slug}/`;
+  const description = formatMessage(author.role ? t.descriptionWithRole : t.description, {
+    name: author.name,
+    role: author.role,
+    site: SITE_CONFIG.name,
+  });
+
+  return {
+    title: author.name,
+    description,
+    alternates: {
+      canonical: localizePath(path, params.locale),
+      languages: localeAlternates(path),
+    },
+    openGraph: {
+      type: 'profile',
+      title: author.name,
+      description,
+      url: localizePath(path, params.locale),
+      images: author.avatar ? [author.avatar] : undefined,
+    },
+  };
+}
+
+export default async function AuthorPage({ params }: AuthorPageProps) {
+  const { locale } = params;
+  const author = await getAuthorBySlug(params.slug, locale);
+
+  if (!author) {
+    notFound();
+  }
+
+  const t = getMessages(locale).authors;
+  const { posts, caseStudies } = await getContentByAuthor(author.slug, locale);
+
+  return (
+    <main id="main-content" className="section">
+      <JsonLd schema={buildPerson(author, locale)} />
+
+      <div className="container max-w-5xl">
+        <Breadcrumbs
+          items={[{ label: author.name, href: `/authors/${author.slug}/` }]}
+          locale={locale}
+          className="mb-6"
+        />
+
+        {/* Profile */}
+        <header className="flex flex-col sm:flex-row gap-8 mb-12">
+          <AuthorAvatar author={author} size={128} className="shrink-0" />
+          <div>
+            <h1 className="text-4xl font-bold text-gray-900 mb-2">{author.name}</h1>
+            {author.role && <p className="text-xl text-gray-600 mb-4">{author.role}</p>}
+            {author.linkedin && (
+              <a
+                href={author.linkedin}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-sm font-medium text-primary-600 hover:text-primary-800"
+              >
+                {t.linkedin} &rarr;
+              </a>
+            )}
+            {author.expertise.length > 0 && (
+              <ul className="flex flex-wrap gap-2 mt-4" aria-label={t.expertise}>
+                {author.expertise.map(area => (
+                  <li
+                    key={area}
+                    className="px-3 py-1 text-sm font-medium rounded-md bg-primary-50 text-primary-700"
+                  >
+                    {area}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </header>
+
+        {author.bio.trim() && (
+          <ContentBody
+            content={author.bio}
+            format={author.format}
+            locale={locale}
+            contentLocale={author.locale}
+            collection="author"
+            className="prose mb-16"
+          />
+        )}
+
+        {caseStudies.length > 0 && (
+          <section className="mb-16">
+            <h2 className="text-2xl font-semibold text-gray-900 mb-6">{t.caseStudies}</h2>
+            <div className="grid md:grid-cols-2 gap-8">
+              {caseStudies.map(caseStudy => (
+                <CaseStudyCard key={caseStudy.slug} caseStudy={caseStudy} locale={locale} />
+              ))}
+            </div>
+          </section>
+        )}
+
+        {posts.length > 0 && (
+          <section>
+            <h2 className="text-2xl font-semibold text-gray-900 mb-6">{t.articles}</h2>
+            <div className="space-y-8">
+              {posts.map(post => (
+                <PostCard key={post.slug} post={post} locale={locale} />
+              ))}
+            </div>
+          </section>
+        )}
+      </div>
+    </main>
+  );
+}
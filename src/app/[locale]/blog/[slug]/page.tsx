@@ -0,0 +1,174 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { AuthorCard } from '@/components/authors/AuthorCard';
+import { Changelog } from '@/components/blog/Changelog';
+import { PostMeta } from '@/components/blog/PostMeta';
+import { SeriesNav } from '@/components/blog/SeriesNav';
+import { TagList } from '@/components/blog/TagList';
+import { ContentBody } from '@/components/content/ContentBody';
+import { DraftBanner } from '@/components/content/DraftBanner';
+import { RelatedContent } from '@/components/content/RelatedContent';
+import { TableOfContents } from '@/components/content/TableOfContents';
+import { UntranslatedNotice } from '@/components/i18n/UntranslatedNotice';
+import { Breadcrumbs } from '@/components/navigation/Breadcrumbs';
+import { JsonLd } from '@/components/seo/JsonLd';
+import {
+  getAllPosts,
+  getContentLocales,
+  getPostBySlug,
+  getRelatedContent,
+  getSeriesBySlug,
+  isPublished,
+} from '@/lib/content';
+import { slugify } from '@/lib/format';
+import { contentAlternates, getMessages, LOCALE_TAGS, localizePath } from '@/lib/i18n';
+import { getPostOgImage } from '@/lib/og-images';
+import { buildBlogPosting } from '@/lib/structured-data';
+import type { Locale } from '@/types';
+
+interface BlogPostPageProps {
+  params: { locale: Locale; slug: string };
+}
+
+// Only the posts known at build time exist in the static export
+export const dynamicParams = false;
+
+export async function generateStaticParams({ params }: { params: { locale: Locale } }) {
+  const posts = await getAllPosts(params.locale);
+  return posts.map(post => ({ slug: post.slug }));
+}
+
+export async function generateMetadata({ params }: BlogPostPageProps): Promise<Metadata> {
+  const post = await getPostBySlug(params.slug, params.locale);
+
+  if (!post) {
+    return {};
+  }
+
+  const path = `/blog/${post.slug}/`;
+  const title = post.seo.meta_title || post.title;
+  const description = post.seo.meta_description || post.description;
+  const image = await getPostOgImage(post, params.locale);
+
+  return {
+    title,
+    description,
+    keywords: post.tags,
+    authors: [
+      {
+        name: post.author,
+        url: post.authorProfile
+          ? localizePath(`/authors/${post.authorProfile.slug}/`, params.locale)
+          : undefined,
+      },
+    ],
+    // Drafts rendered by preview builds must never be indexed
+    robots: post.seo.noindex || !isPublished(post) ? { index: false, follow: true } : undefined,
+    alternates: contentAlternates(
+      path,
+      post.locale,
+      await getContentLocales('post', post.slug),
+      post.seo.canonical_url
+    ),
+    openGraph: {
+      type: 'article',
+      locale: LOCALE_TAGS[post.locale],
+      title,
+      description,
+      url: localizePath(path, params.locale),
+      publishedTime: post.date,
+      modifiedTime: post.updated,
+      authors: [post.author],
+      tags: post.tags,
+      images: [image],
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title,
+      description,
+      images: [image],
+    },
+  };
+}
+
+export default async function BlogPostPage({ params }: BlogPostPageProps) {
+  const { locale } = params;
+  const post = await getPostBySlug(params.slug, locale);
+
+  if (!post) {
+    notFound();
+  }
+
+  const [related, series, image] = await Promise.all([
+    getRelatedContent('post', post, 3, locale),
+    post.series ? getSeriesBySlug(slugify(post.series), locale) : null,
+    getPostOgImage(post, locale),
+  ]);
+  const t = getMessages(locale);
+
+  return (
+    <main id="main-content" className="section">
+      <JsonLd schema={buildBlogPosting(post, locale, image.url)} />
+
+      <div className="container lg:flex lg:justify-center lg:gap-12">
+        <article className="max-w-3xl min-w-0 flex-1">
+          <DraftBanner item={post} locale={locale} />
+          <UntranslatedNotice locale={locale} contentLocale={post.locale} className="mb-8" />
+
+          <Breadcrumbs
+            items={[
+              { label: t.nav.blog, href: '/blog/' },
+              { label: post.title, href: `/blog/${post.slug}/` },
+            ]}
+            locale={locale}
+          />
+
+          {/* Post header */}
+          <header className="mt-6 mb-10">
+            <h1 className="text-4xl font-bold text-gray-900 mb-4">{post.title}</h1>
+            {post.description && <p className="text-xl text-gray-600 mb-6">{post.description}</p>}
+            <PostMeta post={post} locale={locale} className="mb-4" />
+            <TagList tags={post.tags} locale={locale} />
+          </header>
+
+          {series && <SeriesNav series={series} post={post} locale={locale} className="mb-10" />}
+
+          {/* Post body (rendered from markdown or MDX at build time) */}
+          <ContentBody
+            content={post.content}
+            format={post.format}
+            locale={locale}
+            contentLocale={post.locale}
+            collection="post"
+          />
+
+          {post.changelog && (
+            <Changelog
+              entries={post.changelog}
+              locale={locale}
+              className="mt-12 pt-8 border-t border-gray-200"
+            />
+          )}
+
+          {series && <SeriesNav series={series} post={post} locale={locale} className="mt-12" />}
+
+          {post.authorProfile && (
+            <AuthorCard author={post.authorProfile} locale={locale} className="mt-12" />
+          )}
+
+          <RelatedContent
+            items={related}
+            locale={locale}
+            className="mt-16 pt-12 border-t border-gray-200"
+          />
+        </article>
+
+        {post.toc.length > 0 && (
+          <aside className="hidden lg:block w-56 shrink-0">
+            <TableOfContents entries={post.toc} locale={locale} />
+          </aside>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,150 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { Pagination } from '@/components/blog/Pagination';
+import { PostCard } from '@/components/blog/PostCard';
+import { Breadcrumbs } from '@/components/navigation/Breadcrumbs';
+import { getPostArchives, getPostsPage } from '@/lib/content';
+import { formatMonth } from '@/lib/format';
+import {
+  formatMessage,
+  formatPlural,
+  getMessages,
+  localeAlternates,
+  localizePath,
+} from '@/lib/i18n';
+import {
+  archivePath,
+  archiveSegments,
+  getExtraPages,
+  getPageCount,
+  pagePath,
+  parseArchiveSegments,
+  type ArchivePeriod,
+} from '@/lib/listing';
+import { NOT_FOUND_METADATA, PLACEHOLDER_PARAM, withPlaceholderParam } from '@/lib/static-params';
+import type { BreadcrumbItem, Locale } from '@/types';
+
+interface ArchivePageProps {
+  params: { locale: Locale; period: string[] };
+}
+
+// Only years and months with posts at build time exist in the static export;
+// with no posts, the placeholder page 404s
+export const dynamicParams = false;
+
+export async function generateStaticParams({ params }: { params: { locale: Locale } }) {
+  const archives = await getPostArchives(params.locale);
+
+  const periods = archives.flatMap(({ year, count, months }) =>
+    [
+      { period: { year }, count },
+      ...months.map(({ month, count: monthCount }) => ({
+        period: { year, month },
+        count: monthCount,
+      })),
+    ].flatMap(({ period, count: periodCount }) =>
+      [1, ...getExtraPages(getPageCount(periodCount))].map(page => ({
+        period: archiveSegments(period, page),
+      }))
+    )
+  );
+
+  return withPlaceholderParam(periods, { period: [PLACEHOLDER_PARAM] });
+}
+
+function periodLabel({ year, month }: ArchivePeriod, locale: Locale): string {
+  return month ? formatMonth(year, month, locale) : String(year);
+}
+
+export async function generateMetadata({ params }: ArchivePageProps): Promise<Metadata> {
+  const parsed = parseArchiveSegments(params.period);
+
+  if (!parsed) {
+    return NOT_FOUND_METADATA;
+  }
+
+  const t = getMessages(params.locale).blog;
+  const label = periodLabel(parsed.period, params.locale);
+  const title = formatMessage(t.archivePeriodTitle, { period: label });
+  const path = pagePath(archivePath(parsed.period), parsed.page);
+
+  return {
+    title: parsed.page > 1 ? formatMessage(t.pageTitle, { title, number: parsed.page }) : title,
+    description: formatMessage(t.archivePeriodMetaDescription, { period: label }),
+    alternates: {
+      canonical: localizePath(path, params.locale),
+      languages: localeAlternates(path),
+    },
+  };
+}
+
+export default async function ArchivePage({ params }: ArchivePageProps) {
+  const { locale } = params;
+  const parsed = parseArchiveSegments(params.period);
+
+  if (!parsed) {
+    notFound();
+  }
+
+  const { period, page } = parsed;
+  const listing = await getPostsPage(page, period, locale);
+
+  if (listing.items.length === 0) {
+    notFound();
+  }
+
+  const t = getMessages(locale).blog;
+  const basePath = archivePath(period);
+
+  // Year, then month, then the page within the period
+  const trail: BreadcrumbItem[] = [
+    { label: String(period.year), href: archivePath({ year: period.year }) },
+  ];
+  if (period.month) {
+    trail.push({ label: periodLabel(period, locale), href: basePath });
+  }
+  if (page > 1) {
+    trail.push({
+      label: formatMessage(t.pageLabel, { number: page }),
+      href: pagePath(basePath, page),
+    });
+  }
+
+  return (
+    <main id="main-content" className="section">
+      <div className="container max-w-4xl">
+        <Breadcrumbs
+          items={[
+            { label: t.title, href: '/blog/' },
+            { label: t.archive, href: '/blog/archive/' },
+            ...trail,
+          ]}
+          locale={locale}
+        />
+
+        <header className="mt-6 mb-12">
+          <h1 className="text-4xl font-bold text-gray-900 mb-4">
+            {formatMessage(t.archivePeriodTitle, { period: periodLabel(period, locale) })}
+          </h1>
+          <p className="text-xl text-gray-600">
+            {formatPlural(t.articleCount, listing.totalItems, locale)}
+          </p>
+        </header>
+
+        <div className="space-y-8">
+          {listing.items.map(post => (
+            <PostCard key={post.slug} post={post} locale={locale} />
+          ))}
+        </div>
+
+        <Pagination
+          page={page}
+          totalPages={listing.totalPages}
+          basePath={basePath}
+          locale={locale}
+          className="mt-12"
+        />
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,85 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { Breadcrumbs } from '@/components/navigation/Breadcrumbs';
+import { getPostArchives } from '@/lib/content';
+import { formatMonth } from '@/lib/format';
+import { formatPlural, getMessages, localeAlternates, localizePath } from '@/lib/i18n';
+import { archivePath } from '@/lib/listing';
+import type { Locale } from '@/types';
+
+interface BlogArchivePageProps {
+  params: { locale: Locale };
+}
+
+export function generateMetadata({ params }: BlogArchivePageProps): Metadata {
+  const t = getMessages(params.locale).blog;
+
+  return {
+    title: t.archive,
+    description: t.archiveMetaDescription,
+    alternates: {
+      canonical: localizePath('/blog/archive/', params.locale),
+      languages: localeAlternates('/blog/archive/'),
+    },
+  };
+}
+
+export default async function BlogArchivePage({ params }: BlogArchivePageProps) {
+  const { locale } = params;
+  const t = getMessages(locale).blog;
+  const archives = await getPostArchives(locale);
+
+  return (
+    <main id="main-content" className="section">
+      <div className="container max-w-4xl">
+        <Breadcrumbs
+          items={[
+            { label: t.title, href: '/blog/' },
+            { label: t.archive, href: '/blog/archive/' },
+          ]}
+          locale={locale}
+        />
+
+        <header className="mt-6 mb-12">
+          <h1 className="text-4xl font-bold text-gray-900 mb-4">{t.archive}</h1>
+          <p className="text-xl text-gray-600">{t.archiveIntro}</p>
+        </header>
+
+        {archives.length > 0 ? (
+          <div className="space-y-10">
+            {archives.map(({ year, count, months }) => (
+              <section key={year}>
+                <h2 className="text-2xl font-semibold text-gray-900 mb-4">
+                  <Link
+                    href={localizePath(archivePath({ year }), locale)}
+                    className="hover:text-primary-600"
+                  >
+                    {year}
+                  </Link>{' '}
+                  <span className="text-base font-normal text-gray-500">
+                    {formatPlural(t.articleCount, count, locale)}
+                  </span>
+                </h2>
+                <ul className="grid gap-2 sm:grid-cols-2">
+                  {months.map(({ month, count: monthCount }) => (
+                    <li key={month}>
+                      <Link
+                        href={localizePath(archivePath({ year, month }), locale)}
+                        className="text-primary-600 hover:text-primary-800 capitalize"
+                      >
+                        {formatMonth(year, month, locale)}
+                      </Link>{' '}
+                      <span className="text-sm text-gray-500">({monthCount})</span>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            ))}
+          </div>
+        ) : (
+          <p className="text-gray-600">{t.empty}</p>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,25 @@
+import type { Metadata } from 'next';
+import { BlogIndex } from '@/components/blog/BlogIndex';
+import { getMessages, localeAlternates, localizePath } from '@/lib/i18n';
+import type { Locale } from '@/types';
+
+interface BlogIndexPageProps {
+  params: { locale: Locale };
+}
+
+export function generateMetadata({ params }: BlogIndexPageProps): Metadata {
+  const t = getMessages(params.locale).blog;
+
+  return {
+    title: t.title,
+    description: t.metaDescription,
+    alternates: {
+      canonical: localizePath('/blog/', params.locale),
+      languages: localeAlternates('/blog/'),
+    },
+  };
+}
+
+export default function BlogIndexPage({ params }: BlogIndexPageProps) {
+  return <BlogIndex page={1} locale={params.locale} />;
+}
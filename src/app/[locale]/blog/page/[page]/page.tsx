@@ -0,0 +1,55 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { BlogIndex } from '@/components/blog/BlogIndex';
+import { getPostsPage } from '@/lib/content';
+import { formatMessage, getMessages, localeAlternates, localizePath } from '@/lib/i18n';
+import { getExtraPages, pagePath, parsePageNumber } from '@/lib/listing';
+import { NOT_FOUND_METADATA, PLACEHOLDER_PARAM, withPlaceholderParam } from '@/lib/static-params';
+import type { Locale } from '@/types';
+
+interface BlogListingPageProps {
+  params: { locale: Locale; page: string };
+}
+
+// Page 1 is /blog/; only the later pages known at build time are exported, and
+// with a single page the placeholder page 404s
+export const dynamicParams = false;
+
+export async function generateStaticParams({ params }: { params: { locale: Locale } }) {
+  const { totalPages } = await getPostsPage(1, {}, params.locale);
+  return withPlaceholderParam(
+    getExtraPages(totalPages).map(page => ({ page: String(page) })),
+    { page: PLACEHOLDER_PARAM }
+  );
+}
+
+export function generateMetadata({ params }: BlogListingPageProps): Metadata {
+  const page = parsePageNumber(params.page);
+
+  if (!page) {
+    return NOT_FOUND_METADATA;
+  }
+
+  const t = getMessages(params.locale).blog;
+  const path = pagePath('/blog/', page);
+
+  return {
+    title: formatMessage(t.pageTitle, { title: t.title, number: page }),
+    description: t.metaDescription,
+    alternates: {
+      canonical: localizePath(path, params.locale),
+      languages: localeAlternates(path),
+    },
+  };
+}
+
+export default async function BlogListingPage({ params }: BlogListingPageProps) {
+  const page = parsePageNumber(params.page);
+  const { totalPages } = await getPostsPage(1, {}, params.locale);
+
+  if (!page || page > totalPages) {
+    notFound();
+  }
+
+  return <BlogIndex page={page} locale={params.locale} />;
+}
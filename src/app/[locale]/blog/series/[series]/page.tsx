@@ -0,0 +1,113 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { PostMeta } from '@/components/blog/PostMeta';
+import { Breadcrumbs } from '@/components/navigation/Breadcrumbs';
+import { getAllSeries, getSeriesBySlug } from '@/lib/content';
+import {
+  formatMessage,
+  formatPlural,
+  getMessages,
+  localeAlternates,
+  localizePath,
+} from '@/lib/i18n';
+import { NOT_FOUND_METADATA, PLACEHOLDER_PARAM, withPlaceholderParam } from '@/lib/static-params';
+import type { Locale } from '@/types';
+
+interface SeriesPageProps {
+  params: { locale: Locale; series: string };
+}
+
+// Only series known at build time exist in the static export; with none, the
+// placeholder page 404s
+export const dynamicParams = false;
+
+export async function generateStaticParams({ params }: { params: { locale: Locale } }) {
+  const allSeries = await getAllSeries(params.locale);
+  return withPlaceholderParam(
+    allSeries.map(series => ({ series: series.slug })),
+    { series: PLACEHOLDER_PARAM }
+  );
+}
+
+export async function generateMetadata({ params }: SeriesPageProps): Promise<Metadata> {
+  const series = await getSeriesBySlug(params.series, params.locale);
+
+  if (!series) {
+    return NOT_FOUND_METADATA;
+  }
+
+  const path = `/blog/series/${series.slug}/`;
+
+  return {
+    title: series.name,
+    description: formatMessage(getMessages(params.locale).series.metaDescription, {
+      count: series.parts.length,
+      name: series.name,
+    }),
+    alternates: {
+      canonical: localizePath(path, params.locale),
+      languages: localeAlternates(path),
+    },
+  };
+}
+
+export default async function SeriesPage({ params }: SeriesPageProps) {
+  const { locale } = params;
+  const series = await getSeriesBySlug(params.series, locale);
+
+  if (!series) {
+    notFound();
+  }
+
+  const t = getMessages(locale);
+
+  return (
+    <main id="main-content" className="section">
+      <div className="container max-w-4xl">
+        <Breadcrumbs
+          items={[
+            { label: t.blog.title, href: '/blog/' },
+            { label: series.name, href: `/blog/series/${series.slug}/` },
+          ]}
+          locale={locale}
+        />
+
+        <header className="mt-6 mb-12">
+          <p className="text-sm font-semibold uppercase tracking-wide text-primary-600 mb-2">
+            {t.series.label}
+          </p>
+          <h1 className="text-4xl font-bold text-gray-900 mb-4">{series.name}</h1>
+          <p className="text-xl text-gray-600">
+            {formatPlural(t.series.partCount, series.parts.length, locale)}
+          </p>
+        </header>
+
+        <ol className="space-y-6">
+          {series.parts.map((part, index) => (
+            <li key={part.slug} className="card card-hover p-6 flex gap-6">
+              <span className="text-3xl font-bold text-primary-600 shrink-0" aria-hidden="true">
+                {index + 1}
+              </span>
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900 mb-2">
+                  <Link
+                    href={localizePath(`/blog/${part.slug}/`, locale)}
+                    className="hover:text-primary-600"
+                  >
+                    <span className="sr-only">
+                      {formatMessage(t.series.partLabel, { number: index + 1 })}
+                    </span>
+                    {part.title}
+                  </Link>
+                </h2>
+                {part.description && <p className="text-gray-600 mb-3">{part.description}</p>}
+                <PostMeta post={part} locale={locale} />
+              </div>
+            </li>
+          ))}
+        </ol>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,88 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { PostCard } from '@/components/blog/PostCard';
+import { Breadcrumbs } from '@/components/navigation/Breadcrumbs';
+import { getPostsByTag, getTagSummaries } from '@/lib/content';
+import {
+  formatMessage,
+  formatPlural,
+  getMessages,
+  localeAlternates,
+  localizePath,
+} from '@/lib/i18n';
+import type { Locale } from '@/types';
+
+interface TagPageProps {
+  params: { locale: Locale; tag: string };
+}
+
+// Only tags used by published posts exist in the static export
+export const dynamicParams = false;
+
+export async function generateStaticParams({ params }: { params: { locale: Locale } }) {
+  const tags = await getTagSummaries(params.locale);
+  return tags.map(tag => ({ tag: tag.slug }));
+}
+
+async function getTag(slug: string, locale: Locale) {
+  const tags = await getTagSummaries(locale);
+  return tags.find(tag => tag.slug === slug) || null;
+}
+
+export async function generateMetadata({ params }: TagPageProps): Promise<Metadata> {
+  const tag = await getTag(params.tag, params.locale);
+
+  if (!tag) {
+    return {};
+  }
+
+  const t = getMessages(params.locale).blog;
+  const path = `/blog/tags/${tag.slug}/`;
+
+  return {
+    title: formatMessage(t.tagMetaTitle, { tag: tag.name }),
+    description: formatMessage(t.tagMetaDescription, { tag: tag.name }),
+    alternates: {
+      canonical: localizePath(path, params.locale),
+      languages: localeAlternates(path),
+    },
+  };
+}
+
+export default async function TagPage({ params }: TagPageProps) {
+  const { locale } = params;
+  const tag = await getTag(params.tag, locale);
+
+  if (!tag) {
+    notFound();
+  }
+
+  const t = getMessages(locale).blog;
+  const posts = await getPostsByTag(tag.slug, locale);
+
+  return (
+    <main id="main-content" className="section">
+      <div className="container max-w-4xl">
+        <Breadcrumbs
+          items={[
+            { label: t.title, href: '/blog/' },
+            { label: t.topicsTitle, href: '/blog/tags/' },
+            { label: tag.name, href: `/blog/tags/${tag.slug}/` },
+          ]}
+          locale={locale}
+        />
+
+        <header className="mt-6 mb-12">
+          <h1 className="text-4xl font-bold text-gray-900 mb-4">{tag.name}</h1>
+          <p className="text-xl text-gray-600">{formatPlural(t.articleCount, tag.count, locale)}</p>
+        </header>
+
+        <div className="space-y-8">
+          {posts.map(post => (
+            <PostCard key={post.slug} post={post} locale={locale} />
+          ))}
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,66 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { Breadcrumbs } from '@/components/navigation/Breadcrumbs';
+import { getTagSummaries } from '@/lib/content';
+import { getMessages, localeAlternates, localizePath } from '@/lib/i18n';
+import type { Locale } from '@/types';
+
+interface BlogTagsPageProps {
+  params: { locale: Locale };
+}
+
+export function generateMetadata({ params }: BlogTagsPageProps): Metadata {
+  const t = getMessages(params.locale).blog;
+
+  return {
+    title: t.topicsMetaTitle,
+    description: t.topicsMetaDescription,
+    alternates: {
+      canonical: localizePath('/blog/tags/', params.locale),
+      languages: localeAlternates('/blog/tags/'),
+    },
+  };
+}
+
+export default async function BlogTagsPage({ params }: BlogTagsPageProps) {
+  const { locale } = params;
+  const t = getMessages(locale).blog;
+  const tags = await getTagSummaries(locale);
+
+  return (
+    <main id="main-content" className="section">
+      <div className="container max-w-4xl">
+        <Breadcrumbs
+          items={[
+            { label: t.title, href: '/blog/' },
+            { label: t.topicsTitle, href: '/blog/tags/' },
+          ]}
+          locale={locale}
+        />
+
+        <header className="mt-6 mb-12">
+          <h1 className="text-4xl font-bold text-gray-900 mb-4">{t.topicsTitle}</h1>
+          <p className="text-xl text-gray-600">{t.topicsIntro}</p>
+        </header>
+
+        {tags.length > 0 ? (
+          <ul className="flex flex-wrap gap-3">
+            {tags.map(tag => (
+              <li key={tag.slug}>
+                <Link
+                  href={localizePath(`/blog/tags/${tag.slug}/`, locale)}
+                  className="inline-flex items-center gap-2 px-4 py-2 rounded-full bg-primary-50 text-primary-700 hover:bg-primary-100"
+                >
+                  {tag.name}
+                  <span className="text-xs font-semibold text-primary-900">{tag.count}</span>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-gray-600">{t.topicsEmpty}</p>
+        )}
+      </div>
+    </main>
+  );
+}
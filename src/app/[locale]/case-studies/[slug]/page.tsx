@@ -0,0 +1,222 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { AuthorCard } from '@/components/authors/AuthorCard';
+import { ContentBody } from '@/components/content/ContentBody';
+import { DraftBanner } from '@/components/content/DraftBanner';
+import { RelatedContent } from '@/components/content/RelatedContent';
+import { TableOfContents } from '@/components/content/TableOfContents';
+import { ResultMetrics } from '@/components/case-studies/ResultMetrics';
+import { TechnologyList } from '@/components/case-studies/TechnologyList';
+import { UntranslatedNotice } from '@/components/i18n/UntranslatedNotice';
+import { Breadcrumbs } from '@/components/navigation/Breadcrumbs';
+import { JsonLd } from '@/components/seo/JsonLd';
+import {
+  getAllCaseStudies,
+  getCaseStudyBySlug,
+  getContentLocales,
+  getRelatedContent,
+  isPublished,
+} from '@/lib/content';
+import { facetLandingPath } from '@/lib/facets';
+import { contentAlternates, getMessages, LOCALE_TAGS, localizePath } from '@/lib/i18n';
+import { getCaseStudyOgImage } from '@/lib/og-images';
+import { buildCaseStudyArticle } from '@/lib/structured-data';
+import type { Locale } from '@/types';
+
+interface CaseStudyPageProps {
+  params: { locale: Locale; slug: string };
+}
+
+// Only the case studies known at build time exist in the static export
+export const dynamicParams = false;
+
+export async function generateStaticParams({ params }: { params: { locale: Locale } }) {
+  const caseStudies = await getAllCaseStudies(params.locale);
+  return caseStudies.map(caseStudy => ({ slug: caseStudy.slug }));
+}
+
+export async function generateMetadata({ params }: CaseStudyPageProps): Promise<Metadata> {
+  const caseStudy = await getCaseStudyBySlug(params.slug, params.locale);
+
+  if (!caseStudy) {
+    return {};
+  }
+
+  const path = `/case-studies/${caseStudy.slug}/`;
+  const title = caseStudy.seo.meta_title || caseStudy.title;
+  const description = caseStudy.seo.meta_description || caseStudy.description;
+  const image = await getCaseStudyOgImage(caseStudy, params.locale);
+
+  return {
+    title,
+    description,
+    keywords: [...caseStudy.tags, ...caseStudy.technologies],
+    // Drafts rendered by preview builds must never be indexed
+    robots:
+      caseStudy.seo.noindex || !isPublished(caseStudy) ? { index: false, follow: true } : undefined,
+    alternates: contentAlternates(
+      path,
+      caseStudy.locale,
+      await getContentLocales('caseStudy', caseStudy.slug),
+      caseStudy.seo.canonical_url
+    ),
+    openGraph: {
+      type: 'article',
+      locale: LOCALE_TAGS[caseStudy.locale],
+      title,
+      description,
+      url: localizePath(path, params.locale),
+      publishedTime: caseStudy.date,
+      tags: caseStudy.tags,
+      images: [image],
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title,
+      description,
+      images: [image],
+    },
+  };
+}
+
+export default async function CaseStudyPage({ params }: CaseStudyPageProps) {
+  const { locale } = params;
+  const caseStudy = await getCaseStudyBySlug(params.slug, locale);
+
+  if (!caseStudy) {
+    notFound();
+  }
+
+  const t = getMessages(locale).caseStudies;
+  const [related, image] = await Promise.all([
+    getRelatedContent('caseStudy', caseStudy, 3, locale),
+    getCaseStudyOgImage(caseStudy, locale),
+  ]);
+
+  const facts = [
+    { label: t.client, value: caseStudy.client },
+    {
+      label: t.industry,
+      value: caseStudy.industry,
+      href: localizePath(facetLandingPath('industry', caseStudy.industry), locale),
+    },
+    { label: t.timeline, value: caseStudy.timeline },
+  ].filter(fact => fact.value);
+
+  return (
+    <main id="main-content" className="section">
+      <JsonLd schema={buildCaseStudyArticle(caseStudy, locale, image.url)} />
+
+      <article className="container max-w-5xl">
+        <DraftBanner item={caseStudy} locale={locale} />
+        <UntranslatedNotice locale={locale} contentLocale={caseStudy.locale} className="mb-8" />
+
+        <Breadcrumbs
+          items={[
+            { label: t.title, href: '/case-studies/' },
+            { label: caseStudy.title, href: `/case-studies/${caseStudy.slug}/` },
+          ]}
+          locale={locale}
+        />
+
+        {/* Engagement header */}
+        <header className="mt-6 mb-10">
+          <h1 className="text-4xl font-bold text-gray-900 mb-4">{caseStudy.title}</h1>
+          {caseStudy.description && (
+            <p className="text-xl text-gray-600 mb-6">{caseStudy.description}</p>
+          )}
+          {facts.length > 0 && (
+            <dl className="flex flex-wrap gap-x-8 gap-y-2 text-sm">
+              {facts.map(fact => (
+                <div key={fact.label}>
+                  <dt className="inline font-medium text-gray-500">{fact.label}: </dt>
+                  <dd className="inline text-gray-900">
+                    {fact.href ? (
+                      <Link href={fact.href} className="hover:text-primary-600">
+                        {fact.value}
+                      </Link>
+                    ) : (
+                      fact.value
+                    )}
+                  </dd>
+                </div>
+              ))}
+            </dl>
+          )}
+        </header>
+
+        {/* Key results */}
+        <section aria-labelledby="results-heading" className="mb-12">
+          <h2 id="results-heading" className="sr-only">
+            {t.results}
+          </h2>
+          <ResultMetrics results={caseStudy.results} />
+        </section>
+
+        {/* Challenge and solution summary */}
+        {(caseStudy.challenge || caseStudy.solution) && (
+          <section className="grid md:grid-cols-2 gap-8 mb-12">
+            {caseStudy.challenge && (
+              <div className="card p-6">
+                <h2 className="text-xl font-semibold text-gray-900 mb-3">{t.challenge}</h2>
+                <p className="text-gray-600">{caseStudy.challenge}</p>
+              </div>
+            )}
+            {caseStudy.solution && (
+              <div className="card p-6">
+                <h2 className="text-xl font-semibold text-gray-900 mb-3">{t.solution}</h2>
+                <p className="text-gray-600">{caseStudy.solution}</p>
+              </div>
+            )}
+          </section>
+        )}
+
+        {/* Technology stack */}
+        {caseStudy.technologies.length > 0 && (
+          <section className="mb-12">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">{t.technologies}</h2>
+            <TechnologyList technologies={caseStudy.technologies} locale={locale} />
+          </section>
+        )}
+
+        {/* Full write-up (rendered from markdown or MDX at build time) */}
+        <div className="lg:flex lg:gap-12">
+          <ContentBody
+            content={caseStudy.content}
+            format={caseStudy.format}
+            locale={locale}
+            contentLocale={caseStudy.locale}
+            collection="caseStudy"
+            className="prose prose-lg max-w-3xl min-w-0 flex-1"
+          />
+
+          {caseStudy.toc.length > 0 && (
+            <aside className="hidden lg:block w-56 shrink-0">
+              <TableOfContents entries={caseStudy.toc} locale={locale} />
+            </aside>
+          )}
+        </div>
+
+        {caseStudy.authorProfile && (
+          <AuthorCard
+            author={caseStudy.authorProfile}
+            locale={locale}
+            className="mt-12 max-w-3xl"
+          />
+        )}
+
+        {/* Call to action */}
+        <aside className="mt-16 card p-8 text-center bg-primary-50">
+          <h2 className="text-2xl font-semibold text-gray-900 mb-3">{t.ctaTitle}</h2>
+          <p className="text-gray-600 mb-6">{t.ctaBody}</p>
+          <Link href={localizePath('/contact/', locale)} className="btn-primary btn-lg">
+            {t.ctaButton}
+          </Link>
+        </aside>
+
+        <RelatedContent items={related} locale={locale} className="mt-16" />
+      </article>
+    </main>
+  );
+}
@@ -0,0 +1,64 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { FacetLanding } from '@/components/case-studies/FacetLanding';
+import { getCaseStudiesByFacet, getCaseStudyFacets } from '@/lib/content';
+import { facetLandingPath } from '@/lib/facets';
+import { formatMessage, getMessages, localeAlternates, localizePath } from '@/lib/i18n';
+import { NOT_FOUND_METADATA, PLACEHOLDER_PARAM, withPlaceholderParam } from '@/lib/static-params';
+import type { Locale } from '@/types';
+
+interface IndustryPageProps {
+  params: { locale: Locale; industry: string };
+}
+
+// Only industries used by published case studies exist in the static export; with
+// none, the placeholder page 404s
+export const dynamicParams = false;
+
+export async function generateStaticParams({ params }: { params: { locale: Locale } }) {
+  const facets = await getCaseStudyFacets(params.locale);
+  return withPlaceholderParam(
+    facets.industry.map(industry => ({ industry: industry.slug })),
+    { industry: PLACEHOLDER_PARAM }
+  );
+}
+
+async function getIndustry(slug: string, locale: Locale) {
+  const facets = await getCaseStudyFacets(locale);
+  return facets.industry.find(industry => industry.slug === slug) || null;
+}
+
+export async function generateMetadata({ params }: IndustryPageProps): Promise<Metadata> {
+  const industry = await getIndustry(params.industry, params.locale);
+
+  if (!industry) {
+    return NOT_FOUND_METADATA;
+  }
+
+  const t = getMessages(params.locale).caseStudies;
+  const path = facetLandingPath('industry', industry.slug);
+
+  return {
+    title: formatMessage(t.industryMetaTitle, { industry: industry.name }),
+    description: formatMessage(t.industryMetaDescription, { industry: industry.name }),
+    alternates: {
+      canonical: localizePath(path, params.locale),
+      languages: localeAlternates(path),
+    },
+  };
+}
+
+export default async function IndustryPage({ params }: IndustryPageProps) {
+  const { locale } = params;
+  const industry = await getIndustry(params.industry, locale);
+
+  if (!industry) {
+    notFound();
+  }
+
+  const caseStudies = await getCaseStudiesByFacet('industry', industry.slug, locale);
+
+  return (
+    <FacetLanding facet="industry" value={industry} caseStudies={caseStudies} locale={locale} />
+  );
+}
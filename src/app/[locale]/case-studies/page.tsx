@@ -0,0 +1,64 @@
+import { Suspense } from 'react';
+import type { Metadata } from 'next';
+import { CaseStudyBrowser } from '@/components/case-studies/CaseStudyBrowser';
+import { CaseStudyCard } from '@/components/case-studies/CaseStudyCard';
+import { Breadcrumbs } from '@/components/navigation/Breadcrumbs';
+import { getAllCaseStudies } from '@/lib/content';
+import { toCaseStudySummary } from '@/lib/facets';
+import { getMessages, localeAlternates, localizePath } from '@/lib/i18n';
+import type { Locale } from '@/types';
+
+interface CaseStudiesIndexPageProps {
+  params: { locale: Locale };
+}
+
+export function generateMetadata({ params }: CaseStudiesIndexPageProps): Metadata {
+  const t = getMessages(params.locale).caseStudies;
+
+  return {
+    title: t.title,
+    description: t.metaDescription,
+    alternates: {
+      canonical: localizePath('/case-studies/', params.locale),
+      languages: localeAlternates('/case-studies/'),
+    },
+  };
+}
+
+export default async function CaseStudiesIndexPage({ params }: CaseStudiesIndexPageProps) {
+  const { locale } = params;
+  const t = getMessages(locale).caseStudies;
+  const caseStudies = (await getAllCaseStudies(locale)).map(toCaseStudySummary);
+
+  return (
+    <main id="main-content" className="section">
+      <div className="container max-w-7xl">
+        <Breadcrumbs items={[{ label: t.title, href: '/case-studies/' }]} locale={locale} />
+
+        {/* Header */}
+        <header className="max-w-3xl mt-6 mb-12">
+          <h1 className="text-4xl font-bold text-gray-900 mb-4">{t.title}</h1>
+          <p className="text-xl text-gray-600">{t.intro}</p>
+        </header>
+
+        {caseStudies.length > 0 ? (
+          // Filters live in the query string, which the static export only sees in the
+          // browser; the unfiltered grid is served until the browser takes over
+          <Suspense
+            fallback={
+              <div className="grid md:grid-cols-2 gap-8">
+                {caseStudies.map(caseStudy => (
+                  <CaseStudyCard key={caseStudy.slug} caseStudy={caseStudy} locale={locale} />
+                ))}
+              </div>
+            }
+          >
+            <CaseStudyBrowser caseStudies={caseStudies} locale={locale} />
+          </Suspense>
+        ) : (
+          <p className="text-gray-600">{t.empty}</p>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,64 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { FacetLanding } from '@/components/case-studies/FacetLanding';
+import { getCaseStudiesByFacet, getCaseStudyFacets } from '@/lib/content';
+import { facetLandingPath } from '@/lib/facets';
+import { formatMessage, getMessages, localeAlternates, localizePath } from '@/lib/i18n';
+import { NOT_FOUND_METADATA, PLACEHOLDER_PARAM, withPlaceholderParam } from '@/lib/static-params';
+import type { Locale } from '@/types';
+
+interface TechnologyPageProps {
+  params: { locale: Locale; technology: string };
+}
+
+// Only technologies used by published case studies exist in the static export; with
+// none, the placeholder page 404s
+export const dynamicParams = false;
+
+export async function generateStaticParams({ params }: { params: { locale: Locale } }) {
+  const facets = await getCaseStudyFacets(params.locale);
+  return withPlaceholderParam(
+    facets.technology.map(technology => ({ technology: technology.slug })),
+    { technology: PLACEHOLDER_PARAM }
+  );
+}
+
+async function getTechnology(slug: string, locale: Locale) {
+  const facets = await getCaseStudyFacets(locale);
+  return facets.technology.find(technology => technology.slug === slug) || null;
+}
+
+export async function generateMetadata({ params }: TechnologyPageProps): Promise<Metadata> {
+  const technology = await getTechnology(params.technology, params.locale);
+
+  if (!technology) {
+    return NOT_FOUND_METADATA;
+  }
+
+  const t = getMessages(params.locale).caseStudies;
+  const path = facetLandingPath('technology', technology.slug);
+
+  return {
+    title: formatMessage(t.technologyMetaTitle, { technology: technology.name }),
+    description: formatMessage(t.technologyMetaDescription, { technology: technology.name }),
+    alternates: {
+      canonical: localizePath(path, params.locale),
+      languages: localeAlternates(path),
+    },
+  };
+}
+
+export default async function TechnologyPage({ params }: TechnologyPageProps) {
+  const { locale } = params;
+  const technology = await getTechnology(params.technology, locale);
+
+  if (!technology) {
+    notFound();
+  }
+
+  const caseStudies = await getCaseStudiesByFacet('technology', technology.slug, locale);
+
+  return (
+    <FacetLanding facet="technology" value={technology} caseStudies={caseStudies} locale={locale} />
+  );
+}
@@ -0,0 +1,114 @@
+import { Metadata } from 'next';
+import { ContactForm } from '@/components/forms/ContactForm';
+import { Breadcrumbs } from '@/components/navigation/Breadcrumbs';
+import { getMessages, localeAlternates, localizePath } from '@/lib/i18n';
+import { getSiteOgImage } from '@/lib/og-images';
+import type { Locale } from '@/types';
+
+interface ContactPageProps {
+  params: { locale: Locale };
+}
+
+export async function generateMetadata({ params }: ContactPageProps): Promise<Metadata> {
+  const t = getMessages(params.locale).contact;
+  const image = await getSiteOgImage(params.locale);
+
+  return {
+    title: t.metaTitle,
+    description: t.metaDescription,
+    keywords: [
+      'contact',
+      'cloud architecture',
+      'healthcare software',
+      'consulting',
+      'BorderlessBits',
+    ],
+    alternates: {
+      canonical: localizePath('/contact/', params.locale),
+      languages: localeAlternates('/contact/'),
+    },
+    openGraph: {
+      title: t.ogTitle,
+      description: t.ogDescription,
+      type: 'website',
+      images: [image],
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title: t.ogTitle,
+      description: t.ogDescription,
+      images: [image],
+    },
+  };
+}
+
+function CheckIcon({ className }: { className: string }) {
+  return (
+    <svg className={`h-5 w-5 mt-0.5 mr-3 ${className}`} fill="currentColor" viewBox="0 0 20 20">
+      <path
+        fillRule="evenodd"
+        d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z"
+        clipRule="evenodd"
+      />
+    </svg>
+  );
+}
+
+export default function ContactPage({ params }: ContactPageProps) {
+  const t = getMessages(params.locale).contact;
+
+  return (
+    <main id="main-content" className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
+      <div className="max-w-4xl mx-auto py-16 px-4 sm:px-6 lg:px-8">
+        <Breadcrumbs
+          items={[{ label: getMessages(params.locale).nav.contact, href: '/contact/' }]}
+          locale={params.locale}
+          className="mb-8"
+        />
+
+        {/* Header */}
+        <div className="text-center mb-16">
+          <h1 className="text-4xl font-bold text-gray-900 mb-4">{t.title}</h1>
+          <p className="text-xl text-gray-600 max-w-3xl mx-auto">{t.intro}</p>
+        </div>
+
+        {/* Contact Form Section */}
+        <div className="bg-white rounded-lg shadow-xl p-8 mb-12">
+          <ContactForm locale={params.locale} />
+        </div>
+
+        {/* Contact Information */}
+        <div className="grid md:grid-cols-2 gap-8">
+          <div className="bg-white rounded-lg shadow-lg p-6">
+            <h3 className="text-xl font-semibold text-gray-900 mb-4">{t.servicesTitle}</h3>
+            <ul className="space-y-3 text-gray-600">
+              {t.services.map(service => (
+                <li key={service} className="flex items-start">
+                  <CheckIcon className="text-blue-500" />
+                  {service}
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <div className="bg-white rounded-lg shadow-lg p-6">
+            <h3 className="text-xl font-semibold text-gray-900 mb-4">{t.whyTitle}</h3>
+            <ul className="space-y-3 text-gray-600">
+              {t.why.map(reason => (
+                <li key={reason} className="flex items-start">
+                  <CheckIcon className="text-green-500" />
+                  {reason}
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+
+        {/* Call to Action */}
+        <div className="text-center mt-12">
+          <p className="text-lg text-gray-600">{t.closing}</p>
+        </div>
+      </div>
+    </main>
+  );
+}
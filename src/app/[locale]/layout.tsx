@@ -0,0 +1,247 @@
+import type { Metadata } from 'next';
+import { Inter } from 'next/font/google';
+import { JsonLd } from '@/components/seo/JsonLd';
+import { getAllAuthors } from '@/lib/content';
+import { FEED_PATHS } from '@/lib/feeds';
+import { getMessages, LOCALE_TAGS, LOCALES, localeAlternates, localizePath } from '@/lib/i18n';
+import { getSiteOgImage } from '@/lib/og-images';
+import { SITE_CONFIG } from '@/lib/site';
+import { buildProfessionalService, buildWebSite } from '@/lib/structured-data';
+import type { Locale } from '@/types';
+import '../../styles/globals.css';
+
+// Font optimization
+const inter = Inter({
+  subsets: ['latin'],
+  display: 'swap',
+  variable: '--font-inter',
+});
+
+export function generateStaticParams() {
+  return LOCALES.map(locale => ({ locale }));
+}
+
+// Only the configured locales are routes; anything else 404s
+export const dynamicParams = false;
+
+interface LayoutProps {
+  children: React.ReactNode;
+  params: { locale: Locale };
+}
+
+// Base metadata configuration
+export async function generateMetadata({
+  params,
+}: Omit<LayoutProps, 'children'>): Promise<Metadata> {
+  const t = getMessages(params.locale).meta;
+  const image = await getSiteOgImage(params.locale);
+
+  return {
+    // Resolves relative canonical and Open Graph URLs against the configured origin
+    metadataBase: new URL(SITE_CONFIG.url),
+    title: {
+      template: t.titleTemplate,
+      default: t.defaultTitle,
+    },
+    description: t.description,
+    keywords: [...t.keywords, 'Richard Mosley', 'BorderlessBits'],
+    authors: [{ name: 'Richard Mosley', url: 'https://borderlessbits.com' }],
+    creator: 'Richard Mosley',
+    publisher: 'BorderlessBits',
+
+    // Open Graph metadata
+    openGraph: {
+      type: 'website',
+      locale: LOCALE_TAGS[params.locale],
+      alternateLocale: LOCALES.filter(locale => locale !== params.locale).map(
+        locale => LOCALE_TAGS[locale]
+      ),
+      url: localizePath('/', params.locale),
+      siteName: 'BorderlessBits',
+      title: t.ogTitle,
+      description: t.ogDescription,
+      images: [image],
+    },
+
+    // Twitter metadata
+    twitter: {
+      card: 'summary_large_image',
+      title: t.twitterTitle,
+      description: t.twitterDescription,
+      creator: '@borderlessbits',
+      images: [image],
+    },
+
+    // Additional metadata
+    robots: {
+      index: true,
+      follow: true,
+      googleBot: {
+        index: true,
+        follow: true,
+        'max-video-preview': -1,
+        'max-image-preview': 'large',
+        'max-snippet': -1,
+      },
+    },
+
+    // Verification
+    verification: {
+      google: process.env.NEXT_PUBLIC_GOOGLE_SITE_VERIFICATION,
+    },
+
+    // App-specific metadata
+    category: 'Technology',
+    classification: 'Business',
+
+    // Additional SEO
+    alternates: {
+      canonical: localizePath('/', params.locale),
+      languages: localeAlternates('/'),
+    },
+  };
+}
+
+// Viewport configuration
+export const viewport = {
+  width: 'device-width',
+  initialScale: 1,
+  maximumScale: 5,
+  userScalable: true,
+  themeColor: [
+    { media: '(prefers-color-scheme: light)', color: '#3b82f6' },
+    { media: '(prefers-color-scheme: dark)', color: '#1d4ed8' },
+  ],
+};
+
+/**
+ * Root layout, one per locale so the document language matches the content
+ */
+export default async function RootLayout({ children, params }: LayoutProps) {
+  const [image, authors] = await Promise.all([
+    getSiteOgImage(params.locale),
+    getAllAuthors(params.locale),
+  ]);
+  const founder = authors.find(author => author.name === SITE_CONFIG.author.name);
+
+  return (
+    <html lang={params.locale} className={inter.variable}>
+      <head>
+        {/* Favicon; the Inter font is self-hosted and preloaded by next/font */}
+        <link rel="icon" href="/favicon.svg" type="image/svg+xml" />
+
+        {/* Feed autodiscovery (rendered here so per-page alternates can't drop them) */}
+        <link
+          rel="alternate"
+          type="application/rss+xml"
+          href={FEED_PATHS.rss}
+          title="BorderlessBits Blog RSS Feed"
+        />
+        <link
+          rel="alternate"
+          type="application/atom+xml"
+          href={FEED_PATHS.atom}
+          title="BorderlessBits Blog Atom Feed"
+        />
+        <link
+          rel="alternate"
+          type="application/feed+json"
+          href={FEED_PATHS.json}
+          title="BorderlessBits Blog JSON Feed"
+        />
+
+        {/* DNS prefetching for external resources */}
+        <link rel="dns-prefetch" href="//www.google-analytics.com" />
+        <link rel="dns-prefetch" href="//cdn.emailjs.com" />
+        <link rel="dns-prefetch" href="//fonts.googleapis.com" />
+        <link rel="dns-prefetch" href="//fonts.gstatic.com" />
+
+        {/* Preconnect to critical third-party origins */}
+        <link rel="preconnect" href="https://www.google-analytics.com" />
+        <link rel="preconnect" href="https://fonts.googleapis.com" />
+        <link rel="preconnect" href="https://fonts.gstatic.com" crossOrigin="anonymous" />
+
+        {/* Structured data for the business and the site */}
+        <JsonLd schema={buildProfessionalService(params.locale, { image: image.url, founder })} />
+        <JsonLd schema={buildWebSite(params.locale)} />
+
+        {/* Google Analytics */}
+        {process.env.NEXT_PUBLIC_GA_ID && (
+          <>
+            <script
+              async
+              src={`https://www.googletagmanager.com/gtag/js?id=${process.env.NEXT_PUBLIC_GA_ID}`}
+            />
+            <script
+              dangerouslySetInnerHTML={{
+                __html: `
+                  window.dataLayer = window.dataLayer || [];
+                  function gtag(){dataLayer.push(arguments);}
+                  gtag('js', new Date());
+                  gtag('config', '${process.env.NEXT_PUBLIC_GA_ID}', {
+                    page_title: document.title,
+                    page_location: window.location.href,
+                    anonymize_ip: true,
+                    allow_ad_personalization_signals: false,
+                    allow_google_signals: false
+                  });
+                `,
+              }}
+            />
+          </>
+        )}
+      </head>
+      <body className={`${inter.className} font-sans antialiased`} suppressHydrationWarning={true}>
+        {/* Skip to main content for accessibility */}
+        <a
+          href="#main-content"
+          className="sr-only focus:not-sr-only focus:absolute focus:top-4 focus:left-4 focus:z-50 focus:px-4 focus:py-2 focus:bg-primary-600 focus:text-white focus:rounded-md"
+        >
+          {getMessages(params.locale).common.skipToContent}
+        </a>
+
+        <div className="min-h-screen bg-white">{children}</div>
+
+        {/* Performance monitoring script */}
+        <script
+          dangerouslySetInnerHTML={{
+            __html: `
+              // Core Web Vitals tracking
+              new PerformanceObserver((entryList) => {
+                for (const entry of entryList.getEntries()) {
+                  if (window.gtag && entry.name) {
+                    window.gtag('event', entry.name, {
+                      event_category: 'Web Vitals',
+                      value: Math.round(entry.name === 'CLS' ? entry.value * 1000 : entry.value),
+                      event_label: entry.id,
+                      non_interaction: true,
+                    });
+                  }
+                }
+              }).observe({type: 'navigation', buffered: true});
+            `,
+          }}
+        />
+
+        {/* Service Worker registration for offline support */}
+        <script
+          dangerouslySetInnerHTML={{
+            __html: `
+              if ('serviceWorker' in navigator) {
+                window.addEventListener('load', function() {
+                  navigator.serviceWorker.register('/sw.js')
+                    .then(function(registration) {
+                      console.log('SW registered: ', registration);
+                    })
+                    .catch(function(registrationError) {
+                      console.log('SW registration failed: ', registrationError);
+                    });
+                });
+              }
+            `,
+          }}
+        />
+      </body>
+    </html>
+  );
+}
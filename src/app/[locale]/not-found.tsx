@@ -0,0 +1,30 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { DEFAULT_LOCALE, localizePath } from '@/lib/i18n';
+import { NOT_FOUND_METADATA } from '@/lib/static-params';
+
+// Replaces the layout's robots directives on every page that calls notFound()
+export const metadata: Metadata = {
+  ...NOT_FOUND_METADATA,
+  title: 'Page Not Found',
+};
+
+// Not-found pages receive no params, so they render in the default locale
+export default function NotFound() {
+  return (
+    <main id="main-content" className="section">
+      <div className="container max-w-4xl">
+        <h1 className="text-4xl font-bold text-gray-900 mb-4">Page not found</h1>
+        <p className="text-xl text-gray-600 mb-8">
+          The page you&apos;re looking for doesn&apos;t exist or has moved.
+        </p>
+        <Link
+          href={localizePath('/', DEFAULT_LOCALE)}
+          className="text-primary-600 hover:text-primary-800 font-medium"
+        >
+          &larr; Back to the homepage
+        </Link>
+      </div>
+    </main>
+  );
+}
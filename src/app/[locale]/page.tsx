@@ -1,13 +1,38 @@
 import type { Metadata } from 'next';
+import Link from 'next/link';
 import { ContactForm } from '@/components/forms/ContactForm';
+import { LanguageSwitcher } from '@/components/i18n/LanguageSwitcher';
+import { SearchDialog } from '@/components/search/SearchDialog';
+import { getAuthorBySlug } from '@/lib/content';
+import { slugify } from '@/lib/format';
+import { getMessages, localeAlternates, localizePath } from '@/lib/i18n';
+import { SITE_CONFIG } from '@/lib/site';
+import type { Locale } from '@/types';
 
-export const metadata: Metadata = {
-  title: 'Home',
-  description:
-    'Transform your enterprise with expert cloud architecture and healthcare software consulting. Specializing in AWS, Azure, HIPAA compliance, and scalable solutions.',
-};
+interface HomePageProps {
+  params: { locale: Locale };
+}
+
+export function generateMetadata({ params }: HomePageProps): Metadata {
+  const t = getMessages(params.locale).home;
+
+  return {
+    title: t.metaTitle,
+    description: t.metaDescription,
+    alternates: {
+      canonical: localizePath('/', params.locale),
+      languages: localeAlternates('/'),
+    },
+  };
+}
+
+export default async function HomePage({ params }: HomePageProps) {
+  const { locale } = params;
+  const t = getMessages(locale);
+  // "About" leads to the site owner's author profile, when there is one
+  const owner = await getAuthorBySlug(slugify(SITE_CONFIG.author.name), locale);
+  const { cloud, healthcare, enterprise } = t.home.services;
 
-export default function HomePage() {
   return (
     <div className="min-h-screen">
       {/* Header */}
@@ -22,20 +47,33 @@ export default function HomePage() {
                 href="#services"
                 className="text-gray-700 hover:text-primary-600 transition-colors"
               >
-                Services
+                {t.nav.services}
               </a>
-              <a
-                href="#case-studies"
+              <Link
+                href={localizePath('/case-studies/', locale)}
                 className="text-gray-700 hover:text-primary-600 transition-colors"
               >
-                Case Studies
-              </a>
-              <a href="#about" className="text-gray-700 hover:text-primary-600 transition-colors">
-                About
-              </a>
+                {t.nav.caseStudies}
+              </Link>
+              <Link
+                href={localizePath('/blog/', locale)}
+                className="text-gray-700 hover:text-primary-600 transition-colors"
+              >
+                {t.nav.blog}
+              </Link>
+              {owner && (
+                <Link
+                  href={localizePath(`/authors/${owner.slug}/`, locale)}
+                  className="text-gray-700 hover:text-primary-600 transition-colors"
+                >
+                  {t.nav.about}
+                </Link>
+              )}
               <a href="#contact" className="text-gray-700 hover:text-primary-600 transition-colors">
-                Contact
+                {t.nav.contact}
               </a>
+              <SearchDialog locale={locale} />
+              <LanguageSwitcher locale={locale} />
             </nav>
           </div>
         </div>
@@ -48,21 +86,17 @@ export default function HomePage() {
           <div className="container max-w-7xl">
             <div className="text-center max-w-4xl mx-auto">
               <h1 className="text-5xl sm:text-6xl font-display font-bold text-gray-900 mb-6">
-                Transform Your Enterprise with
-                <span className="text-gradient block">Expert Cloud Architecture</span>
+                {t.home.heroTitle}
+                <span className="text-gradient block">{t.home.heroHighlight}</span>
               </h1>
-              <p className="text-xl text-gray-600 mb-8 leading-relaxed">
-                Specializing in cloud architecture, healthcare software, and enterprise consulting.
-                We help organizations scale, secure, and optimize their technology infrastructure
-                for sustainable growth.
-              </p>
+              <p className="text-xl text-gray-600 mb-8 leading-relaxed">{t.home.heroIntro}</p>
               <div className="flex flex-col sm:flex-row gap-4 justify-center">
                 <a href="#contact" className="btn-primary btn-lg">
-                  Start Your Project
-                </a>
-                <a href="#case-studies" className="btn-outline btn-lg">
-                  View Case Studies
+                  {t.home.startProject}
                 </a>
+                <Link href={localizePath('/case-studies/', locale)} className="btn-outline btn-lg">
+                  {t.home.viewCaseStudies}
+                </Link>
               </div>
             </div>
           </div>
@@ -72,11 +106,10 @@ export default function HomePage() {
         <section id="services" className="section">
           <div className="container max-w-7xl">
             <div className="text-center mb-16">
-              <h2 className="text-4xl font-display font-bold text-gray-900 mb-4">Our Expertise</h2>
-              <p className="text-xl text-gray-600 max-w-3xl mx-auto">
-                We provide comprehensive consulting services to help your organization leverage
-                modern cloud technologies and best practices.
-              </p>
+              <h2 className="text-4xl font-display font-bold text-gray-900 mb-4">
+                {t.home.servicesTitle}
+              </h2>
+              <p className="text-xl text-gray-600 max-w-3xl mx-auto">{t.home.servicesIntro}</p>
             </div>
 
             <div className="grid md:grid-cols-3 gap-8">
@@ -97,23 +130,20 @@ export default function HomePage() {
                     />
                   </svg>
                 </div>
-                <h3 className="text-2xl font-semibold text-gray-900 mb-4">Cloud Architecture</h3>
-                <p className="text-gray-600 mb-6">
-                  Design and implement scalable, secure cloud infrastructures using AWS, Azure, and
-                  multi-cloud strategies tailored to your business needs.
-                </p>
+                <h3 className="text-2xl font-semibold text-gray-900 mb-4">{cloud.title}</h3>
+                <p className="text-gray-600 mb-6">{cloud.description}</p>
                 <ul className="text-sm text-gray-600 space-y-2">
                   <li className="flex items-center">
                     <span className="w-1.5 h-1.5 bg-primary-500 rounded-full mr-2"></span>
-                    Cloud migration planning & execution
+                    {cloud.features[0]}
                   </li>
                   <li className="flex items-center">
                     <span className="w-1.5 h-1.5 bg-primary-500 rounded-full mr-2"></span>
-                    Infrastructure as Code (IaC)
+                    {cloud.features[1]}
                   </li>
                   <li className="flex items-center">
                     <span className="w-1.5 h-1.5 bg-primary-500 rounded-full mr-2"></span>
-                    Performance optimization
+                    {cloud.features[2]}
                   </li>
                 </ul>
               </div>
@@ -135,23 +165,20 @@ export default function HomePage() {
                     />
                   </svg>
                 </div>
-                <h3 className="text-2xl font-semibold text-gray-900 mb-4">Healthcare Software</h3>
-                <p className="text-gray-600 mb-6">
-                  Develop HIPAA-compliant healthcare applications with focus on security,
-                  interoperability, and user experience for better patient outcomes.
-                </p>
+                <h3 className="text-2xl font-semibold text-gray-900 mb-4">{healthcare.title}</h3>
+                <p className="text-gray-600 mb-6">{healthcare.description}</p>
                 <ul className="text-sm text-gray-600 space-y-2">
                   <li className="flex items-center">
                     <span className="w-1.5 h-1.5 bg-success-500 rounded-full mr-2"></span>
-                    HIPAA compliance & security
+                    {healthcare.features[0]}
                   </li>
                   <li className="flex items-center">
                     <span className="w-1.5 h-1.5 bg-success-500 rounded-full mr-2"></span>
-                    EHR system integration
+                    {healthcare.features[1]}
                   </li>
                   <li className="flex items-center">
                     <span className="w-1.5 h-1.5 bg-success-500 rounded-full mr-2"></span>
-                    Patient data management
+                    {healthcare.features[2]}
                   </li>
                 </ul>
               </div>
@@ -173,23 +200,20 @@ export default function HomePage() {
                     />
                   </svg>
                 </div>
-                <h3 className="text-2xl font-semibold text-gray-900 mb-4">Enterprise Consulting</h3>
-                <p className="text-gray-600 mb-6">
-                  Strategic technology consulting to help enterprises modernize their systems,
-                  improve efficiency, and drive digital transformation.
-                </p>
+                <h3 className="text-2xl font-semibold text-gray-900 mb-4">{enterprise.title}</h3>
+                <p className="text-gray-600 mb-6">{enterprise.description}</p>
                 <ul className="text-sm text-gray-600 space-y-2">
                   <li className="flex items-center">
                     <span className="w-1.5 h-1.5 bg-warning-500 rounded-full mr-2"></span>
-                    Digital transformation strategy
+                    {enterprise.features[0]}
                   </li>
                   <li className="flex items-center">
                     <span className="w-1.5 h-1.5 bg-warning-500 rounded-full mr-2"></span>
-                    System architecture review
+                    {enterprise.features[1]}
                   </li>
                   <li className="flex items-center">
                     <span className="w-1.5 h-1.5 bg-warning-500 rounded-full mr-2"></span>
-                    Technology roadmap planning
+                    {enterprise.features[2]}
                   </li>
                 </ul>
               </div>
@@ -202,18 +226,15 @@ export default function HomePage() {
           <div className="container max-w-7xl">
             <div className="text-center mb-16">
               <h2 className="text-4xl font-display font-bold text-gray-900 mb-4">
-                Start Your Project Today
+                {t.home.contactTitle}
               </h2>
-              <p className="text-xl text-gray-600 max-w-3xl mx-auto">
-                Ready to transform your technology infrastructure? Let's discuss your project
-                requirements and how we can help achieve your goals.
-              </p>
+              <p className="text-xl text-gray-600 max-w-3xl mx-auto">{t.home.contactIntro}</p>
             </div>
 
             <div className="grid lg:grid-cols-2 gap-12 items-start">
               {/* Contact Information */}
               <div className="lg:pr-8">
-                <h3 className="text-2xl font-semibold text-gray-900 mb-6">Get in Touch</h3>
+                <h3 className="text-2xl font-semibold text-gray-900 mb-6">{t.home.getInTouch}</h3>
                 <div className="space-y-6">
                   <div className="flex items-start">
                     <div className="flex-shrink-0">
@@ -234,7 +255,7 @@ export default function HomePage() {
                       </div>
                     </div>
                     <div className="ml-4">
-                      <h4 className="text-lg font-medium text-gray-900">Email</h4>
+                      <h4 className="text-lg font-medium text-gray-900">{t.home.email}</h4>
                       <p className="text-gray-600">richard@borderlessbits.com</p>
                     </div>
                   </div>
@@ -258,8 +279,8 @@ export default function HomePage() {
                       </div>
                     </div>
                     <div className="ml-4">
-                      <h4 className="text-lg font-medium text-gray-900">Response Time</h4>
-                      <p className="text-gray-600">Within 24 hours</p>
+                      <h4 className="text-lg font-medium text-gray-900">{t.home.responseTime}</h4>
+                      <p className="text-gray-600">{t.home.responseTimeValue}</p>
                     </div>
                   </div>
 
@@ -288,40 +309,28 @@ export default function HomePage() {
                       </div>
                     </div>
                     <div className="ml-4">
-                      <h4 className="text-lg font-medium text-gray-900">Service Area</h4>
-                      <p className="text-gray-600">United States (Remote)</p>
+                      <h4 className="text-lg font-medium text-gray-900">{t.home.serviceArea}</h4>
+                      <p className="text-gray-600">{t.home.serviceAreaValue}</p>
                     </div>
                   </div>
                 </div>
 
                 <div className="mt-8 p-6 bg-white rounded-lg border border-gray-200">
-                  <h4 className="text-lg font-medium text-gray-900 mb-3">
-                    Why Choose BorderlessBits?
-                  </h4>
+                  <h4 className="text-lg font-medium text-gray-900 mb-3">{t.home.whyTitle}</h4>
                   <ul className="space-y-2 text-sm text-gray-600">
-                    <li className="flex items-center">
-                      <span className="w-1.5 h-1.5 bg-primary-500 rounded-full mr-3"></span>
-                      10+ years of enterprise experience
-                    </li>
-                    <li className="flex items-center">
-                      <span className="w-1.5 h-1.5 bg-primary-500 rounded-full mr-3"></span>
-                      Healthcare & compliance expertise
-                    </li>
-                    <li className="flex items-center">
-                      <span className="w-1.5 h-1.5 bg-primary-500 rounded-full mr-3"></span>
-                      Cloud-native architecture focus
-                    </li>
-                    <li className="flex items-center">
-                      <span className="w-1.5 h-1.5 bg-primary-500 rounded-full mr-3"></span>
-                      Proven track record of success
-                    </li>
+                    {t.home.why.map(reason => (
+                      <li key={reason} className="flex items-center">
+                        <span className="w-1.5 h-1.5 bg-primary-500 rounded-full mr-3"></span>
+                        {reason}
+                      </li>
+                    ))}
                   </ul>
                 </div>
               </div>
 
               {/* Contact Form */}
               <div className="bg-white rounded-xl shadow-soft p-8">
-                <ContactForm />
+                <ContactForm locale={locale} />
               </div>
             </div>
           </div>
@@ -334,40 +343,35 @@ export default function HomePage() {
           <div className="grid md:grid-cols-3 gap-8">
             <div>
               <h3 className="text-2xl font-bold mb-4">BorderlessBits</h3>
-              <p className="text-gray-300 mb-4">
-                Expert cloud architecture and healthcare software consulting for enterprise
-                organizations.
-              </p>
-              <p className="text-sm text-gray-400">© 2024 BorderlessBits. All rights reserved.</p>
+              <p className="text-gray-300 mb-4">{t.footer.tagline}</p>
+              <p className="text-sm text-gray-400">{t.footer.copyright}</p>
+              <Link
+                href={localizePath(SITE_CONFIG.privacyPolicyPath, locale)}
+                className="text-sm text-gray-400 hover:text-white transition-colors"
+              >
+                {t.footer.privacyPolicy}
+              </Link>
             </div>
 
             <div>
-              <h4 className="text-lg font-semibold mb-4">Services</h4>
+              <h4 className="text-lg font-semibold mb-4">{t.footer.servicesTitle}</h4>
               <ul className="space-y-2 text-gray-300">
-                <li>
-                  <a href="#services" className="hover:text-white transition-colors">
-                    Cloud Architecture
-                  </a>
-                </li>
-                <li>
-                  <a href="#services" className="hover:text-white transition-colors">
-                    Healthcare Software
-                  </a>
-                </li>
-                <li>
-                  <a href="#services" className="hover:text-white transition-colors">
-                    Enterprise Consulting
-                  </a>
-                </li>
+                {[cloud, healthcare, enterprise].map(service => (
+                  <li key={service.title}>
+                    <a href="#services" className="hover:text-white transition-colors">
+                      {service.title}
+                    </a>
+                  </li>
+                ))}
               </ul>
             </div>
 
             <div>
-              <h4 className="text-lg font-semibold mb-4">Contact</h4>
+              <h4 className="text-lg font-semibold mb-4">{t.footer.contactTitle}</h4>
               <ul className="space-y-2 text-gray-300">
                 <li>richard@borderlessbits.com</li>
-                <li>Response within 24 hours</li>
-                <li>Remote consulting available</li>
+                <li>{t.footer.responseTime}</li>
+                <li>{t.footer.remote}</li>
               </ul>
             </div>
           </div>
@@ -0,0 +1,14 @@
+import { generateSearchIndex } from '@/lib/content';
+import { LOCALES } from '@/lib/i18n';
+import type { Locale } from '@/types';
+
+// Rendered once per locale at build time and written to the static export
+export const dynamic = 'force-static';
+
+export function generateStaticParams() {
+  return LOCALES.map(locale => ({ locale }));
+}
+
+export async function GET(_request: Request, { params }: { params: { locale: Locale } }) {
+  return Response.json(await generateSearchIndex(params.locale));
+}
@@ -0,0 +1,15 @@
+import { generateRSSData } from '@/lib/content';
+import { buildAtomFeed } from '@/lib/feeds';
+
+// Rendered once at build time and written to the static export
+export const dynamic = 'force-static';
+
+export async function GET() {
+  const feed = buildAtomFeed(await generateRSSData());
+
+  return new Response(feed, {
+    headers: {
+      'Content-Type': 'application/atom+xml; charset=utf-8',
+    },
+  });
+}
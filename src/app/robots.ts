@@ -0,0 +1,15 @@
+import type { MetadataRoute } from 'next';
+import { absoluteUrl, SITE_CONFIG } from '@/lib/site';
+
+// Rendered once at build time and written to the static export
+export const dynamic = 'force-static';
+
+export default function robots(): MetadataRoute.Robots {
+  return {
+    rules: {
+      userAgent: '*',
+      ...(SITE_CONFIG.indexable ? { allow: '/' } : { disallow: '/' }),
+    },
+    sitemap: absoluteUrl('/sitemap.xml'),
+  };
+}
@@ -0,0 +1,22 @@
+import type { MetadataRoute } from 'next';
+import { generateSitemapData } from '@/lib/content';
+import { absoluteUrl } from '@/lib/site';
+
+// Rendered once at build time and written to the static export
+export const dynamic = 'force-static';
+
+export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
+  const entries = await generateSitemapData();
+
+  return entries.map(entry => ({
+    url: absoluteUrl(entry.path),
+    lastModified: entry.lastModified ? new Date(entry.lastModified) : undefined,
+    changeFrequency: entry.changeFrequency,
+    priority: entry.priority,
+    alternates: entry.alternates && {
+      languages: Object.fromEntries(
+        Object.entries(entry.alternates).map(([locale, path]) => [locale, absoluteUrl(path)])
+      ),
+    },
+  }));
+}
@@ -0,0 +1,42 @@
+import Image from 'next/image';
+import type { Author } from '@/types';
+
+interface AuthorAvatarProps {
+  author: Pick<Author, 'name' | 'avatar'>;
+  size?: number;
+  className?: string;
+}
+
+/**
+ * Profile photo, falling back to initials when the profile has no avatar
+ */
+export function AuthorAvatar({ author, size = 48, className = '' }: AuthorAvatarProps) {
+  if (author.avatar) {
+    return (
+      <Image
+        src={author.avatar}
+        alt={author.name}
+        width={size}
+        height={size}
+        className={`rounded-full object-cover ${className}`}
+      />
+    );
+  }
+
+  const initials = author.name
+    .split(/\s+/)
+    .map(part => part[0])
+    .slice(0, 2)
+    .join('')
+    .toUpperCase();
+
+  return (
+    <span
+      aria-hidden="true"
+      style={{ width: size, height: size, fontSize: size * 0.4 }}
+      className={`inline-flex items-center justify-center rounded-full bg-primary-100 font-semibold text-primary-700 ${className}`}
+    >
+      {initials}
+    </span>
+  );
+}
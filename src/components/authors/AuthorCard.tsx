@@ -0,0 +1,35 @@
+import Link from 'next/link';
+import { AuthorAvatar } from '@/components/authors/AuthorAvatar';
+import { getMessages, localizePath } from '@/lib/i18n';
+import type { Author, Locale } from '@/types';
+
+interface AuthorCardProps {
+  author: Author;
+  locale: Locale;
+  className?: string;
+}
+
+/**
+ * "About the author" box shown at the end of posts and case studies
+ */
+export function AuthorCard({ author, locale, className = '' }: AuthorCardProps) {
+  const t = getMessages(locale).authors;
+
+  return (
+    <aside aria-label={t.aboutAuthor} className={`card p-6 flex gap-5 ${className}`}>
+      <AuthorAvatar author={author} size={64} className="shrink-0" />
+      <div>
+        <p className="text-sm text-gray-500">{t.writtenBy}</p>
+        <p className="text-lg font-semibold text-gray-900">
+          <Link
+            href={localizePath(`/authors/${author.slug}/`, locale)}
+            className="hover:text-primary-600"
+          >
+            {author.name}
+          </Link>
+        </p>
+        {author.role && <p className="text-sm text-gray-600">{author.role}</p>}
+      </div>
+    </aside>
+  );
+}
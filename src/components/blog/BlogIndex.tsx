@@ -0,0 +1,86 @@
+import Link from 'next/link';
+import { Pagination } from '@/components/blog/Pagination';
+import { PostCard } from '@/components/blog/PostCard';
+import { LanguageSwitcher } from '@/components/i18n/LanguageSwitcher';
+import { Breadcrumbs } from '@/components/navigation/Breadcrumbs';
+import { SearchDialog } from '@/components/search/SearchDialog';
+import { getPostsPage } from '@/lib/content';
+import { formatMessage, getMessages, localizePath } from '@/lib/i18n';
+import { pagePath } from '@/lib/listing';
+import type { Locale } from '@/types';
+
+interface BlogIndexProps {
+  page: number;
+  locale: Locale;
+}
+
+/**
+ * One page of the blog listing, shared by /blog/ and /blog/page/<n>/
+ */
+export async function BlogIndex({ page, locale }: BlogIndexProps) {
+  const t = getMessages(locale).blog;
+  const { items: posts, totalPages } = await getPostsPage(page, {}, locale);
+
+  return (
+    <main id="main-content" className="section">
+      <div className="container max-w-4xl">
+        <Breadcrumbs
+          items={[
+            { label: t.title, href: '/blog/' },
+            ...(page > 1
+              ? [
+                  {
+                    label: formatMessage(t.pageLabel, { number: page }),
+                    href: pagePath('/blog/', page),
+                  },
+                ]
+              : []),
+          ]}
+          locale={locale}
+        />
+
+        {/* Header */}
+        <header className="mt-6 mb-12">
+          <h1 className="text-4xl font-bold text-gray-900 mb-4">
+            {page > 1 ? formatMessage(t.pageTitle, { title: t.title, number: page }) : t.title}
+          </h1>
+          <p className="text-xl text-gray-600">{t.intro}</p>
+          <div className="flex items-center gap-6 mt-4 text-sm font-medium">
+            <Link
+              href={localizePath('/blog/tags/', locale)}
+              className="text-primary-600 hover:text-primary-800"
+            >
+              {t.browseTopics} &rarr;
+            </Link>
+            <Link
+              href={localizePath('/blog/archive/', locale)}
+              className="text-primary-600 hover:text-primary-800"
+            >
+              {t.archive} &rarr;
+            </Link>
+            <SearchDialog locale={locale} />
+            <LanguageSwitcher locale={locale} className="ml-auto" />
+          </div>
+        </header>
+
+        {posts.length > 0 ? (
+          <div className="space-y-8">
+            {posts.map(post => (
+              <PostCard key={post.slug} post={post} locale={locale} />
+            ))}
+          </div>
+        ) : (
+          <p className="text-gray-600">{t.empty}</p>
+        )}
+
+        <Pagination
+          page={page}
+          totalPages={totalPages}
+          basePath="/blog/"
+          locale={locale}
+          className="mt-12"
+        />
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,38 @@
+import { formatDate } from '@/lib/format';
+import { getMessages } from '@/lib/i18n';
+import type { ChangelogEntry, Locale } from '@/types';
+
+interface ChangelogProps {
+  entries: ChangelogEntry[];
+  locale: Locale;
+  className?: string;
+}
+
+/**
+ * "What changed" list of a post's notable revisions, newest first
+ */
+export function Changelog({ entries, locale, className = '' }: ChangelogProps) {
+  if (entries.length === 0) {
+    return null;
+  }
+
+  const t = getMessages(locale).blog;
+
+  return (
+    <section aria-labelledby="changelog-heading" className={className}>
+      <h2 id="changelog-heading" className="text-lg font-semibold text-gray-900 mb-4">
+        {t.changelogTitle}
+      </h2>
+      <ol className="space-y-3 border-l border-gray-200 pl-5 text-sm">
+        {entries.map(entry => (
+          <li key={`${entry.date}-${entry.summary}`}>
+            <time dateTime={entry.date} className="block font-medium text-gray-700">
+              {formatDate(entry.date, locale)}
+            </time>
+            <p className="text-gray-600">{entry.summary}</p>
+          </li>
+        ))}
+      </ol>
+    </section>
+  );
+}
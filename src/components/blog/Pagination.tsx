@@ -0,0 +1,72 @@
+import Link from 'next/link';
+import { formatMessage, getMessages, localizePath } from '@/lib/i18n';
+import { pagePath } from '@/lib/listing';
+import type { Locale } from '@/types';
+
+interface PaginationProps {
+  page: number;
+  totalPages: number;
+  // Unlocalized path of the listing's first page, e.g. /blog/
+  basePath: string;
+  locale: Locale;
+  className?: string;
+}
+
+/**
+ * Numbered page links for a post listing, with rel="prev"/"next" on the
+ * neighbouring pages. Renders nothing for single-page listings.
+ */
+export function Pagination({
+  page,
+  totalPages,
+  basePath,
+  locale,
+  className = '',
+}: PaginationProps) {
+  if (totalPages <= 1) {
+    return null;
+  }
+
+  const t = getMessages(locale).blog;
+  const href = (target: number) => localizePath(pagePath(basePath, target), locale);
+  const pages = Array.from({ length: totalPages }, (_, index) => index + 1);
+
+  return (
+    <nav aria-label={t.pagination} className={`flex items-center gap-4 text-sm ${className}`}>
+      {page > 1 && (
+        <Link rel="prev" href={href(page - 1)} className="text-primary-600 hover:text-primary-800">
+          &larr; {t.previousPage}
+        </Link>
+      )}
+
+      <ol className="flex items-center gap-1 mx-auto">
+        {pages.map(target => (
+          <li key={target}>
+            {target === page ? (
+              <span
+                aria-current="page"
+                className="inline-block rounded px-3 py-1 bg-primary-600 font-semibold text-white"
+              >
+                {target}
+              </span>
+            ) : (
+              <Link
+                href={href(target)}
+                aria-label={formatMessage(t.pageLabel, { number: target })}
+                className="inline-block rounded px-3 py-1 text-gray-700 hover:bg-gray-100"
+              >
+                {target}
+              </Link>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      {page < totalPages && (
+        <Link rel="next" href={href(page + 1)} className="text-primary-600 hover:text-primary-800">
+          {t.nextPage} &rarr;
+        </Link>
+      )}
+    </nav>
+  );
+}
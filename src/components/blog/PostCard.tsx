@@ -0,0 +1,33 @@
+import Link from 'next/link';
+import { PostMeta } from '@/components/blog/PostMeta';
+import { TagList } from '@/components/blog/TagList';
+import { isPublished } from '@/lib/content';
+import { getMessages, localizePath } from '@/lib/i18n';
+import type { Locale, Post } from '@/types';
+
+interface PostCardProps {
+  post: Post;
+  locale: Locale;
+}
+
+export function PostCard({ post, locale }: PostCardProps) {
+  const t = getMessages(locale).common;
+
+  return (
+    <article className="card card-hover p-8">
+      <PostMeta post={post} locale={locale} className="mb-3" />
+      {!isPublished(post) && (
+        <span className="inline-block mb-3 rounded bg-warning-500 px-2 py-0.5 text-xs font-bold uppercase tracking-wide text-white">
+          {post.draft ? t.draft : t.scheduled}
+        </span>
+      )}
+      <h2 className="text-2xl font-semibold text-gray-900 mb-3">
+        <Link href={localizePath(`/blog/${post.slug}/`, locale)} className="hover:text-primary-600">
+          {post.title}
+        </Link>
+      </h2>
+      {post.description && <p className="text-gray-600 mb-6">{post.description}</p>}
+      <TagList tags={post.tags} locale={locale} />
+    </article>
+  );
+}
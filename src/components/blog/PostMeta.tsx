@@ -0,0 +1,43 @@
+import Link from 'next/link';
+import { formatDate } from '@/lib/format';
+import { formatMessage, getMessages, localizePath } from '@/lib/i18n';
+import type { Locale, Post } from '@/types';
+
+interface PostMetaProps {
+  post: Pick<Post, 'author' | 'authorProfile' | 'date' | 'updated' | 'readingTime'>;
+  locale: Locale;
+  className?: string;
+}
+
+export function PostMeta({ post, locale, className = '' }: PostMetaProps) {
+  const t = getMessages(locale).blog;
+
+  return (
+    <div
+      className={`flex flex-wrap items-center gap-x-3 gap-y-1 text-sm text-gray-500 ${className}`}
+    >
+      {post.authorProfile ? (
+        <Link
+          href={localizePath(`/authors/${post.authorProfile.slug}/`, locale)}
+          className="font-medium text-gray-700 hover:text-primary-600"
+        >
+          {post.author}
+        </Link>
+      ) : (
+        <span className="font-medium text-gray-700">{post.author}</span>
+      )}
+      <span aria-hidden="true">&middot;</span>
+      <time dateTime={post.date}>{formatDate(post.date, locale)}</time>
+      {post.updated && (
+        <>
+          <span aria-hidden="true">&middot;</span>
+          <span>
+            {t.updated} <time dateTime={post.updated}>{formatDate(post.updated, locale)}</time>
+          </span>
+        </>
+      )}
+      <span aria-hidden="true">&middot;</span>
+      <span>{formatMessage(t.minRead, { minutes: post.readingTime })}</span>
+    </div>
+  );
+}
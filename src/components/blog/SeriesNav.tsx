@@ -0,0 +1,68 @@
+import Link from 'next/link';
+import { formatMessage, getMessages, localizePath } from '@/lib/i18n';
+import type { Locale, Post, Series } from '@/types';
+
+interface SeriesNavProps {
+  series: Series;
+  post: Post;
+  locale: Locale;
+  className?: string;
+}
+
+/**
+ * "Part 2 of 5" banner with previous/next links for a post in a series
+ */
+export function SeriesNav({ series, post, locale, className = '' }: SeriesNavProps) {
+  const t = getMessages(locale).series;
+  const index = series.parts.findIndex(part => part.slug === post.slug);
+
+  if (index === -1) {
+    return null;
+  }
+
+  const previous = series.parts[index - 1];
+  const next = series.parts[index + 1];
+
+  return (
+    <nav
+      aria-label={formatMessage(t.navLabel, { name: series.name })}
+      className={`rounded-lg border border-primary-200 bg-primary-50 p-5 ${className}`}
+    >
+      <p className="text-sm text-gray-700">
+        <span className="font-semibold text-primary-700">
+          {formatMessage(t.partOf, { number: index + 1, total: series.parts.length })}
+        </span>{' '}
+        {t.in}{' '}
+        <Link
+          href={localizePath(`/blog/series/${series.slug}/`, locale)}
+          className="font-medium text-gray-900 hover:text-primary-600"
+        >
+          {series.name}
+        </Link>
+      </p>
+
+      {(previous || next) && (
+        <div className="mt-3 flex flex-col gap-2 text-sm sm:flex-row sm:justify-between">
+          {previous ? (
+            <Link
+              href={localizePath(`/blog/${previous.slug}/`, locale)}
+              className="text-primary-600 hover:text-primary-800"
+            >
+              &larr; {previous.title}
+            </Link>
+          ) : (
+            <span />
+          )}
+          {next && (
+            <Link
+              href={localizePath(`/blog/${next.slug}/`, locale)}
+              className="text-primary-600 hover:text-primary-800 sm:text-right"
+            >
+              {next.title} &rarr;
+            </Link>
+          )}
+        </div>
+      )}
+    </nav>
+  );
+}
@@ -0,0 +1,34 @@
+import Link from 'next/link';
+import { slugify } from '@/lib/format';
+import { getMessages, localizePath } from '@/lib/i18n';
+import type { Locale } from '@/types';
+
+interface TagListProps {
+  tags: string[];
+  locale: Locale;
+  className?: string;
+}
+
+export function TagList({ tags, locale, className = '' }: TagListProps) {
+  if (tags.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul
+      className={`flex flex-wrap gap-2 ${className}`}
+      aria-label={getMessages(locale).common.tags}
+    >
+      {tags.map(tag => (
+        <li key={tag}>
+          <Link
+            href={localizePath(`/blog/tags/${slugify(tag)}/`, locale)}
+            className="inline-block px-3 py-1 text-xs font-medium rounded-full bg-primary-50 text-primary-700 hover:bg-primary-100"
+          >
+            {tag}
+          </Link>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,128 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { CaseStudyCard } from '@/components/case-studies/CaseStudyCard';
+import {
+  CASE_STUDY_FACETS,
+  countAvailableFacetValues,
+  countFacetValues,
+  facetQueryString,
+  filterCaseStudies,
+  parseFacetQuery,
+  toggleFacetValue,
+  type FacetSelection,
+} from '@/lib/facets';
+import { formatPlural, getMessages, localizePath } from '@/lib/i18n';
+import type { CaseStudyFacet, CaseStudySummary, Locale } from '@/types';
+
+interface CaseStudyBrowserProps {
+  caseStudies: CaseStudySummary[];
+  locale: Locale;
+}
+
+export function CaseStudyBrowser({ caseStudies, locale }: CaseStudyBrowserProps) {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const t = getMessages(locale).caseStudies;
+
+  // The query string is the source of truth, so filtered views can be shared and bookmarked
+  const selection = useMemo(() => parseFacetQuery(searchParams), [searchParams]);
+  const results = useMemo(
+    () => filterCaseStudies(caseStudies, selection),
+    [caseStudies, selection]
+  );
+
+  const labels: Record<CaseStudyFacet, string> = {
+    industry: t.industry,
+    technology: t.technologies,
+    tag: t.tags,
+  };
+
+  const select = (next: FacetSelection) => {
+    router.replace(`${localizePath('/case-studies/', locale)}${facetQueryString(next)}`, {
+      scroll: false,
+    });
+  };
+
+  const hasSelection = Object.keys(selection).length > 0;
+
+  return (
+    <div className="lg:flex lg:gap-12">
+      <aside className="lg:w-64 shrink-0 mb-10 lg:mb-0" aria-label={t.filters}>
+        {CASE_STUDY_FACETS.map(facet => {
+          const values = countFacetValues(caseStudies, facet, locale);
+          // Counts show what each option would match given the other facets
+          const available = new Map(
+            countAvailableFacetValues(caseStudies, facet, selection, locale).map(value => [
+              value.slug,
+              value.count,
+            ])
+          );
+
+          if (values.length === 0) return null;
+
+          return (
+            <fieldset key={facet} className="mb-8">
+              <legend className="text-sm font-semibold text-gray-900 uppercase tracking-wide mb-3">
+                {labels[facet]}
+              </legend>
+              <ul className="space-y-2">
+                {values.map(value => {
+                  const checked = selection[facet]?.includes(value.slug) ?? false;
+                  const count = available.get(value.slug) || 0;
+
+                  return (
+                    <li key={value.slug}>
+                      <label
+                        className={`flex items-center gap-2 text-sm ${
+                          checked || count > 0 ? 'text-gray-700' : 'text-gray-400'
+                        }`}
+                      >
+                        <input
+                          type="checkbox"
+                          className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                          checked={checked}
+                          disabled={!checked && count === 0}
+                          onChange={() => select(toggleFacetValue(selection, facet, value.slug))}
+                        />
+                        <span className="flex-1">{value.name}</span>
+                        <span className="text-gray-400">{count}</span>
+                      </label>
+                    </li>
+                  );
+                })}
+              </ul>
+            </fieldset>
+          );
+        })}
+
+        {hasSelection && (
+          <button
+            type="button"
+            onClick={() => select({})}
+            className="text-sm text-primary-600 hover:text-primary-800"
+          >
+            {t.clearFilters}
+          </button>
+        )}
+      </aside>
+
+      <div className="flex-1 min-w-0">
+        <p className="text-sm text-gray-600 mb-6" aria-live="polite">
+          {formatPlural(t.caseStudyCount, results.length, locale)}
+        </p>
+
+        {results.length > 0 ? (
+          <div className="grid md:grid-cols-2 gap-8">
+            {results.map(caseStudy => (
+              <CaseStudyCard key={caseStudy.slug} caseStudy={caseStudy} locale={locale} />
+            ))}
+          </div>
+        ) : (
+          <p className="text-gray-600">{t.noMatches}</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import Link from 'next/link';
+import { localizePath } from '@/lib/i18n';
+import type { CaseStudySummary, Locale } from '@/types';
+
+interface CaseStudyCardProps {
+  caseStudy: CaseStudySummary;
+  locale: Locale;
+}
+
+export function CaseStudyCard({ caseStudy, locale }: CaseStudyCardProps) {
+  const headline = caseStudy.results[0];
+
+  return (
+    <article className="card card-hover p-8 flex flex-col">
+      <p className="text-sm font-medium text-primary-600 mb-2">
+        {[caseStudy.industry, caseStudy.client].filter(Boolean).join(' · ')}
+      </p>
+      <h2 className="text-2xl font-semibold text-gray-900 mb-3">
+        <Link
+          href={localizePath(`/case-studies/${caseStudy.slug}/`, locale)}
+          className="hover:text-primary-600"
+        >
+          {caseStudy.title}
+        </Link>
+      </h2>
+      {caseStudy.description && <p className="text-gray-600 mb-6">{caseStudy.description}</p>}
+      {headline && (
+        <p className="mt-auto text-gray-900">
+          <span className="text-2xl font-bold text-primary-600 mr-2">{headline.value}</span>
+          <span className="text-sm text-gray-600">{headline.metric}</span>
+        </p>
+      )}
+    </article>
+  );
+}
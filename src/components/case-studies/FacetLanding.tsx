@@ -0,0 +1,58 @@
+import Link from 'next/link';
+import { CaseStudyCard } from '@/components/case-studies/CaseStudyCard';
+import { Breadcrumbs } from '@/components/navigation/Breadcrumbs';
+import { facetLandingPath, facetQueryString, type LandingFacet } from '@/lib/facets';
+import { formatPlural, getMessages, localizePath } from '@/lib/i18n';
+import type { CaseStudy, FacetCount, Locale } from '@/types';
+
+interface FacetLandingProps {
+  facet: LandingFacet;
+  value: FacetCount;
+  caseStudies: CaseStudy[];
+  locale: Locale;
+}
+
+/**
+ * Landing page body for a technology or industry, listing its case studies
+ */
+export function FacetLanding({ facet, value, caseStudies, locale }: FacetLandingProps) {
+  const t = getMessages(locale).caseStudies;
+
+  return (
+    <main id="main-content" className="section">
+      <div className="container max-w-7xl">
+        <Breadcrumbs
+          items={[
+            { label: t.title, href: '/case-studies/' },
+            { label: value.name, href: facetLandingPath(facet, value.name) },
+          ]}
+          locale={locale}
+        />
+
+        <header className="max-w-3xl mt-6 mb-12">
+          <p className="text-sm font-medium text-primary-600 uppercase tracking-wide mb-2">
+            {facet === 'technology' ? t.technology : t.industry}
+          </p>
+          <h1 className="text-4xl font-bold text-gray-900 mb-4">{value.name}</h1>
+          <p className="text-xl text-gray-600">
+            {formatPlural(t.caseStudyCount, value.count, locale)}
+            {' · '}
+            {/* The same selection in the browser, to combine with other filters */}
+            <Link
+              href={`${localizePath('/case-studies/', locale)}${facetQueryString({ [facet]: [value.slug] })}`}
+              className="text-primary-600 hover:text-primary-800"
+            >
+              {t.filters}
+            </Link>
+          </p>
+        </header>
+
+        <div className="grid md:grid-cols-2 gap-8">
+          {caseStudies.map(caseStudy => (
+            <CaseStudyCard key={caseStudy.slug} caseStudy={caseStudy} locale={locale} />
+          ))}
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,23 @@
+import type { CaseStudy } from '@/types';
+
+interface ResultMetricsProps {
+  results: CaseStudy['results'];
+  className?: string;
+}
+
+export function ResultMetrics({ results, className = '' }: ResultMetricsProps) {
+  if (results.length === 0) {
+    return null;
+  }
+
+  return (
+    <dl className={`grid gap-4 sm:grid-cols-3 ${className}`}>
+      {results.map(result => (
+        <div key={result.metric} className="card p-6 text-center">
+          <dd className="text-3xl font-bold text-primary-600 mb-1">{result.value}</dd>
+          <dt className="text-sm font-medium text-gray-600">{result.metric}</dt>
+        </div>
+      ))}
+    </dl>
+  );
+}
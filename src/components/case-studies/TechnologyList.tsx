@@ -0,0 +1,34 @@
+import Link from 'next/link';
+import { facetLandingPath } from '@/lib/facets';
+import { getMessages, localizePath } from '@/lib/i18n';
+import type { Locale } from '@/types';
+
+interface TechnologyListProps {
+  technologies: string[];
+  locale: Locale;
+  className?: string;
+}
+
+export function TechnologyList({ technologies, locale, className = '' }: TechnologyListProps) {
+  if (technologies.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul
+      className={`flex flex-wrap gap-2 ${className}`}
+      aria-label={getMessages(locale).caseStudies.technologies}
+    >
+      {technologies.map(technology => (
+        <li key={technology}>
+          <Link
+            href={localizePath(facetLandingPath('technology', technology), locale)}
+            className="block px-3 py-1 text-sm font-medium rounded-md border border-gray-200 bg-gray-50 text-gray-700 hover:border-primary-300 hover:text-primary-700"
+          >
+            {technology}
+          </Link>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,59 @@
+import { MDXRemote } from 'next-mdx-remote/rsc';
+import { getMdxComponents } from '@/components/mdx/registry';
+import { CopyCodeListener } from '@/components/content/CopyCodeListener';
+import type { ContentCollection } from '@/lib/content-schema';
+import { getMdxOptions } from '@/lib/markdown';
+import { SANITIZE_POLICIES } from '@/lib/sanitize';
+import type { ContentFormat, Locale } from '@/types';
+
+interface ContentBodyProps {
+  content: string;
+  format: ContentFormat;
+  // Locale of the page the body is rendered on
+  locale: Locale;
+  // Language the body is written in, when it fell back to another locale
+  contentLocale?: Locale;
+  // Collection the content belongs to, for its sanitize policy
+  collection: ContentCollection;
+  className?: string;
+}
+
+/**
+ * Renders a content body: pre-rendered HTML for markdown, compiled with the
+ * component registry for MDX
+ */
+export function ContentBody({
+  content,
+  format,
+  locale,
+  contentLocale = locale,
+  collection,
+  className = 'prose prose-lg',
+}: ContentBodyProps) {
+  if (format === 'mdx') {
+    const components = getMdxComponents(locale);
+    const mdxOptions = getMdxOptions(
+      contentLocale,
+      SANITIZE_POLICIES[collection],
+      Object.keys(components)
+    );
+
+    return (
+      <div className={className} lang={contentLocale === locale ? undefined : contentLocale}>
+        <MDXRemote source={content} components={components} options={{ mdxOptions }} />
+        <CopyCodeListener />
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div
+        className={className}
+        lang={contentLocale === locale ? undefined : contentLocale}
+        dangerouslySetInnerHTML={{ __html: content }}
+      />
+      <CopyCodeListener />
+    </>
+  );
+}
@@ -0,0 +1,41 @@
+'use client';
+
+import { useEffect } from 'react';
+
+const COPIED_RESET_MS = 2000;
+
+/**
+ * Handles the copy buttons that the markdown pipeline renders into code
+ * blocks, using a single delegated listener instead of per-block hydration
+ */
+export function CopyCodeListener() {
+  useEffect(() => {
+    const handleClick = async (event: MouseEvent) => {
+      const button = (event.target as Element | null)?.closest<HTMLButtonElement>(
+        '[data-copy-code]'
+      );
+      const code = button?.closest('figure')?.querySelector('pre code');
+      if (!button || !code) return;
+
+      // Labels are rendered onto the button in the content's language
+      const label = button.dataset.copyLabel || button.textContent || '';
+      button.dataset.copyLabel = label;
+
+      try {
+        await navigator.clipboard.writeText(code.textContent || '');
+        button.textContent = button.dataset.copied || 'Copied';
+      } catch {
+        button.textContent = button.dataset.copyFailed || 'Failed';
+      }
+
+      window.setTimeout(() => {
+        button.textContent = label;
+      }, COPIED_RESET_MS);
+    };
+
+    document.addEventListener('click', handleClick);
+    return () => document.removeEventListener('click', handleClick);
+  }, []);
+
+  return null;
+}
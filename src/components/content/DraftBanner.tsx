@@ -0,0 +1,36 @@
+import { isPublished } from '@/lib/content';
+import { formatDate } from '@/lib/format';
+import { formatMessage, getMessages } from '@/lib/i18n';
+import type { Locale, PostMetadata } from '@/types';
+
+interface DraftBannerProps {
+  item: Pick<PostMetadata, 'draft' | 'publishAt'>;
+  locale: Locale;
+}
+
+/**
+ * Warns reviewers that they are reading unpublished content. Only rendered in
+ * development and preview builds, since production builds exclude drafts.
+ */
+export function DraftBanner({ item, locale }: DraftBannerProps) {
+  if (isPublished(item)) {
+    return null;
+  }
+
+  const t = getMessages(locale).common;
+  const message = item.draft
+    ? t.draftNotice
+    : formatMessage(t.scheduledNotice, { date: formatDate(item.publishAt!, locale) });
+
+  return (
+    <div
+      role="status"
+      className="mb-8 rounded-lg border border-warning-300 bg-warning-50 px-4 py-3 text-sm text-warning-800"
+    >
+      <span className="mr-2 inline-block rounded bg-warning-500 px-2 py-0.5 text-xs font-bold uppercase tracking-wide text-white">
+        {item.draft ? t.draft : t.scheduled}
+      </span>
+      {message}
+    </div>
+  );
+}
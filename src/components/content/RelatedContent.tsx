@@ -0,0 +1,57 @@
+import Link from 'next/link';
+import { getMessages, localizePath } from '@/lib/i18n';
+import type { Locale, RelatedContent as RelatedContentEntry } from '@/types';
+
+interface RelatedContentProps {
+  items: RelatedContentEntry[];
+  locale: Locale;
+  className?: string;
+}
+
+function hrefFor(related: RelatedContentEntry, locale: Locale): string {
+  return localizePath(
+    related.type === 'post' ? `/blog/${related.item.slug}/` : `/case-studies/${related.item.slug}/`,
+    locale
+  );
+}
+
+/**
+ * "Related reading" block linking to the posts and case studies most similar
+ * to the current page
+ */
+export function RelatedContent({ items, locale, className = '' }: RelatedContentProps) {
+  if (items.length === 0) {
+    return null;
+  }
+
+  const t = getMessages(locale).content;
+  const typeLabels: Record<RelatedContentEntry['type'], string> = {
+    post: t.article,
+    caseStudy: t.caseStudy,
+  };
+
+  return (
+    <section aria-labelledby="related-heading" className={className}>
+      <h2 id="related-heading" className="text-2xl font-semibold text-gray-900 mb-6">
+        {t.related}
+      </h2>
+      <ul className="grid md:grid-cols-3 gap-6">
+        {items.map(related => (
+          <li key={`${related.type}-${related.item.slug}`} className="card card-hover p-6">
+            <p className="text-xs font-semibold uppercase tracking-wide text-primary-600 mb-2">
+              {typeLabels[related.type]}
+            </p>
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">
+              <Link href={hrefFor(related, locale)} className="hover:text-primary-600">
+                {related.item.title}
+              </Link>
+            </h3>
+            {related.item.description && (
+              <p className="text-sm text-gray-600">{related.item.description}</p>
+            )}
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,77 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { getMessages } from '@/lib/i18n';
+import type { Locale, TocEntry } from '@/types';
+
+interface TableOfContentsProps {
+  entries: TocEntry[];
+  locale: Locale;
+  className?: string;
+}
+
+function flattenIds(entries: TocEntry[]): string[] {
+  return entries.flatMap(entry => [entry.id, ...flattenIds(entry.children)]);
+}
+
+/**
+ * Sticky "On this page" navigation that highlights the section being read
+ */
+export function TableOfContents({ entries, locale, className = '' }: TableOfContentsProps) {
+  const [activeId, setActiveId] = useState<string>();
+
+  useEffect(() => {
+    const headings = flattenIds(entries)
+      .map(id => document.getElementById(id))
+      .filter((heading): heading is HTMLElement => heading !== null);
+
+    // A heading becomes active once it crosses the top third of the viewport
+    const observer = new IntersectionObserver(
+      observed => {
+        observed
+          .filter(entry => entry.isIntersecting)
+          .forEach(entry => setActiveId(entry.target.id));
+      },
+      { rootMargin: '0px 0px -66% 0px' }
+    );
+
+    headings.forEach(heading => observer.observe(heading));
+    return () => observer.disconnect();
+  }, [entries]);
+
+  if (entries.length === 0) {
+    return null;
+  }
+
+  const renderEntries = (items: TocEntry[], nested = false) => (
+    <ul className={nested ? 'mt-2 ml-3 space-y-2 border-l border-gray-200 pl-3' : 'space-y-2'}>
+      {items.map(entry => (
+        <li key={entry.id}>
+          <a
+            href={`#${entry.id}`}
+            aria-current={entry.id === activeId ? 'location' : undefined}
+            className={
+              entry.id === activeId
+                ? 'font-medium text-primary-600'
+                : 'text-gray-600 hover:text-gray-900'
+            }
+          >
+            {entry.title}
+          </a>
+          {entry.children.length > 0 && renderEntries(entry.children, true)}
+        </li>
+      ))}
+    </ul>
+  );
+
+  const t = getMessages(locale).content;
+
+  return (
+    <nav aria-label={t.tableOfContents} className={`sticky top-8 text-sm ${className}`}>
+      <p className="mb-3 text-xs font-semibold uppercase tracking-wide text-gray-500">
+        {t.onThisPage}
+      </p>
+      {renderEntries(entries)}
+    </nav>
+  );
+}
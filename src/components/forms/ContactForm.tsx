@@ -4,8 +4,9 @@ import { useCallback, useRef, useState } from 'react';
 import { submitContactForm } from '@/lib/emailjs';
 import { formatFormDataForSubmission, RateLimiter, validateContactForm } from '@/lib/validation';
 import { trackConversion, trackFormSubmission } from '@/lib/analytics';
+import { DEFAULT_LOCALE, formatMessage, getMessages } from '@/lib/i18n';
 import { useFormStore } from '@/lib/store';
-import type { ContactFormData, FormErrors } from '@/types';
+import type { ContactFormData, FormErrors, Locale } from '@/types';
 
 // Rate limiter instance
 const rateLimiter = new RateLimiter();
@@ -22,7 +23,13 @@ const initialFormData: ContactFormData = {
   referral_source: undefined,
 };
 
-export function ContactForm() {
+interface ContactFormProps {
+  locale?: Locale;
+}
+
+export function ContactForm({ locale = DEFAULT_LOCALE }: ContactFormProps) {
+  const t = getMessages(locale).contactForm;
+
   // State management
   const [formData, setFormData] = useState<ContactFormData>(initialFormData);
   const [errors, setErrors] = useState<FormErrors>({});
@@ -66,7 +73,7 @@ export function ContactForm() {
         const remainingTime = rateLimiter.getRemainingTime(clientIP);
         setStatus(
           'error',
-          `Too many attempts. Please wait ${Math.ceil(remainingTime / 1000 / 60)} minutes.`
+          formatMessage(t.tooManyAttempts, { minutes: Math.ceil(remainingTime / 1000 / 60) })
         );
         return;
       }
@@ -77,11 +84,11 @@ export function ContactForm() {
       try {
         // Validate form data
         const sanitizedData = formatFormDataForSubmission(formData);
-        const validationErrors = validateContactForm(sanitizedData);
+        const validationErrors = validateContactForm(sanitizedData, locale);
 
         if (Object.keys(validationErrors).length > 0) {
           setErrors(validationErrors);
-          setStatus('error', 'Please fix the errors above');
+          setStatus('error', t.fixErrors);
           return;
         }
 
@@ -103,7 +110,7 @@ export function ContactForm() {
           // Reset form and show success
           setFormData(initialFormData);
           setErrors({});
-          setStatus('success', 'Thank you! Your message has been sent successfully.');
+          setStatus('success', t.success);
 
           // Scroll to top of form to show success message
           formRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
@@ -114,16 +121,13 @@ export function ContactForm() {
         }
       } catch (error) {
         console.error('Form submission error:', error);
-        const errorMessage =
-          error instanceof Error
-            ? error.message
-            : 'An unexpected error occurred. Please try again.';
+        const errorMessage = error instanceof Error ? error.message : t.unexpectedError;
 
         trackFormSubmission('contact_form', false, errorMessage);
         setStatus('error', errorMessage);
       }
     },
-    [formData, honeypotField, setStatus]
+    [formData, honeypotField, locale, setStatus, t]
   );
 
   /**
@@ -153,7 +157,7 @@ export function ContactForm() {
 
         {/* Honeypot field for spam detection */}
         <div className="hidden">
-          <label htmlFor="website">Website (leave blank):</label>
+          <label htmlFor="website">{t.honeypot}</label>
           <input
             type="text"
             name="website"
@@ -179,9 +183,7 @@ export function ContactForm() {
                 </svg>
               </div>
               <div className="ml-3">
-                <p className="text-sm font-medium text-success-800">
-                  {errorMessage || 'Thank you! Your message has been sent successfully.'}
-                </p>
+                <p className="text-sm font-medium text-success-800">{errorMessage || t.success}</p>
               </div>
             </div>
           </div>
@@ -200,11 +202,9 @@ export function ContactForm() {
                 </svg>
               </div>
               <div className="ml-3">
-                <p className="text-sm font-medium text-error-800">
-                  {errorMessage || 'An error occurred. Please try again.'}
-                </p>
+                <p className="text-sm font-medium text-error-800">{errorMessage || t.error}</p>
                 <p className="text-xs text-error-600 mt-1">
-                  If the problem persists, please email directly at{' '}
+                  {t.errorFallback}{' '}
                   <a href="mailto:richard@borderlessbits.com" className="underline">
                     richard@borderlessbits.com
                   </a>
@@ -217,7 +217,7 @@ export function ContactForm() {
         {/* Name Field */}
         <div>
           <label htmlFor="name" className="form-label">
-            Full Name *
+            {t.name}
           </label>
           <input
             type="text"
@@ -226,7 +226,7 @@ export function ContactForm() {
             value={formData.name}
             onChange={e => handleChange('name', e.target.value)}
             className={`form-input ${errors.name ? 'border-error-500 focus:ring-error-500' : ''}`}
-            placeholder="Enter your full name"
+            placeholder={t.namePlaceholder}
             required
             disabled={isSubmitting}
             autoComplete="name"
@@ -237,7 +237,7 @@ export function ContactForm() {
         {/* Email Field */}
         <div>
           <label htmlFor="email" className="form-label">
-            Email Address *
+            {t.email}
           </label>
           <input
             type="email"
@@ -246,7 +246,7 @@ export function ContactForm() {
             value={formData.email}
             onChange={e => handleChange('email', e.target.value)}
             className={`form-input ${errors.email ? 'border-error-500 focus:ring-error-500' : ''}`}
-            placeholder="your.email@company.com"
+            placeholder={t.emailPlaceholder}
             required
             disabled={isSubmitting}
             autoComplete="email"
@@ -257,7 +257,7 @@ export function ContactForm() {
         {/* Company Field */}
         <div>
           <label htmlFor="company" className="form-label">
-            Company Name
+            {t.company}
           </label>
           <input
             type="text"
@@ -266,7 +266,7 @@ export function ContactForm() {
             value={formData.company}
             onChange={e => handleChange('company', e.target.value)}
             className={`form-input ${errors.company ? 'border-error-500 focus:ring-error-500' : ''}`}
-            placeholder="Your company name"
+            placeholder={t.companyPlaceholder}
             disabled={isSubmitting}
             autoComplete="organization"
           />
@@ -276,7 +276,7 @@ export function ContactForm() {
         {/* Project Type Field */}
         <div>
           <label htmlFor="project_type" className="form-label">
-            Project Type *
+            {t.projectType}
           </label>
           <select
             id="project_type"
@@ -287,10 +287,11 @@ export function ContactForm() {
             required
             disabled={isSubmitting}
           >
-            <option value="cloud_architecture">Cloud Architecture</option>
-            <option value="healthcare_software">Healthcare Software</option>
-            <option value="enterprise_consulting">Enterprise Consulting</option>
-            <option value="other">Other</option>
+            {Object.entries(t.projectTypes).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
           </select>
           {errors.project_type && <p className="form-error">{errors.project_type}</p>}
         </div>
@@ -298,7 +299,7 @@ export function ContactForm() {
         {/* Timeline Field */}
         <div>
           <label htmlFor="project_timeline" className="form-label">
-            Project Timeline *
+            {t.timeline}
           </label>
           <select
             id="project_timeline"
@@ -309,10 +310,11 @@ export function ContactForm() {
             required
             disabled={isSubmitting}
           >
-            <option value="immediate">Immediate (within 1 month)</option>
-            <option value="within_3_months">Within 3 months</option>
-            <option value="within_6_months">Within 6 months</option>
-            <option value="planning_phase">Planning phase</option>
+            {Object.entries(t.timelines).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
           </select>
           {errors.project_timeline && <p className="form-error">{errors.project_timeline}</p>}
         </div>
@@ -320,7 +322,7 @@ export function ContactForm() {
         {/* Budget Range Field */}
         <div>
           <label htmlFor="budget_range" className="form-label">
-            Budget Range (Optional)
+            {t.budget}
           </label>
           <select
             id="budget_range"
@@ -330,18 +332,19 @@ export function ContactForm() {
             className="form-select"
             disabled={isSubmitting}
           >
-            <option value="">Select budget range (optional)</option>
-            <option value="under_25k">Under $25,000</option>
-            <option value="from_25k_to_50k">$25,000 - $50,000</option>
-            <option value="from_50k_to_100k">$50,000 - $100,000</option>
-            <option value="over_100k">Over $100,000</option>
+            <option value="">{t.budgetPlaceholder}</option>
+            {Object.entries(t.budgets).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
           </select>
         </div>
 
         {/* Referral Source Field */}
         <div>
           <label htmlFor="referral_source" className="form-label">
-            How did you hear about us? (Optional)
+            {t.referral}
           </label>
           <select
             id="referral_source"
@@ -351,18 +354,19 @@ export function ContactForm() {
             className="form-select"
             disabled={isSubmitting}
           >
-            <option value="">Select source (optional)</option>
-            <option value="google_search">Google Search</option>
-            <option value="linkedin">LinkedIn</option>
-            <option value="referral">Referral</option>
-            <option value="other">Other</option>
+            <option value="">{t.referralPlaceholder}</option>
+            {Object.entries(t.referrals).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
           </select>
         </div>
 
         {/* Message Field */}
         <div>
           <label htmlFor="message" className="form-label">
-            Project Details *
+            {t.message}
           </label>
           <textarea
             id="message"
@@ -371,14 +375,14 @@ export function ContactForm() {
             value={formData.message}
             onChange={e => handleChange('message', e.target.value)}
             className={`form-textarea ${errors.message ? 'border-error-500 focus:ring-error-500' : ''}`}
-            placeholder="Please describe your project requirements, challenges, and goals. The more details you provide, the better we can assist you."
+            placeholder={t.messagePlaceholder}
             required
             disabled={isSubmitting}
           />
           <div className="flex justify-between items-center mt-1">
             {errors.message && <p className="form-error">{errors.message}</p>}
             <p className="text-xs text-gray-500 ml-auto">
-              {formData.message.length}/2000 characters
+              {formatMessage(t.characterCount, { count: formData.message.length })}
             </p>
           </div>
         </div>
@@ -389,7 +393,7 @@ export function ContactForm() {
         {/* Submit Button */}
         <div className="flex justify-between items-center pt-4">
           <button type="button" onClick={handleReset} className="btn-ghost" disabled={isSubmitting}>
-            Reset Form
+            {t.reset}
           </button>
 
           <button
@@ -400,21 +404,17 @@ export function ContactForm() {
             {isSubmitting ? (
               <>
                 <div className="loading-spinner mr-2" />
-                Sending...
+                {t.sending}
               </>
             ) : (
-              'Send Message'
+              t.submit
             )}
           </button>
         </div>
 
         {/* Privacy Notice */}
         <div className="text-xs text-gray-500 bg-gray-50 p-3 rounded-lg">
-          <p>
-            Your privacy is important to us. This form is secured with spam protection and your
-            information will only be used to respond to your inquiry. We never share your data with
-            third parties.
-          </p>
+          <p>{t.privacyNotice}</p>
         </div>
       </form>
     </div>
@@ -0,0 +1,45 @@
+'use client';
+
+import Link from 'next/link';
+import { usePathname } from 'next/navigation';
+import { getMessages, LOCALE_NAMES, LOCALES, switchLocalePath } from '@/lib/i18n';
+import type { Locale } from '@/types';
+
+interface LanguageSwitcherProps {
+  locale: Locale;
+  className?: string;
+}
+
+/**
+ * Links to the current page in every other locale. Untranslated content falls
+ * back to the default locale, so the target page always exists.
+ */
+export function LanguageSwitcher({ locale, className = '' }: LanguageSwitcherProps) {
+  const pathname = usePathname() || '/';
+
+  return (
+    <nav aria-label={getMessages(locale).common.language} className={className}>
+      <ul className="flex items-center gap-2 text-sm">
+        {LOCALES.map(option => (
+          <li key={option}>
+            {option === locale ? (
+              <span aria-current="true" className="font-semibold text-gray-900">
+                {option.toUpperCase()}
+              </span>
+            ) : (
+              <Link
+                href={switchLocalePath(pathname, option)}
+                hrefLang={option}
+                lang={option}
+                title={LOCALE_NAMES[option]}
+                className="text-gray-500 hover:text-primary-600"
+              >
+                {option.toUpperCase()}
+              </Link>
+            )}
+          </li>
+        ))}
+      </ul>
+    </nav>
+  );
+}
@@ -0,0 +1,34 @@
+import { formatMessage, getMessages, LOCALE_NAMES } from '@/lib/i18n';
+import type { Locale } from '@/types';
+
+interface UntranslatedNoticeProps {
+  // Locale of the page
+  locale: Locale;
+  // Locale the content is actually written in
+  contentLocale: Locale;
+  className?: string;
+}
+
+/**
+ * Tells readers that a page fell back to the default locale's content
+ */
+export function UntranslatedNotice({
+  locale,
+  contentLocale,
+  className = '',
+}: UntranslatedNoticeProps) {
+  if (locale === contentLocale) {
+    return null;
+  }
+
+  return (
+    <p
+      role="note"
+      className={`rounded-lg border border-gray-200 bg-gray-50 px-4 py-3 text-sm text-gray-600 ${className}`}
+    >
+      {formatMessage(getMessages(locale).common.untranslated, {
+        language: LOCALE_NAMES[contentLocale],
+      })}
+    </p>
+  );
+}
@@ -0,0 +1,32 @@
+import Image from 'next/image';
+
+interface ArchitectureFigureProps {
+  src: string;
+  alt: string;
+  caption?: string;
+  width?: number | string;
+  height?: number | string;
+}
+
+export function ArchitectureFigure({
+  src,
+  alt,
+  caption,
+  width = 1200,
+  height = 675,
+}: ArchitectureFigureProps) {
+  return (
+    <figure className="not-prose my-10">
+      <Image
+        src={src}
+        alt={alt}
+        width={Number(width)}
+        height={Number(height)}
+        className="w-full h-auto rounded-lg border border-gray-200 bg-white"
+      />
+      {caption && (
+        <figcaption className="mt-3 text-center text-sm text-gray-500">{caption}</figcaption>
+      )}
+    </figure>
+  );
+}
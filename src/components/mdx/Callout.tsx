@@ -0,0 +1,26 @@
+import type { ReactNode } from 'react';
+
+type CalloutType = 'info' | 'warning' | 'success';
+
+interface CalloutProps {
+  type?: CalloutType;
+  title?: string;
+  children: ReactNode;
+}
+
+const CALLOUT_STYLES: Record<CalloutType, string> = {
+  info: 'border-primary-500 bg-primary-50',
+  warning: 'border-warning-500 bg-warning-50',
+  success: 'border-success-500 bg-success-50',
+};
+
+export function Callout({ type = 'info', title, children }: CalloutProps) {
+  return (
+    <aside
+      className={`not-prose my-8 border-l-4 rounded-r-lg p-5 ${CALLOUT_STYLES[type] || CALLOUT_STYLES.info}`}
+    >
+      {title && <p className="font-semibold text-gray-900 mb-2">{title}</p>}
+      <div className="text-gray-700 space-y-3">{children}</div>
+    </aside>
+  );
+}
@@ -0,0 +1,25 @@
+import Link from 'next/link';
+import type { ReactNode } from 'react';
+import { DEFAULT_LOCALE, getMessages, localizePath } from '@/lib/i18n';
+import type { Locale } from '@/types';
+
+export interface ContactCTAProps {
+  title?: string;
+  label?: string;
+  locale?: Locale;
+  children?: ReactNode;
+}
+
+export function ContactCTA({ title, label, locale = DEFAULT_LOCALE, children }: ContactCTAProps) {
+  const t = getMessages(locale).content;
+
+  return (
+    <aside className="not-prose card my-10 p-8 text-center bg-primary-50">
+      <p className="text-2xl font-semibold text-gray-900 mb-3">{title || t.ctaTitle}</p>
+      {children && <div className="text-gray-600 mb-6">{children}</div>}
+      <Link href={localizePath('/contact/', locale)} className="btn-primary btn-lg">
+        {label || t.ctaButton}
+      </Link>
+    </aside>
+  );
+}
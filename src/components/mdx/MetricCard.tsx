@@ -0,0 +1,15 @@
+interface MetricCardProps {
+  metric: string;
+  value: string;
+  description?: string;
+}
+
+export function MetricCard({ metric, value, description }: MetricCardProps) {
+  return (
+    <div className="not-prose card my-8 p-6 text-center">
+      <p className="text-4xl font-bold text-primary-600 mb-1">{value}</p>
+      <p className="text-sm font-medium text-gray-900">{metric}</p>
+      {description && <p className="mt-2 text-sm text-gray-600">{description}</p>}
+    </div>
+  );
+}
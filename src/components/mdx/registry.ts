@@ -0,0 +1,28 @@
+import { createElement } from 'react';
+import { ArchitectureFigure } from '@/components/mdx/ArchitectureFigure';
+import { Callout } from '@/components/mdx/Callout';
+import { ContactCTA, type ContactCTAProps } from '@/components/mdx/ContactCTA';
+import { MetricCard } from '@/components/mdx/MetricCard';
+import type { Locale } from '@/types';
+
+/**
+ * Components that MDX content is allowed to use. Anything not listed here
+ * fails the build when an .mdx file references it.
+ */
+export const mdxComponents = {
+  ArchitectureFigure,
+  Callout,
+  ContactCTA,
+  MetricCard,
+};
+
+/**
+ * The registry for a page locale: components that link or render UI copy are
+ * bound to it, so MDX authors never pass a locale themselves
+ */
+export function getMdxComponents(locale: Locale): typeof mdxComponents {
+  return {
+    ...mdxComponents,
+    ContactCTA: (props: ContactCTAProps) => createElement(ContactCTA, { ...props, locale }),
+  };
+}
@@ -0,0 +1,49 @@
+import Link from 'next/link';
+import { JsonLd } from '@/components/seo/JsonLd';
+import { getMessages, localizePath } from '@/lib/i18n';
+import { buildBreadcrumbList } from '@/lib/structured-data';
+import type { BreadcrumbItem, Locale } from '@/types';
+
+interface BreadcrumbsProps {
+  // The trail after the home page, ending with the current page
+  items: BreadcrumbItem[];
+  locale: Locale;
+  className?: string;
+}
+
+/**
+ * Visible breadcrumb trail, with the matching BreadcrumbList structured data
+ */
+export function Breadcrumbs({ items, locale, className = '' }: BreadcrumbsProps) {
+  const t = getMessages(locale).common;
+  const trail = [{ label: t.home, href: '/' }, ...items];
+
+  return (
+    <nav aria-label={t.breadcrumb} className={className}>
+      <JsonLd schema={buildBreadcrumbList(trail, locale)} />
+      <ol className="flex flex-wrap items-center gap-x-2 gap-y-1 text-sm text-gray-500">
+        {trail.map((item, index) => {
+          const current = index === trail.length - 1;
+
+          return (
+            <li key={item.href} className="flex items-center gap-2">
+              {index > 0 && <span aria-hidden="true">/</span>}
+              {current ? (
+                <span aria-current="page" className="text-gray-700">
+                  {item.label}
+                </span>
+              ) : (
+                <Link
+                  href={localizePath(item.href, locale)}
+                  className="text-primary-600 hover:text-primary-800"
+                >
+                  {item.label}
+                </Link>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </nav>
+  );
+}
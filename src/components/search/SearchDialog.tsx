@@ -0,0 +1,278 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { trackSearch } from '@/lib/analytics';
+import { formatMessage, getMessages, localizePath } from '@/lib/i18n';
+import { SEARCH_INDEX_PATH, SEARCH_INDEX_VERSION, searchIndex } from '@/lib/search';
+import { useContentStore } from '@/lib/store';
+import type { Locale, SearchIndex, SearchResult } from '@/types';
+
+const MAX_RESULTS = 8;
+
+// Wait for typing to settle before reporting a query to analytics
+const TRACK_DELAY_MS = 1000;
+
+// Fetched on first open and shared by every dialog on the page
+const indexPromises = new Map<Locale, Promise<SearchIndex>>();
+
+function loadSearchIndex(locale: Locale): Promise<SearchIndex> {
+  let indexPromise = indexPromises.get(locale);
+
+  if (!indexPromise) {
+    indexPromise = fetch(localizePath(SEARCH_INDEX_PATH, locale))
+      .then(response => {
+        if (!response.ok) throw new Error(`Search index request failed: ${response.status}`);
+        return response.json() as Promise<SearchIndex>;
+      })
+      .then(index => {
+        if (index.version !== SEARCH_INDEX_VERSION) throw new Error('Unsupported search index');
+        return index;
+      })
+      .catch(error => {
+        indexPromises.delete(locale);
+        throw error;
+      });
+    indexPromises.set(locale, indexPromise);
+  }
+
+  return indexPromise;
+}
+
+interface SearchDialogProps {
+  locale: Locale;
+  className?: string;
+}
+
+/**
+ * Search button and dialog (also opened with Ctrl/Cmd+K) that queries the
+ * prebuilt search index in the browser
+ */
+export function SearchDialog({ locale, className = '' }: SearchDialogProps) {
+  const t = getMessages(locale);
+  const router = useRouter();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [loadFailed, setLoadFailed] = useState(false);
+
+  const {
+    searchQuery,
+    searchResults,
+    isSearching,
+    recentSearches,
+    setSearchQuery,
+    setSearchResults,
+    setSearching,
+    addRecentSearch,
+    clearSearchResults,
+  } = useContentStore();
+
+  const close = useCallback(() => {
+    setOpen(false);
+    clearSearchResults();
+  }, [clearSearchResults]);
+
+  // Global shortcut
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        setOpen(true);
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Open with a query from the URL (?q=), the target of the site's structured-data search action
+  useEffect(() => {
+    const query = new URLSearchParams(window.location.search).get('q');
+
+    if (query) {
+      setSearchQuery(query);
+      setOpen(true);
+    }
+  }, [setSearchQuery]);
+
+  useEffect(() => {
+    if (open) inputRef.current?.focus();
+  }, [open]);
+
+  // Run the query against the index
+  useEffect(() => {
+    if (!open) return;
+
+    if (!searchQuery.trim()) {
+      clearSearchResults();
+      return;
+    }
+
+    let cancelled = false;
+    setSearching(true);
+
+    loadSearchIndex(locale)
+      .then(index => {
+        if (cancelled) return;
+        setLoadFailed(false);
+        setSearchResults(searchIndex(index, searchQuery, MAX_RESULTS));
+        setActiveIndex(0);
+      })
+      .catch(() => {
+        if (cancelled) return;
+        setLoadFailed(true);
+        setSearching(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, locale, searchQuery, clearSearchResults, setSearchResults, setSearching]);
+
+  // Report settled queries, including those with no results
+  useEffect(() => {
+    if (!open || searchResults === null || !searchQuery.trim()) return;
+
+    const timeout = window.setTimeout(() => {
+      trackSearch(searchQuery.trim(), searchResults.length);
+    }, TRACK_DELAY_MS);
+
+    return () => window.clearTimeout(timeout);
+  }, [open, searchQuery, searchResults]);
+
+  const selectResult = (result: SearchResult) => {
+    addRecentSearch(searchQuery.trim());
+    close();
+    router.push(result.url);
+  };
+
+  const handleInputKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    const results = searchResults || [];
+
+    if (event.key === 'Escape') {
+      close();
+    } else if (event.key === 'ArrowDown' && results.length > 0) {
+      event.preventDefault();
+      setActiveIndex(index => (index + 1) % results.length);
+    } else if (event.key === 'ArrowUp' && results.length > 0) {
+      event.preventDefault();
+      setActiveIndex(index => (index - 1 + results.length) % results.length);
+    } else if (event.key === 'Enter' && results[activeIndex]) {
+      event.preventDefault();
+      selectResult(results[activeIndex]);
+    }
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className={`inline-flex items-center gap-2 text-gray-700 hover:text-primary-600 transition-colors ${className}`}
+      >
+        {t.search.button}
+        <kbd className="hidden lg:inline rounded border border-gray-300 px-1.5 text-xs text-gray-500">
+          Ctrl K
+        </kbd>
+      </button>
+
+      {open && (
+        <div
+          className="fixed inset-0 z-50 bg-gray-900/50 px-4 pt-24"
+          onClick={event => event.target === event.currentTarget && close()}
+        >
+          <div
+            role="dialog"
+            aria-modal="true"
+            aria-label={t.search.dialogLabel}
+            className="card mx-auto max-w-xl overflow-hidden"
+          >
+            <input
+              ref={inputRef}
+              type="search"
+              role="combobox"
+              aria-expanded={Boolean(searchResults?.length)}
+              aria-controls="search-results"
+              aria-activedescendant={
+                searchResults?.length ? `search-result-${activeIndex}` : undefined
+              }
+              placeholder={t.search.placeholder}
+              value={searchQuery}
+              onChange={event => setSearchQuery(event.target.value)}
+              onKeyDown={handleInputKeyDown}
+              className="w-full border-0 border-b border-gray-200 px-5 py-4 text-lg focus:outline-none focus:ring-0"
+            />
+
+            <div className="max-h-96 overflow-y-auto p-2">
+              {loadFailed && (
+                <p className="px-3 py-6 text-center text-sm text-error-600">
+                  {t.search.unavailable}
+                </p>
+              )}
+
+              {!loadFailed && searchResults === null && !isSearching && (
+                <div className="px-3 py-2">
+                  {recentSearches.length > 0 ? (
+                    <>
+                      <p className="mb-2 text-xs font-semibold uppercase tracking-wide text-gray-500">
+                        {t.search.recent}
+                      </p>
+                      <ul className="space-y-1">
+                        {recentSearches.map(recent => (
+                          <li key={recent}>
+                            <button
+                              type="button"
+                              onClick={() => setSearchQuery(recent)}
+                              className="text-sm text-gray-700 hover:text-primary-600"
+                            >
+                              {recent}
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    </>
+                  ) : (
+                    <p className="py-4 text-center text-sm text-gray-500">{t.search.hint}</p>
+                  )}
+                </div>
+              )}
+
+              {!loadFailed && searchResults?.length === 0 && (
+                <p className="px-3 py-6 text-center text-sm text-gray-500">
+                  {formatMessage(t.search.noResults, { query: searchQuery.trim() })}
+                </p>
+              )}
+
+              {!loadFailed && searchResults && searchResults.length > 0 && (
+                <ul id="search-results" role="listbox">
+                  {searchResults.map((result, index) => (
+                    <li
+                      key={result.url}
+                      id={`search-result-${index}`}
+                      role="option"
+                      aria-selected={index === activeIndex}
+                      onClick={() => selectResult(result)}
+                      onMouseEnter={() => setActiveIndex(index)}
+                      className={`cursor-pointer rounded-md px-3 py-2 ${
+                        index === activeIndex ? 'bg-primary-50' : ''
+                      }`}
+                    >
+                      <p className="text-xs font-semibold uppercase tracking-wide text-primary-600">
+                        {result.type === 'post' ? t.content.article : t.content.caseStudy}
+                      </p>
+                      <p className="font-medium text-gray-900">{result.title}</p>
+                      {result.description && (
+                        <p className="text-sm text-gray-600 line-clamp-2">{result.description}</p>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,17 @@
+import { serializeJsonLd, type JsonLdSchema } from '@/lib/structured-data';
+
+interface JsonLdProps {
+  schema: JsonLdSchema;
+}
+
+/**
+ * Structured data for search engines, built with the helpers in lib/structured-data
+ */
+export function JsonLd({ schema }: JsonLdProps) {
+  return (
+    <script
+      type="application/ld+json"
+      dangerouslySetInnerHTML={{ __html: serializeJsonLd(schema) }}
+    />
+  );
+}
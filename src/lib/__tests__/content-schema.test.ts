@@ -0,0 +1,195 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { checkImageReferences, formatContentIssues, validateFrontmatter } from '../content-schema';
+
+const validPost = {
+  title: 'Getting Started with Cloud Architecture',
+  description: 'A guide to cloud architecture principles.',
+  date: '2024-01-15',
+  author: 'Richard Mosley',
+  tags: ['cloud-architecture', 'aws'],
+  featured: true,
+  seo: {
+    meta_title: 'Cloud Architecture Guide',
+    canonical_url: 'https://borderlessbits.com/blog/getting-started/',
+  },
+};
+
+describe('validateFrontmatter', () => {
+  it('accepts valid frontmatter', () => {
+    expect(validateFrontmatter('post', validPost, 'post.md')).toEqual([]);
+  });
+
+  it('accepts unquoted YAML dates parsed as Date objects', () => {
+    const data = { ...validPost, date: new Date('2024-01-15') };
+    expect(validateFrontmatter('post', data, 'post.md')).toEqual([]);
+  });
+
+  it('reports missing required fields', () => {
+    const data: Record<string, unknown> = { ...validPost };
+    delete data.title;
+    expect(validateFrontmatter('post', data, 'post.md')).toEqual([
+      { file: 'post.md', path: 'title', message: 'is required' },
+    ]);
+  });
+
+  it('rejects non-ISO dates', () => {
+    const issues = validateFrontmatter('post', { ...validPost, date: '15/01/2024' }, 'post.md');
+    expect(issues).toHaveLength(1);
+    expect(issues[0].path).toBe('date');
+  });
+
+  it('restricts page layouts to the known variants', () => {
+    const page = { title: 'Privacy Policy', date: '2024-06-01', layout: 'legal' };
+
+    expect(validateFrontmatter('page', page, 'page.md')).toEqual([]);
+    expect(validateFrontmatter('page', { ...page, layout: 'full' }, 'page.md')).toEqual([
+      {
+        file: 'page.md',
+        path: 'layout',
+        message: 'expected one of default, wide, legal, received "full"',
+      },
+    ]);
+  });
+
+  it('accepts series fields on posts only', () => {
+    const data = { ...validPost, series: 'Cloud Migration Playbook', seriesOrder: 2 };
+
+    expect(validateFrontmatter('post', data, 'post.md')).toEqual([]);
+    expect(validateFrontmatter('post', { ...data, seriesOrder: '2' }, 'post.md')).toEqual([
+      { file: 'post.md', path: 'seriesOrder', message: 'expected a number, received string' },
+    ]);
+    expect(validateFrontmatter('page', data, 'page.md').map(issue => issue.path)).toEqual([
+      'series',
+      'seriesOrder',
+    ]);
+  });
+
+  it('validates changelog entries on posts', () => {
+    const data = {
+      ...validPost,
+      updated: '2024-06-01',
+      changelog: [{ date: '2024-06-01', summary: 'Updated for the new pricing model' }],
+    };
+
+    expect(validateFrontmatter('post', data, 'post.md')).toEqual([]);
+    expect(
+      validateFrontmatter(
+        'post',
+        {
+          ...data,
+          changelog: [{ date: 'June 2024', summary: 'Refreshed' }, { date: '2024-06-01' }],
+        },
+        'post.md'
+      ).map(issue => issue.path)
+    ).toEqual(['changelog[0].date', 'changelog[1].summary']);
+  });
+
+  it('reports every violation with its field path', () => {
+    const data = {
+      ...validPost,
+      tags: 'cloud',
+      seo: { canonical_url: '/relative/' },
+      client: 'Regional Healthcare Network',
+      results: [{ metric: 'Uptime' }, { metric: 'Cost Reduction', value: 40 }, 'fast'],
+    };
+
+    const paths = validateFrontmatter('caseStudy', data, 'case.md').map(issue => issue.path);
+
+    expect(paths).toEqual([
+      'tags',
+      'seo.canonical_url',
+      'results[0].value',
+      'results[1].value',
+      'results[2]',
+    ]);
+  });
+
+  it('reports unknown fields', () => {
+    const issues = validateFrontmatter(
+      'post',
+      { ...validPost, publishedAt: '2024-01-01' },
+      'post.md'
+    );
+    expect(issues).toEqual([
+      { file: 'post.md', path: 'publishedAt', message: 'is not a recognized field' },
+    ]);
+  });
+
+  it('only accepts case study fields in the case study collection', () => {
+    const issues = validateFrontmatter('post', { ...validPost, client: 'Acme' }, 'post.md');
+    expect(issues.map(issue => issue.path)).toEqual(['client']);
+  });
+
+  it('validates author profiles against their own schema', () => {
+    const profile = {
+      name: 'Richard Mosley',
+      role: 'Senior Cloud Architect',
+      linkedin: 'https://www.linkedin.com/in/example',
+      expertise: ['AWS', 'HIPAA Compliance'],
+    };
+
+    expect(validateFrontmatter('author', profile, 'author.md')).toEqual([]);
+    expect(
+      validateFrontmatter('author', { role: 'Consultant', title: 'Jane' }, 'author.md').map(
+        issue => issue.path
+      )
+    ).toEqual(['name', 'title']);
+  });
+});
+
+describe('formatContentIssues', () => {
+  it('formats one line per issue', () => {
+    expect(
+      formatContentIssues([
+        { file: 'content/blog/a.md', path: 'date', message: 'is required' },
+        { file: 'content/blog/b.md', path: '', message: 'frontmatter could not be parsed' },
+      ])
+    ).toBe(
+      'content/blog/a.md: date is required\ncontent/blog/b.md: frontmatter could not be parsed'
+    );
+  });
+});
+
+describe('checkImageReferences', () => {
+  let contentDir: string;
+
+  beforeEach(() => {
+    contentDir = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'content-schema-')), 'content');
+    fs.mkdirSync(path.join(contentDir, 'blog'), { recursive: true });
+    fs.writeFileSync(path.join(contentDir, 'blog', 'diagram.png'), '');
+    fs.writeFileSync(path.join(contentDir, '..', 'secret.png'), '');
+  });
+
+  afterEach(() => {
+    fs.rmSync(path.dirname(contentDir), { recursive: true, force: true });
+  });
+
+  it('reports markdown images that are missing or outside the content directory', () => {
+    const content = [
+      '![Diagram](./diagram.png)',
+      '![Missing](./missing.png)',
+      '![Secret](../../secret.png)',
+      '![Absolute](/images/logo.png)',
+      '```md',
+      '![Example](./example.png)',
+      '```',
+    ].join('\n');
+
+    expect(
+      checkImageReferences(path.join(contentDir, 'blog', 'post.md'), content, contentDir)
+    ).toEqual([
+      'image "./missing.png" does not exist',
+      'image "../../secret.png" is outside the content directory',
+    ]);
+  });
+
+  it('reports every relative image in MDX, which only references images under public/', () => {
+    const content = '![Diagram](./diagram.png)\n![Absolute](/images/logo.png)';
+
+    expect(
+      checkImageReferences(path.join(contentDir, 'blog', 'post.mdx'), content, contentDir)
+    ).toEqual(['image "./diagram.png" is relative; MDX can only reference images under public/']);
+  });
+});
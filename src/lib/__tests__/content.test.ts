@@ -0,0 +1,192 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { isPublished } from '../content';
+
+// Bodies rendered by the markdown pipeline, to count how often files are parsed
+const mockRendered: string[] = [];
+
+jest.mock('@/lib/markdown', () => ({
+  processMarkdown: async (content: string) => {
+    if (content.includes('FAIL')) {
+      throw new Error('render failed');
+    }
+    mockRendered.push(content);
+    // Highlighted code wraps every token in a styled span
+    if (content.startsWith('```')) {
+      return {
+        html: content.replace(/\w+/g, token => `<span style="color: #24292e">${token}</span>`),
+        toc: [],
+        removed: [],
+        imageIssues: [],
+      };
+    }
+    return { html: `<p>${content.trim()}</p>`, toc: [], removed: [], imageIssues: [] };
+  },
+  extractToc: () => [],
+}));
+
+const originalCwd = process.cwd();
+let contentDir: string;
+
+// content.ts resolves the content directory from the working directory when it loads
+async function loadContent(env: Record<string, string> = {}) {
+  jest.replaceProperty(process, 'env', { ...process.env, ...env });
+  jest.resetModules();
+  return import('../content');
+}
+
+interface PostFile {
+  body?: string;
+  // Extra frontmatter lines
+  frontmatter?: string[];
+  mtime?: Date;
+}
+
+function writePost(
+  slug: string,
+  title: string,
+  { body = 'Body', frontmatter = [], mtime = new Date('2024-01-01') }: PostFile = {}
+) {
+  const filePath = path.join(contentDir, 'blog', `${slug}.md`);
+  const data = [`title: ${title}`, "date: '2024-01-15'", ...frontmatter].join('\n');
+  fs.writeFileSync(filePath, `---\n${data}\n---\n${body}\n`);
+  fs.utimesSync(filePath, mtime, mtime);
+}
+
+beforeEach(() => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'content-'));
+  contentDir = path.join(root, 'content');
+  fs.mkdirSync(path.join(contentDir, 'blog'), { recursive: true });
+  process.chdir(root);
+  mockRendered.length = 0;
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  process.chdir(originalCwd);
+  fs.rmSync(path.dirname(contentDir), { recursive: true, force: true });
+});
+
+describe('content index', () => {
+  it('parses each file once until its mtime changes', async () => {
+    const { getAllPosts, getPostBySlug } = await loadContent();
+    writePost('first', 'First');
+
+    await getAllPosts();
+    await getPostBySlug('first');
+    expect(mockRendered).toHaveLength(1);
+
+    writePost('first', 'First, revised', { body: 'Revised body', mtime: new Date('2024-02-01') });
+    const [post] = await getAllPosts();
+
+    expect(post.title).toBe('First, revised');
+    expect(post.content).toBe('<p>Revised body</p>');
+    expect(mockRendered).toHaveLength(2);
+  });
+
+  it('drops files deleted since the last query', async () => {
+    const { getAllPosts } = await loadContent();
+    writePost('first', 'First');
+    writePost('second', 'Second');
+    expect(await getAllPosts()).toHaveLength(2);
+
+    fs.unlinkSync(path.join(contentDir, 'blog', 'second.md'));
+
+    expect((await getAllPosts()).map(post => post.slug)).toEqual(['first']);
+  });
+
+  it('retries a file whose parse failed instead of caching the failure', async () => {
+    // Production builds fail on content that can't be rendered
+    const { getAllPosts } = await loadContent({ NODE_ENV: 'production' });
+    writePost('first', 'First', { body: 'FAIL' });
+
+    await expect(getAllPosts()).rejects.toThrow('render failed');
+    await expect(getAllPosts()).rejects.toThrow('render failed');
+
+    // Fixing the file without touching its mtime still takes effect
+    const filePath = path.join(contentDir, 'blog', 'first.md');
+    fs.writeFileSync(filePath, fs.readFileSync(filePath, 'utf8').replace('FAIL', 'Fixed'));
+    fs.utimesSync(filePath, new Date('2024-01-01'), new Date('2024-01-01'));
+
+    expect((await getAllPosts()).map(post => post.content)).toEqual(['<p>Fixed</p>']);
+  });
+});
+
+describe('reading time', () => {
+  it('counts words in the markdown source rather than the rendered HTML', async () => {
+    const { getPostBySlug } = await loadContent();
+    const code = Array.from({ length: 190 }, (_, line) => `const value${line} = 1;`);
+    writePost('code', 'Code', { body: ['```ts', ...code, '```'].join('\n') });
+
+    // 762 words of source; the highlighted HTML splits into more than twice as many
+    expect(await getPostBySlug('code')).toMatchObject({ readingTime: 4 });
+  });
+});
+
+describe('isPublished', () => {
+  const now = new Date('2024-06-01T12:00:00Z');
+
+  it('excludes drafts', () => {
+    expect(isPublished({ draft: true }, now)).toBe(false);
+    expect(isPublished({ draft: true, publishAt: '2024-01-01T00:00:00Z' }, now)).toBe(false);
+  });
+
+  it('excludes content scheduled for later', () => {
+    expect(isPublished({ publishAt: '2024-06-01T12:00:01Z' }, now)).toBe(false);
+  });
+
+  it('includes content without a schedule or whose time has come', () => {
+    expect(isPublished({}, now)).toBe(true);
+    expect(isPublished({ draft: false, publishAt: '2024-06-01T12:00:00Z' }, now)).toBe(true);
+  });
+});
+
+describe('unpublished content', () => {
+  beforeEach(() => {
+    writePost('live', 'Live', { frontmatter: ['tags: [aws]'] });
+    writePost('draft', 'Draft', { frontmatter: ['draft: true', 'tags: [drafts]'] });
+    writePost('scheduled', 'Scheduled', { frontmatter: ["publishAt: '2999-01-01T00:00:00Z'"] });
+  });
+
+  it('is left out of production builds', async () => {
+    const { getAllPosts, getPostBySlug, getTagSummaries } = await loadContent({
+      NODE_ENV: 'production',
+    });
+
+    expect((await getAllPosts()).map(post => post.slug)).toEqual(['live']);
+    expect(await getPostBySlug('draft')).toBeNull();
+    expect(await getPostBySlug('scheduled')).toBeNull();
+    expect((await getTagSummaries()).map(tag => tag.slug)).toEqual(['aws']);
+  });
+
+  it('is rendered in preview builds', async () => {
+    const { getAllPosts, getPostBySlug } = await loadContent({
+      NODE_ENV: 'production',
+      CONTENT_PREVIEW: 'true',
+    });
+
+    expect((await getAllPosts()).map(post => post.slug).sort()).toEqual([
+      'draft',
+      'live',
+      'scheduled',
+    ]);
+    expect(await getPostBySlug('draft')).toMatchObject({ title: 'Draft', draft: true });
+  });
+
+  it('is never published to feeds or the sitemap, even in preview builds', async () => {
+    const { generateRSSData, generateSitemapData } = await loadContent({
+      NODE_ENV: 'production',
+      CONTENT_PREVIEW: 'true',
+    });
+
+    const { posts } = await generateRSSData();
+    const paths = (await generateSitemapData()).map(entry => entry.path);
+
+    expect(posts.map(post => post.slug)).toEqual(['live']);
+    expect(paths).toContain('/en/blog/live/');
+    expect(paths).toContain('/en/blog/tags/aws/');
+    expect(paths.filter(entryPath => /draft|scheduled/.test(entryPath))).toEqual([]);
+  });
+});
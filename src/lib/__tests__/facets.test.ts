@@ -0,0 +1,144 @@
+import {
+  countAvailableFacetValues,
+  countFacetValues,
+  facetLandingPath,
+  facetQueryString,
+  filterCaseStudies,
+  parseFacetQuery,
+  toggleFacetValue,
+} from '../facets';
+import type { CaseStudySummary } from '@/types';
+
+function caseStudy(
+  slug: string,
+  industry: string,
+  technologies: string[],
+  tags: string[] = []
+): CaseStudySummary {
+  return {
+    slug,
+    title: slug,
+    description: '',
+    client: '',
+    industry,
+    technologies,
+    tags,
+    results: [],
+  };
+}
+
+const caseStudies = [
+  caseStudy('ehr', 'Healthcare', ['Azure', 'FHIR'], ['Compliance']),
+  caseStudy('claims', 'Insurance', ['AWS', 'Kubernetes'], ['Migration']),
+  caseStudy('telehealth', 'Healthcare', ['AWS', 'React'], ['Migration']),
+  caseStudy('ledger', 'Finance', ['azure'], []),
+];
+
+const slugs = (items: CaseStudySummary[]) => items.map(item => item.slug);
+
+describe('filterCaseStudies', () => {
+  it('returns everything without a selection', () => {
+    expect(filterCaseStudies(caseStudies, {})).toHaveLength(4);
+  });
+
+  it('treats values of one facet as alternatives', () => {
+    expect(slugs(filterCaseStudies(caseStudies, { industry: ['healthcare', 'finance'] }))).toEqual([
+      'ehr',
+      'telehealth',
+      'ledger',
+    ]);
+  });
+
+  it('narrows across facets and matches on slugs', () => {
+    expect(
+      slugs(filterCaseStudies(caseStudies, { industry: ['healthcare'], technology: ['aws'] }))
+    ).toEqual(['telehealth']);
+    expect(slugs(filterCaseStudies(caseStudies, { technology: ['azure'] }))).toEqual([
+      'ehr',
+      'ledger',
+    ]);
+  });
+});
+
+describe('countFacetValues', () => {
+  it('counts each value once per case study, most used first', () => {
+    expect(countFacetValues(caseStudies, 'technology')).toEqual([
+      { name: 'AWS', slug: 'aws', count: 2 },
+      { name: 'Azure', slug: 'azure', count: 2 },
+      { name: 'FHIR', slug: 'fhir', count: 1 },
+      { name: 'Kubernetes', slug: 'kubernetes', count: 1 },
+      { name: 'React', slug: 'react', count: 1 },
+    ]);
+  });
+
+  it('counts a facet against the other facets only', () => {
+    const counts = countAvailableFacetValues(caseStudies, 'industry', {
+      industry: ['finance'],
+      tag: ['migration'],
+    });
+
+    expect(counts).toEqual([
+      { name: 'Healthcare', slug: 'healthcare', count: 1 },
+      { name: 'Insurance', slug: 'insurance', count: 1 },
+    ]);
+  });
+});
+
+describe('facet query strings', () => {
+  it('round-trips a selection', () => {
+    const selection = { industry: ['healthcare'], technology: ['aws', 'azure'] };
+
+    expect(facetQueryString(selection)).toBe(
+      '?industry=healthcare&technology=aws&technology=azure'
+    );
+    expect(parseFacetQuery(facetQueryString(selection))).toEqual(selection);
+    expect(facetQueryString({})).toBe('');
+  });
+
+  it('normalizes values and ignores unknown parameters', () => {
+    expect(parseFacetQuery('technology=Azure&technology=azure&tag=&page=2')).toEqual({
+      technology: ['azure'],
+    });
+  });
+});
+
+describe('toggleFacetValue', () => {
+  it('adds and removes values, dropping empty facets', () => {
+    const selected = toggleFacetValue({}, 'technology', 'aws');
+
+    expect(selected).toEqual({ technology: ['aws'] });
+    expect(toggleFacetValue(selected, 'technology', 'azure')).toEqual({
+      technology: ['aws', 'azure'],
+    });
+    expect(toggleFacetValue(selected, 'technology', 'aws')).toEqual({});
+  });
+});
+
+describe('facetLandingPath', () => {
+  it('builds landing page paths from display values', () => {
+    expect(facetLandingPath('technology', 'Azure Kubernetes Service')).toBe(
+      '/case-studies/technologies/azure-kubernetes-service/'
+    );
+    expect(facetLandingPath('industry', 'Healthcare')).toBe('/case-studies/industries/healthcare/');
+  });
+
+  it('gives technologies that differ only by symbols their own pages', () => {
+    const languages = [
+      caseStudy('portal', 'Healthcare', ['C#', 'Node.js']),
+      caseStudy('firmware', 'Manufacturing', ['C', 'C++', 'NodeJS']),
+    ];
+    const counts = countFacetValues(languages, 'technology');
+
+    expect(counts.map(value => value.slug).sort()).toEqual([
+      'c',
+      'cplusplus',
+      'csharp',
+      'node-js',
+      'nodejs',
+    ]);
+    expect(counts.every(value => value.count === 1)).toBe(true);
+    expect(facetLandingPath('technology', 'C#')).toBe('/case-studies/technologies/csharp/');
+    expect(facetLandingPath('technology', 'C++')).toBe('/case-studies/technologies/cplusplus/');
+    expect(slugs(filterCaseStudies(languages, { technology: ['c'] }))).toEqual(['firmware']);
+  });
+});
@@ -0,0 +1,72 @@
+import { buildAtomFeed, buildJSONFeed, buildRSSFeed } from '../feeds';
+import { SITE_CONFIG } from '../site';
+import type { Post } from '@/types';
+
+// A heading as the markdown pipeline renders it, with its deep-link anchor
+const HEADING =
+  '<h2 id="rollback-plan">Rollback plan<a href="#rollback-plan" class="heading-anchor" aria-label="Link to section: Rollback plan">#</a></h2>';
+
+// A relative image after the markdown pipeline has turned it into a <picture>
+const PROCESSED_IMAGE =
+  '<picture>' +
+  '<source type="image/avif" srcset="/content-images/diagram-3f2a-640.avif 640w, /content-images/diagram-3f2a-1200.avif 1200w" sizes="(min-width: 768px) 768px, 100vw">' +
+  '<source type="image/webp" srcset="/content-images/diagram-3f2a-640.webp 640w,/content-images/diagram-3f2a-1200.webp 1200w" sizes="(min-width: 768px) 768px, 100vw">' +
+  '<img src="/content-images/diagram-3f2a.png" alt="Architecture" width="1200" height="800">' +
+  '</picture>';
+
+const post: Post = {
+  slug: 'zero-downtime-migrations',
+  title: 'Zero-Downtime Database Migrations',
+  description: 'Moving data without a maintenance window.',
+  date: '2024-03-01',
+  author: 'Richard Mosley',
+  tags: ['aws'],
+  featured: false,
+  seo: {},
+  content: `<p>See <a href="/en/blog/">the blog</a> and <a href="https://example.com/">elsewhere</a>.</p>${HEADING}${PROCESSED_IMAGE}`,
+  format: 'markdown',
+  toc: [],
+  readingTime: 5,
+  locale: 'en',
+};
+
+const feedData = { posts: [post], lastModified: '2024-03-01' };
+
+// Every URL in a feed's HTML, as a feed reader sees it once entities are decoded
+function htmlUrls(html: string): string[] {
+  return Array.from(html.matchAll(/\s(?:href|src|srcset)="([^"]*)"/g)).flatMap(([, value]) =>
+    value.split(',').map(candidate => candidate.trim().split(/\s+/)[0])
+  );
+}
+
+describe('feeds', () => {
+  it('leave heading anchors out of entry content', () => {
+    const rss = buildRSSFeed(feedData);
+    const atom = buildAtomFeed(feedData);
+    const json = JSON.parse(buildJSONFeed(feedData)).items[0].content_html;
+
+    expect(rss).toContain('<h2 id="rollback-plan">Rollback plan</h2>');
+    expect(json).toContain('<h2 id="rollback-plan">Rollback plan</h2>');
+    [rss, atom, json].forEach(feed => expect(feed).not.toContain('heading-anchor'));
+  });
+
+  it('publish processed images with absolute URLs', () => {
+    const rss = buildRSSFeed(feedData);
+    const atom = buildAtomFeed(feedData)
+      .replace(/&quot;/g, '"')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&amp;/g, '&');
+    const json = JSON.parse(buildJSONFeed(feedData)).items[0].content_html;
+
+    [rss, atom, json].forEach(feed => {
+      const urls = htmlUrls(feed.slice(feed.indexOf('<p>See')));
+
+      expect(urls).toHaveLength(7);
+      urls.forEach(url => expect(url).toMatch(/^https?:\/\//));
+      expect(urls).toContain(`${SITE_CONFIG.url}/content-images/diagram-3f2a-640.avif`);
+      expect(urls).toContain(`${SITE_CONFIG.url}/content-images/diagram-3f2a-1200.webp`);
+      expect(urls).toContain('https://example.com/');
+    });
+  });
+});
@@ -0,0 +1,20 @@
+import { slugify } from '../format';
+
+describe('slugify', () => {
+  it('lowercases and hyphenates labels', () => {
+    expect(slugify('Cloud Architecture')).toBe('cloud-architecture');
+    expect(slugify('  Énterprise / Healthcare  ')).toBe('enterprise-healthcare');
+  });
+
+  it('keeps symbol-only differences apart', () => {
+    const slugs = ['C', 'C#', 'C++', 'F#', 'Node.js', 'NodeJS'].map(slugify);
+
+    expect(slugs).toEqual(['c', 'csharp', 'cplusplus', 'fsharp', 'node-js', 'nodejs']);
+    expect(new Set(slugs).size).toBe(slugs.length);
+  });
+
+  it('treats spelling variants of one label as the same slug', () => {
+    expect(slugify('cloud-architecture')).toBe(slugify('Cloud Architecture'));
+    expect(slugify('.NET')).toBe('net');
+  });
+});
@@ -0,0 +1,112 @@
+import { en } from '@/locales/en';
+import { es } from '@/locales/es';
+import {
+  contentAlternates,
+  formatMessage,
+  formatPlural,
+  localeAlternates,
+  localizePath,
+  parseLocalizedSlug,
+  switchLocalePath,
+} from '../i18n';
+
+// Every key path in a catalog, with arrays treated as leaves
+function keyPaths(value: unknown, prefix = ''): string[] {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return [prefix];
+  }
+
+  return Object.entries(value).flatMap(([key, child]) =>
+    keyPaths(child, prefix ? `${prefix}.${key}` : key)
+  );
+}
+
+describe('catalogs', () => {
+  it('translate every key of the default locale', () => {
+    expect(keyPaths(es).sort()).toEqual(keyPaths(en).sort());
+  });
+});
+
+describe('formatMessage', () => {
+  it('fills placeholders and leaves unknown ones alone', () => {
+    expect(formatMessage('Part {number} of {total}', { number: 2, total: 5 })).toBe('Part 2 of 5');
+    expect(formatMessage('{count} {unit}', { count: 3 })).toBe('3 {unit}');
+  });
+});
+
+describe('formatPlural', () => {
+  it('selects the plural form for the count', () => {
+    expect(formatPlural(en.blog.articleCount, 1, 'en')).toBe('1 article');
+    expect(formatPlural(en.blog.articleCount, 4, 'en')).toBe('4 articles');
+    expect(formatPlural(es.blog.articleCount, 0, 'es')).toBe(
+      es.blog.articleCount.other.replace('{count}', '0')
+    );
+  });
+});
+
+describe('localizePath', () => {
+  it('prefixes site paths with the locale', () => {
+    expect(localizePath('/', 'es')).toBe('/es/');
+    expect(localizePath('/blog/post/', 'en')).toBe('/en/blog/post/');
+  });
+
+  it('leaves absolute URLs and fragments unchanged', () => {
+    expect(localizePath('https://example.com/', 'es')).toBe('https://example.com/');
+    expect(localizePath('//cdn.example.com/a.js', 'es')).toBe('//cdn.example.com/a.js');
+    expect(localizePath('#contact', 'es')).toBe('#contact');
+  });
+});
+
+describe('switchLocalePath', () => {
+  it('swaps the locale prefix of the current path', () => {
+    expect(switchLocalePath('/en/blog/post/', 'es')).toBe('/es/blog/post/');
+    expect(switchLocalePath('/es/', 'en')).toBe('/en/');
+    expect(switchLocalePath('/blog/', 'es')).toBe('/es/blog/');
+  });
+});
+
+describe('localeAlternates', () => {
+  it('lists every locale with the default as x-default', () => {
+    expect(localeAlternates('/blog/')).toEqual({
+      en: '/en/blog/',
+      es: '/es/blog/',
+      'x-default': '/en/blog/',
+    });
+  });
+
+  it('falls back to the first available locale for x-default', () => {
+    expect(localeAlternates('/blog/post/', ['es'])).toEqual({
+      es: '/es/blog/post/',
+      'x-default': '/es/blog/post/',
+    });
+  });
+});
+
+describe('contentAlternates', () => {
+  it('points fallback pages at the original language', () => {
+    expect(contentAlternates('/blog/post/', 'en', ['en']).canonical).toBe('/en/blog/post/');
+  });
+
+  it('prefers an explicit canonical URL', () => {
+    expect(
+      contentAlternates('/blog/post/', 'es', ['en', 'es'], 'https://example.com/post/').canonical
+    ).toBe('https://example.com/post/');
+  });
+});
+
+describe('parseLocalizedSlug', () => {
+  it('splits a locale suffix from the slug', () => {
+    expect(parseLocalizedSlug('cloud-migration.es')).toEqual({
+      slug: 'cloud-migration',
+      locale: 'es',
+    });
+  });
+
+  it('treats files without a known locale suffix as the default locale', () => {
+    expect(parseLocalizedSlug('cloud-migration')).toEqual({
+      slug: 'cloud-migration',
+      locale: 'en',
+    });
+    expect(parseLocalizedSlug('node.js')).toEqual({ slug: 'node.js', locale: 'en' });
+  });
+});
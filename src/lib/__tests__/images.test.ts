@@ -0,0 +1,135 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import type { Element, Root } from 'hast';
+
+// unist-util-visit is ESM-only, which Jest can't load; this covers the element visits the plugin makes
+jest.mock('unist-util-visit', () => ({
+  visit: (tree: Root, type: string, visitor: (node: Element) => void) => {
+    const walk = (node: Root | Element) => {
+      if (node.type === type) visitor(node as Element);
+      node.children.forEach(child => 'children' in child && walk(child as Element));
+    };
+    walk(tree);
+  },
+}));
+
+const originalCwd = process.cwd();
+let root: string;
+
+// Both modules resolve the content and output directories from the working directory when they load
+async function loadImages() {
+  jest.resetModules();
+  const [images, contentImages] = await Promise.all([
+    import('../images'),
+    import('../rehype/content-images'),
+  ]);
+  return { ...images, ...contentImages };
+}
+
+function writeImage(filePath: string, width: number, height: number) {
+  return sharp({ create: { width, height, channels: 3, background: '#2563eb' } })
+    .png()
+    .toFile(filePath);
+}
+
+function img(src: string): Element {
+  return { type: 'element', tagName: 'img', properties: { src, alt: 'Diagram' }, children: [] };
+}
+
+beforeEach(async () => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), 'images-'));
+  fs.mkdirSync(path.join(root, 'content', 'blog'), { recursive: true });
+  process.chdir(root);
+  await writeImage(path.join(root, 'content', 'blog', 'diagram.png'), 1000, 500);
+});
+
+afterEach(() => {
+  process.chdir(originalCwd);
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe('processContentImage', () => {
+  it('generates AVIF and WebP variants up to the source width', async () => {
+    const { processContentImage } = await loadImages();
+    const image = await processContentImage(path.join(root, 'content', 'blog', 'diagram.png'));
+
+    expect(image).toMatchObject({ width: 1000, height: 500 });
+    expect(image.src).toMatch(/^\/content-images\/diagram-[0-9a-f]{10}\.png$/);
+    expect(image.sources.map(source => source.type)).toEqual(['image/avif', 'image/webp']);
+
+    image.sources.forEach(source => {
+      const candidates = source.srcset.split(', ').map(candidate => candidate.split(' '));
+      expect(candidates.map(([, width]) => width)).toEqual(['640w', '960w', '1000w']);
+      candidates.forEach(([url]) =>
+        expect(fs.existsSync(path.join(root, 'public', url))).toBe(true)
+      );
+    });
+  });
+
+  it('rejects images outside the content directory', async () => {
+    const { processContentImage } = await loadImages();
+    await writeImage(path.join(root, 'secret.png'), 10, 10);
+
+    await expect(processContentImage(path.join(root, 'secret.png'))).rejects.toThrow(
+      'outside the content directory'
+    );
+    expect(fs.existsSync(path.join(root, 'public'))).toBe(false);
+  });
+});
+
+describe('rehypeContentImages', () => {
+  async function transform(children: Element[]) {
+    const { rehypeContentImages } = await loadImages();
+    const tree: Root = { type: 'root', children };
+    const file = { path: path.join(root, 'content', 'blog', 'post.md'), data: {} };
+    await rehypeContentImages()(tree, file as never, () => {});
+    return { tree, imageIssues: (file.data as { imageIssues: string[] }).imageIssues };
+  }
+
+  it('replaces relative images with a <picture> of responsive variants', async () => {
+    const { tree, imageIssues } = await transform([img('./diagram.png')]);
+    const [picture] = tree.children as Element[];
+
+    expect(imageIssues).toEqual([]);
+    expect(picture.tagName).toBe('picture');
+    expect(picture.children).toEqual([
+      expect.objectContaining({
+        tagName: 'source',
+        properties: expect.objectContaining({ type: 'image/avif', srcSet: expect.any(String) }),
+      }),
+      expect.objectContaining({
+        tagName: 'source',
+        properties: expect.objectContaining({ type: 'image/webp', srcSet: expect.any(String) }),
+      }),
+      expect.objectContaining({
+        tagName: 'img',
+        properties: expect.objectContaining({
+          src: expect.stringMatching(/^\/content-images\/diagram-/),
+          alt: 'Diagram',
+          width: 1000,
+          height: 500,
+          loading: 'lazy',
+        }),
+      }),
+    ]);
+  });
+
+  it('reports missing images and images outside the content directory', async () => {
+    await writeImage(path.join(root, 'secret.png'), 10, 10);
+    const children = [img('./missing.png'), img('../../secret.png'), img('/images/logo.png')];
+    const { tree, imageIssues } = await transform(children);
+
+    expect(imageIssues).toEqual([
+      'image "./missing.png" does not exist',
+      'image "../../secret.png" is outside the content directory',
+    ]);
+    expect(tree.children).toEqual([
+      img('./missing.png'),
+      img('../../secret.png'),
+      img('/images/logo.png'),
+    ]);
+    expect(fs.existsSync(path.join(root, 'public'))).toBe(false);
+  });
+});
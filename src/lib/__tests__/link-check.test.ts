@@ -0,0 +1,129 @@
+import {
+  checkLinks,
+  findTarget,
+  formatBrokenReferences,
+  parsePage,
+  resolveReference,
+  type SiteFiles,
+} from '../link-check';
+
+const SITE_URL = 'https://example.com';
+
+describe('parsePage', () => {
+  it('collects ids and references by kind', () => {
+    const { ids, references } = parsePage(`
+      <link rel="canonical" href="https://example.com/en/">
+      <link rel="icon" href="/favicon.svg">
+      <link rel="preconnect" href="https://fonts.gstatic.com">
+      <meta property="og:image" content="/images/og.jpg">
+      <h2 id="setup">Setup</h2>
+      <a href="/en/blog/">Blog</a>
+      <img src="/a.png" srcset="/a-640.avif 640w, /a-1280.avif 1280w">
+    `);
+
+    expect(Array.from(ids)).toEqual(['setup']);
+    expect(references).toEqual([
+      { kind: 'canonical', url: 'https://example.com/en/' },
+      { kind: 'asset', url: '/favicon.svg' },
+      { kind: 'og:image', url: '/images/og.jpg' },
+      { kind: 'link', url: '/en/blog/' },
+      { kind: 'asset', url: '/a.png' },
+      { kind: 'asset', url: '/a-640.avif' },
+      { kind: 'asset', url: '/a-1280.avif' },
+    ]);
+  });
+
+  it('ignores markup inside scripts and comments but keeps script sources', () => {
+    const { references } = parsePage(
+      '<script src="/app.js"></script><script>document.write(\'<a href="/x/">\')</script><!-- <a href="/y/"> -->'
+    );
+
+    expect(references).toEqual([{ kind: 'asset', url: '/app.js' }]);
+  });
+
+  it('decodes entities in attribute values', () => {
+    expect(parsePage('<a href="/search/?q=a&amp;b=c">').references[0].url).toBe('/search/?q=a&b=c');
+  });
+});
+
+describe('resolveReference', () => {
+  it('resolves relative and same-origin URLs to paths', () => {
+    expect(resolveReference('../tags/', 'en/blog/post/index.html', SITE_URL)).toEqual({
+      pathname: '/en/blog/tags/',
+      hash: '',
+    });
+    expect(resolveReference('https://example.com/en/#top', 'index.html', SITE_URL)).toEqual({
+      pathname: '/en/',
+      hash: 'top',
+    });
+  });
+
+  it('skips other origins and non-http schemes', () => {
+    expect(resolveReference('https://github.com/', 'index.html', SITE_URL)).toBeNull();
+    expect(resolveReference('mailto:hello@example.com', 'index.html', SITE_URL)).toBeNull();
+  });
+});
+
+describe('findTarget', () => {
+  const files: SiteFiles = new Map([
+    ['en/blog/index.html', ''],
+    ['about.html', ''],
+    ['feed.xml', null],
+  ]);
+
+  it('follows the static host rules', () => {
+    expect(findTarget('/en/blog/', files)).toBe('en/blog/index.html');
+    expect(findTarget('/en/blog', files)).toBe('en/blog/index.html');
+    expect(findTarget('/about', files)).toBe('about.html');
+    expect(findTarget('/feed.xml', files)).toBe('feed.xml');
+    expect(findTarget('/missing/', files)).toBeNull();
+  });
+});
+
+describe('checkLinks', () => {
+  it('reports missing targets, anchors and assets', () => {
+    const files: SiteFiles = new Map([
+      [
+        'en/index.html',
+        `<link rel="canonical" href="https://example.com/en/">
+         <link rel="icon" href="/favicon.svg">
+         <a href="/en/blog/#latest">Latest</a>
+         <a href="/en/blog/#missing">Missing</a>
+         <a href="/en/gone/">Gone</a>
+         <a href="https://github.com/">GitHub</a>`,
+      ],
+      ['en/blog/index.html', '<section id="latest"></section>'],
+    ]);
+
+    expect(checkLinks(files, SITE_URL)).toEqual([
+      { page: 'en/index.html', kind: 'asset', url: '/favicon.svg', message: 'does not exist' },
+      {
+        page: 'en/index.html',
+        kind: 'link',
+        url: '/en/blog/#missing',
+        message: 'has no matching id on en/blog/index.html',
+      },
+      { page: 'en/index.html', kind: 'link', url: '/en/gone/', message: 'does not exist' },
+    ]);
+  });
+
+  it('passes a site whose references all resolve', () => {
+    const files: SiteFiles = new Map([
+      ['index.html', '<a href="/en/">English</a><a href="#main">Skip</a><main id="main"></main>'],
+      ['en/index.html', '<a href="/feed.xml">RSS</a>'],
+      ['feed.xml', null],
+    ]);
+
+    expect(checkLinks(files, SITE_URL)).toEqual([]);
+  });
+});
+
+describe('formatBrokenReferences', () => {
+  it('prefixes each reference with its page', () => {
+    expect(
+      formatBrokenReferences([
+        { page: 'en/index.html', kind: 'asset', url: '/favicon.svg', message: 'does not exist' },
+      ])
+    ).toBe('en/index.html: asset "/favicon.svg" does not exist');
+  });
+});
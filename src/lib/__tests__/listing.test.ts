@@ -0,0 +1,110 @@
+import {
+  archivePath,
+  archiveSegments,
+  getDatePeriod,
+  getExtraPages,
+  getPageCount,
+  pagePath,
+  paginate,
+  parseArchiveSegments,
+  parsePageNumber,
+} from '../listing';
+import { PLACEHOLDER_PARAM, withPlaceholderParam } from '../static-params';
+
+const items = Array.from({ length: 25 }, (_, index) => index + 1);
+
+describe('paginate', () => {
+  it('slices a page and reports totals', () => {
+    expect(paginate(items, 2, 10)).toEqual({
+      items: [11, 12, 13, 14, 15, 16, 17, 18, 19, 20],
+      page: 2,
+      pageSize: 10,
+      totalItems: 25,
+      totalPages: 3,
+    });
+    expect(paginate(items, 3, 10).items).toEqual([21, 22, 23, 24, 25]);
+  });
+
+  it('returns no items for pages out of range', () => {
+    expect(paginate(items, 4, 10).items).toEqual([]);
+    expect(paginate(items, 0, 10).items).toEqual([]);
+  });
+
+  it('gives an empty listing a single page', () => {
+    expect(getPageCount(0, 10)).toBe(1);
+    expect(paginate([], 1, 10).totalPages).toBe(1);
+  });
+});
+
+describe('pagePath', () => {
+  it('keeps page 1 at the base path', () => {
+    expect(pagePath('/blog/', 1)).toBe('/blog/');
+    expect(pagePath('/blog/', 3)).toBe('/blog/page/3/');
+    expect(pagePath('/blog/archive/2024/', 2)).toBe('/blog/archive/2024/page/2/');
+  });
+});
+
+describe('getExtraPages', () => {
+  it('lists the pages after the first', () => {
+    expect(getExtraPages(1)).toEqual([]);
+    expect(getExtraPages(3)).toEqual([2, 3]);
+  });
+});
+
+describe('a blog with a single post', () => {
+  it('prerenders only the placeholder listing page, which resolves to no page', () => {
+    const params = withPlaceholderParam(
+      getExtraPages(getPageCount(1)).map(page => ({ page: String(page) })),
+      { page: PLACEHOLDER_PARAM }
+    );
+
+    expect(params).toEqual([{ page: PLACEHOLDER_PARAM }]);
+    expect(parsePageNumber(PLACEHOLDER_PARAM)).toBeNull();
+    expect(parseArchiveSegments([PLACEHOLDER_PARAM])).toBeNull();
+  });
+});
+
+describe('parsePageNumber', () => {
+  it('accepts canonical page numbers from 2 up', () => {
+    expect(parsePageNumber('2')).toBe(2);
+    expect(parsePageNumber('1')).toBeNull();
+    expect(parsePageNumber('02')).toBeNull();
+    expect(parsePageNumber('two')).toBeNull();
+  });
+});
+
+describe('archive paths', () => {
+  it('builds year and month paths with two-digit months', () => {
+    expect(archivePath({ year: 2024 })).toBe('/blog/archive/2024/');
+    expect(archivePath({ year: 2024, month: 3 })).toBe('/blog/archive/2024/03/');
+  });
+
+  it('round-trips route segments', () => {
+    const period = { year: 2024, month: 3 };
+
+    expect(archiveSegments(period)).toEqual(['2024', '03']);
+    expect(archiveSegments(period, 2)).toEqual(['2024', '03', 'page', '2']);
+    expect(parseArchiveSegments(archiveSegments(period, 2))).toEqual({ period, page: 2 });
+    expect(parseArchiveSegments(['2024'])).toEqual({ period: { year: 2024 }, page: 1 });
+    expect(parseArchiveSegments(['2024', 'page', '3'])).toEqual({
+      period: { year: 2024 },
+      page: 3,
+    });
+  });
+
+  it('rejects malformed segments', () => {
+    expect(parseArchiveSegments([])).toBeNull();
+    expect(parseArchiveSegments(['24'])).toBeNull();
+    expect(parseArchiveSegments(['2024', '13'])).toBeNull();
+    expect(parseArchiveSegments(['2024', '3'])).toBeNull();
+    expect(parseArchiveSegments(['2024', '03', 'page', '1'])).toBeNull();
+    expect(parseArchiveSegments(['2024', '03', 'extra'])).toBeNull();
+  });
+});
+
+describe('getDatePeriod', () => {
+  it('reads the year and month from the date string', () => {
+    expect(getDatePeriod('2024-03-31')).toEqual({ year: 2024, month: 3 });
+    expect(getDatePeriod('2024-12-31T23:30:00-05:00')).toEqual({ year: 2024, month: 12 });
+  });
+});
@@ -0,0 +1,58 @@
+import { renderOgCardSvg, wrapText } from '../og-images';
+
+describe('wrapText', () => {
+  it('breaks text at word boundaries', () => {
+    expect(wrapText('Migrating a regional hospital to AWS', 20, 3)).toEqual([
+      'Migrating a regional',
+      'hospital to AWS',
+    ]);
+  });
+
+  it('ends the last line with an ellipsis when text overflows', () => {
+    const lines = wrapText('one two three four five six seven eight', 9, 2);
+
+    expect(lines).toEqual(['one two', 'three…']);
+  });
+
+  it('keeps words longer than a line whole', () => {
+    expect(wrapText('Supercalifragilistic cloud', 10, 3)).toEqual([
+      'Supercalifragilistic',
+      'cloud',
+    ]);
+  });
+});
+
+describe('renderOgCardSvg', () => {
+  it('renders the title, tags and author', () => {
+    const svg = renderOgCardSvg({
+      title: 'Zero-Downtime Database Migrations',
+      eyebrow: 'Blog',
+      tags: ['aws', 'databases'],
+      author: 'Richard Mosley',
+    });
+
+    expect(svg).toContain('width="1200" height="630"');
+    expect(svg).toContain('>BLOG</text>');
+    expect(svg).toContain('>Zero-Downtime Database</text>');
+    expect(svg).toContain('>Migrations</text>');
+    expect(svg).toContain('>databases</text>');
+    expect(svg).toContain('>Richard Mosley</text>');
+  });
+
+  it('shows the headline metric for case studies', () => {
+    const svg = renderOgCardSvg({
+      title: 'Healthcare Platform Modernization',
+      metric: { value: '40%', label: 'Cost Reduction' },
+    });
+
+    expect(svg).toContain('>40%</text>');
+    expect(svg).toContain('>Cost Reduction</text>');
+  });
+
+  it('escapes text for XML', () => {
+    const svg = renderOgCardSvg({ title: 'HIPAA & <SOC 2>' });
+
+    expect(svg).toContain('HIPAA &amp; &lt;SOC 2&gt;');
+    expect(svg).not.toContain('<SOC 2>');
+  });
+});
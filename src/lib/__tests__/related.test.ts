@@ -0,0 +1,66 @@
+import { cosineSimilarity, scoreRelated, toRelatedFeatures, toTermVector } from '../related';
+
+const migrationStudy = toRelatedFeatures({
+  title: 'Enterprise Cloud Migration',
+  description: 'Moving a legacy platform to AWS.',
+  content: '<p>We migrated workloads to Kubernetes on AWS.</p>',
+  tags: ['cloud-migration', 'aws'],
+  technologies: ['AWS', 'Kubernetes'],
+  industry: 'Technology',
+});
+
+describe('toTermVector', () => {
+  it('counts words while ignoring markup and stop words', () => {
+    expect(toTermVector('<p>The cloud and the Cloud</p>')).toEqual(new Map([['cloud', 2]]));
+  });
+});
+
+describe('cosineSimilarity', () => {
+  it('is 1 for identical vectors and 0 for disjoint ones', () => {
+    const vector = toTermVector('cloud migration');
+    expect(cosineSimilarity(vector, vector)).toBeCloseTo(1);
+    expect(cosineSimilarity(vector, toTermVector('healthcare compliance'))).toBe(0);
+  });
+});
+
+describe('scoreRelated', () => {
+  it('matches post tags against case study technologies', () => {
+    const kubernetesPost = toRelatedFeatures({
+      title: 'Scaling Kubernetes',
+      description: '',
+      content: '',
+      tags: ['kubernetes'],
+    });
+    const unrelatedPost = toRelatedFeatures({
+      title: 'HIPAA basics',
+      description: '',
+      content: '',
+      tags: ['healthcare'],
+    });
+
+    expect(scoreRelated(migrationStudy, kubernetesPost)).toBeGreaterThan(
+      scoreRelated(migrationStudy, unrelatedPost)
+    );
+    expect(scoreRelated(migrationStudy, unrelatedPost)).toBe(0);
+  });
+
+  it('ranks shared tags above shared industry alone', () => {
+    const sameTags = toRelatedFeatures({
+      title: 'Other',
+      description: '',
+      content: '',
+      tags: ['aws'],
+    });
+    const sameIndustry = toRelatedFeatures({
+      title: 'Other',
+      description: '',
+      content: '',
+      tags: [],
+      industry: 'technology',
+    });
+
+    expect(scoreRelated(migrationStudy, sameTags)).toBeGreaterThan(
+      scoreRelated(migrationStudy, sameIndustry)
+    );
+  });
+});
@@ -0,0 +1,155 @@
+import type { Root } from 'hast';
+import { rehypeSanitizeMdx } from '../rehype/sanitize-mdx';
+import { SANITIZE_POLICIES } from '../sanitize';
+
+const { post: postPolicy, page: pagePolicy } = SANITIZE_POLICIES;
+
+const components = ['Callout', 'MetricCard'];
+
+// JSX as MDX parses it, e.g. <a href="...">Click</a>
+function jsx(name: string, attributes: Record<string, string | null>, children: unknown[] = []) {
+  return {
+    type: 'mdxJsxFlowElement',
+    name,
+    attributes: Object.entries(attributes).map(([attribute, value]) => ({
+      type: 'mdxJsxAttribute',
+      name: attribute,
+      value,
+    })),
+    children,
+  };
+}
+
+function text(value: string) {
+  return { type: 'text', value };
+}
+
+function sanitize(children: unknown[], policy = postPolicy, headingIds: string[] = []) {
+  const tree = { type: 'root', children } as Root;
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  rehypeSanitizeMdx({ policy, components })(tree, { data: { headingIds } } as never, () => {});
+  return tree.children;
+}
+
+describe('rehypeSanitizeMdx', () => {
+  it('removes script tags', () => {
+    const children = sanitize([
+      jsx('p', {}, [text('Hello')]),
+      jsx('script', {}, [text('alert(1)')]),
+    ]);
+
+    expect(children).toEqual([jsx('p', {}, [text('Hello')])]);
+    expect(console.warn).toHaveBeenCalledWith('MDX content: removed unsafe HTML: <script>');
+  });
+
+  it('removes event handler attributes', () => {
+    const children = sanitize([
+      jsx('img', { src: '/diagram.png', onerror: 'alert(1)' }),
+      jsx('p', { onClick: 'steal()' }, [text('Text')]),
+    ]);
+
+    expect(children).toEqual([jsx('img', { src: '/diagram.png' }), jsx('p', {}, [text('Text')])]);
+  });
+
+  it('removes javascript: URLs from JSX and markdown links', () => {
+    const children = sanitize([
+      jsx('a', { href: 'javascript:alert(2)' }, [text('Click')]),
+      {
+        type: 'element',
+        tagName: 'a',
+        properties: { href: 'javascript:alert(3)', className: ['link'] },
+        children: [text('Link')],
+      },
+    ]);
+
+    expect(children).toEqual([
+      jsx('a', {}, [text('Click')]),
+      {
+        type: 'element',
+        tagName: 'a',
+        properties: { className: ['link'] },
+        children: [text('Link')],
+      },
+    ]);
+  });
+
+  it('removes SVG payloads', () => {
+    const children = sanitize([jsx('svg', {}, [jsx('script', {}, [text('alert(1)')])])]);
+    expect(JSON.stringify(children)).not.toContain('script');
+  });
+
+  it('allows iframes only from approved embed hosts', () => {
+    const allowed = jsx('iframe', {
+      src: 'https://www.youtube-nocookie.com/embed/abc',
+      allowFullScreen: null,
+    });
+    const children = sanitize([
+      allowed,
+      jsx('iframe', { src: 'https://evil.example.com/x' }),
+      jsx('iframe', { src: 'http://www.youtube-nocookie.com/embed/abc' }),
+    ]);
+
+    expect(children).toEqual([allowed]);
+    expect(console.warn).toHaveBeenCalledWith(
+      'MDX content: removed unsafe HTML: <iframe> from https://evil.example.com/x, ' +
+        '<iframe> from http://www.youtube-nocookie.com/embed/abc'
+    );
+  });
+
+  it('removes every iframe when the policy allows no embed hosts', () => {
+    const children = sanitize(
+      [jsx('iframe', { src: 'https://www.youtube-nocookie.com/embed/abc' })],
+      pagePolicy
+    );
+
+    expect(children).toEqual([]);
+  });
+
+  it('keeps registered components and the markup the pipeline generates', () => {
+    const generated = [
+      {
+        type: 'element',
+        tagName: 'h2',
+        properties: { id: 'title' },
+        children: [text('Title')],
+      },
+      jsx('Callout', { type: 'warning' }, [jsx('strong', {}, [text('Note')])]),
+      {
+        type: 'element',
+        tagName: 'figure',
+        properties: { dataRehypePrettyCodeFigure: '' },
+        children: [
+          {
+            type: 'element',
+            tagName: 'table',
+            properties: {},
+            children: [
+              {
+                type: 'element',
+                tagName: 'td',
+                properties: { align: 'left', ariaLabel: 'Cell' },
+                children: [],
+              },
+            ],
+          },
+          {
+            type: 'element',
+            tagName: 'code',
+            properties: { style: 'display: grid;', tabIndex: 0 },
+            children: [],
+          },
+        ],
+      },
+    ];
+
+    expect(sanitize(JSON.parse(JSON.stringify(generated)), postPolicy, ['title'])).toEqual(
+      generated
+    );
+    expect(console.warn).not.toHaveBeenCalled();
+  });
+
+  it("removes inline styles other than the code highlighter's", () => {
+    const children = sanitize([jsx('div', { style: 'position:fixed;inset:0' }, [text('Overlay')])]);
+    expect(children).toEqual([jsx('div', {}, [text('Overlay')])]);
+  });
+});
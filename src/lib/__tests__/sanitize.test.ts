@@ -0,0 +1,93 @@
+import { SANITIZE_POLICIES, sanitizeHtml } from '../sanitize';
+
+const { post: postPolicy, page: pagePolicy } = SANITIZE_POLICIES;
+
+describe('sanitizeHtml', () => {
+  it('removes script tags', () => {
+    const { html, removed } = sanitizeHtml('<p>Hello</p><script>alert(1)</script>', postPolicy);
+
+    expect(html).toBe('<p>Hello</p>');
+    expect(removed).toEqual(['<script>']);
+  });
+
+  it('removes event handler attributes', () => {
+    const { html, removed } = sanitizeHtml(
+      '<img src="/diagram.png" onerror="alert(1)"><p onclick="steal()">Text</p>',
+      postPolicy
+    );
+
+    expect(html).toBe('<img src="/diagram.png"><p>Text</p>');
+    expect(removed).toEqual(['onerror attribute on <img>', 'onclick attribute on <p>']);
+  });
+
+  it('removes javascript: URLs', () => {
+    const { html } = sanitizeHtml('<a href="javascript:alert(1)">Click</a>', postPolicy);
+    expect(html).toBe('<a>Click</a>');
+  });
+
+  it('removes SVG payloads', () => {
+    const { html } = sanitizeHtml('<svg><script>alert(1)</script></svg>', postPolicy);
+    expect(html).not.toContain('script');
+  });
+
+  it('allows iframes only from approved embed hosts', () => {
+    const { html, removed } = sanitizeHtml(
+      '<iframe src="https://www.youtube-nocookie.com/embed/abc" allowfullscreen></iframe>' +
+        '<iframe src="https://evil.example.com/embed"></iframe>' +
+        '<iframe src="http://www.youtube-nocookie.com/embed/abc"></iframe>',
+      postPolicy
+    );
+
+    expect(html).toBe(
+      '<iframe src="https://www.youtube-nocookie.com/embed/abc" allowfullscreen=""></iframe>'
+    );
+    expect(removed).toEqual([
+      '<iframe> from https://evil.example.com/embed',
+      '<iframe> from http://www.youtube-nocookie.com/embed/abc',
+    ]);
+  });
+
+  it('removes every iframe when the policy allows no embed hosts', () => {
+    const { html, removed } = sanitizeHtml(
+      '<iframe src="https://www.youtube-nocookie.com/embed/abc"></iframe>',
+      pagePolicy
+    );
+
+    expect(html).toBe('');
+    expect(removed).toEqual(['<iframe>']);
+  });
+
+  it('keeps the markup the markdown pipeline generates', () => {
+    const generated =
+      '<h2 id="title">Title<a href="#title" class="heading-anchor" aria-label="Link to section: Title">#</a></h2>' +
+      '<figure data-rehype-pretty-code-figure=""><button type="button" data-copy-code="">Copy</button>' +
+      '<pre tabindex="0" data-language="ts"><code style="display: grid;"><span data-line="" data-highlighted-line="">' +
+      '<span style="color:#D73A49">const</span></span></code></pre></figure>';
+
+    expect(sanitizeHtml(generated, postPolicy, ['title'])).toEqual({
+      html: generated,
+      removed: [],
+    });
+  });
+
+  it("removes inline styles other than the code highlighter's", () => {
+    const { html, removed } = sanitizeHtml(
+      '<div style="position:fixed;inset:0">Overlay</div>' +
+        '<span style="color:#D73A49;position:absolute">Token</span>',
+      postPolicy
+    );
+
+    expect(html).toBe('<div>Overlay</div><span>Token</span>');
+    expect(removed).toEqual(['style attribute on <div>', 'style attribute on <span>']);
+  });
+
+  it('removes ids and names that clobber DOM properties, except generated heading ids', () => {
+    const { html } = sanitizeHtml(
+      '<h2 id="domain">Domain</h2><h2 id="title">Title</h2><img src="/a.png" name="cookie">',
+      postPolicy,
+      ['domain']
+    );
+
+    expect(html).toBe('<h2 id="domain">Domain</h2><h2>Title</h2><img src="/a.png">');
+  });
+});
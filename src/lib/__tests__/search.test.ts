@@ -0,0 +1,87 @@
+import {
+  buildSearchIndex,
+  editDistance,
+  searchIndex,
+  tokenize,
+  type SearchableItem,
+} from '../search';
+
+const item = (overrides: Partial<SearchableItem>): SearchableItem => ({
+  type: 'post',
+  title: '',
+  description: '',
+  url: '/blog/post/',
+  date: '2024-01-01',
+  tags: [],
+  body: '',
+  ...overrides,
+});
+
+const index = buildSearchIndex([
+  item({
+    title: 'Kubernetes on AWS',
+    url: '/blog/kubernetes/',
+    body: '<p>Running clusters in production.</p>',
+  }),
+  item({
+    title: 'HIPAA Compliance Checklist',
+    url: '/blog/hipaa/',
+    body: '<p>Encrypt data on Kubernetes and everywhere else.</p>',
+  }),
+  item({
+    type: 'caseStudy',
+    title: 'Hospital Cloud Migration',
+    url: '/case-studies/hospital/',
+    tags: ['kubernetes', 'healthcare'],
+  }),
+]);
+
+const urls = (query: string) => searchIndex(index, query).map(result => result.url);
+
+describe('tokenize', () => {
+  it('strips markup, accents and stop words', () => {
+    expect(tokenize('<p>The Café and the cloud</p>')).toEqual(['cafe', 'cloud']);
+  });
+});
+
+describe('editDistance', () => {
+  it('counts single-character edits', () => {
+    expect(editDistance('kubernetes', 'kubernets', 2)).toBe(1);
+    expect(editDistance('aws', 'gcp', 1)).toBe(2);
+  });
+});
+
+describe('searchIndex', () => {
+  it('ranks title matches above tag matches above body matches', () => {
+    expect(urls('kubernetes')).toEqual([
+      '/blog/kubernetes/',
+      '/case-studies/hospital/',
+      '/blog/hipaa/',
+    ]);
+  });
+
+  it('tolerates typos and matches word prefixes', () => {
+    expect(urls('kubernets')).toHaveLength(3);
+    expect(urls('hipa')).toEqual(['/blog/hipaa/']);
+    expect(urls('migr')).toEqual(['/case-studies/hospital/']);
+  });
+
+  it('requires every query word to match', () => {
+    expect(urls('kubernetes healthcare')).toEqual(['/case-studies/hospital/']);
+  });
+
+  it('returns nothing for unmatched or empty queries', () => {
+    expect(urls('mainframe')).toEqual([]);
+    expect(urls('the')).toEqual([]);
+  });
+
+  it('keeps display fields only in the index documents', () => {
+    expect(index.documents[0]).toEqual({
+      type: 'post',
+      title: 'Kubernetes on AWS',
+      description: '',
+      url: '/blog/kubernetes/',
+      date: '2024-01-01',
+    });
+  });
+});
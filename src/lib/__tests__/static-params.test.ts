@@ -0,0 +1,15 @@
+import { PLACEHOLDER_PARAM, withPlaceholderParam } from '../static-params';
+
+describe('withPlaceholderParam', () => {
+  it('keeps real params', () => {
+    expect(
+      withPlaceholderParam([{ series: 'aws-migration' }], { series: PLACEHOLDER_PARAM })
+    ).toEqual([{ series: 'aws-migration' }]);
+  });
+
+  it('falls back to the placeholder when a route has nothing to prerender', () => {
+    expect(withPlaceholderParam([], { series: PLACEHOLDER_PARAM })).toEqual([
+      { series: PLACEHOLDER_PARAM },
+    ]);
+  });
+});
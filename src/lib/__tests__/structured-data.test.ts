@@ -0,0 +1,181 @@
+import {
+  buildBlogPosting,
+  buildBreadcrumbList,
+  buildCaseStudyArticle,
+  buildOrganization,
+  buildPerson,
+  buildProfessionalService,
+  buildWebSite,
+  serializeJsonLd,
+  type JsonLdSchema,
+} from '../structured-data';
+import { SITE_CONFIG } from '../site';
+import type { Author, CaseStudy, Post } from '@/types';
+
+const author: Author = {
+  slug: 'richard-mosley',
+  name: 'Richard Mosley',
+  role: 'Principal Architect',
+  bio: '',
+  format: 'markdown',
+  locale: 'en',
+  avatar: '/images/authors/richard.jpg',
+  linkedin: 'https://www.linkedin.com/in/example',
+  expertise: ['AWS'],
+};
+
+const post: Post = {
+  slug: 'zero-downtime-migrations',
+  title: 'Zero-Downtime Database Migrations',
+  description: 'Moving data without a maintenance window.',
+  date: '2024-03-01',
+  author: 'Richard Mosley',
+  authorProfile: author,
+  tags: ['aws', 'databases'],
+  featured: false,
+  seo: {},
+  content: '',
+  format: 'markdown',
+  locale: 'en',
+  toc: [],
+  readingTime: 5,
+};
+
+const caseStudy: CaseStudy = {
+  ...post,
+  slug: 'hospital-cloud-migration',
+  title: 'Hospital Cloud Migration',
+  author: 'Guest Writer',
+  authorProfile: undefined,
+  updated: '2024-05-10',
+  client: 'Regional Hospital',
+  industry: 'Healthcare',
+  challenge: '',
+  solution: '',
+  results: [],
+  technologies: ['AWS'],
+  timeline: '6 months',
+};
+
+// Properties schema.org consumers need for each type to be usable
+const REQUIRED_PROPERTIES: Record<JsonLdSchema['@type'], string[]> = {
+  Organization: ['name', 'url'],
+  ProfessionalService: ['name', 'url', 'address', 'potentialAction'],
+  WebSite: ['name', 'url', 'potentialAction'],
+  Person: ['name'],
+  Article: ['headline', 'url', 'datePublished', 'dateModified', 'author', 'publisher'],
+  BlogPosting: ['headline', 'url', 'datePublished', 'dateModified', 'author', 'publisher'],
+  BreadcrumbList: ['itemListElement'],
+};
+
+function expectValid(schema: JsonLdSchema) {
+  const parsed = JSON.parse(serializeJsonLd(schema));
+
+  expect(parsed['@context']).toBe('https://schema.org');
+  REQUIRED_PROPERTIES[schema['@type']].forEach(property => {
+    expect(parsed).toHaveProperty([property]);
+    expect(parsed[property]).not.toBe('');
+  });
+
+  return parsed;
+}
+
+describe('buildOrganization and buildPerson', () => {
+  it('describe the publisher and linked author profiles', () => {
+    expect(expectValid(buildOrganization())).toMatchObject({
+      name: SITE_CONFIG.name,
+      url: SITE_CONFIG.url,
+    });
+    expect(expectValid(buildPerson(author, 'es'))).toMatchObject({
+      url: `${SITE_CONFIG.url}/es/authors/richard-mosley/`,
+      jobTitle: 'Principal Architect',
+      image: `${SITE_CONFIG.url}/images/authors/richard.jpg`,
+      sameAs: ['https://www.linkedin.com/in/example'],
+      worksFor: { '@type': 'Organization' },
+    });
+  });
+});
+
+describe('buildProfessionalService', () => {
+  it('links the contact page and founder for the locale', () => {
+    const schema = expectValid(
+      buildProfessionalService('es', { image: '/og/site.png', founder: author })
+    );
+
+    expect(schema.url).toBe(`${SITE_CONFIG.url}/es/`);
+    expect(schema.image).toBe(`${SITE_CONFIG.url}/og/site.png`);
+    expect(schema.founder).toMatchObject({ '@type': 'Person', name: 'Richard Mosley' });
+    expect(schema.potentialAction.target.urlTemplate).toBe(`${SITE_CONFIG.url}/es/contact/`);
+  });
+});
+
+describe('buildWebSite', () => {
+  it('declares a search action whose placeholder matches the query input', () => {
+    const { potentialAction } = expectValid(buildWebSite('en'));
+
+    expect(potentialAction['@type']).toBe('SearchAction');
+    expect(potentialAction.target.urlTemplate).toBe(
+      `${SITE_CONFIG.url}/en/blog/?q={search_term_string}`
+    );
+    expect(potentialAction['query-input']).toBe('required name=search_term_string');
+  });
+});
+
+describe('article builders', () => {
+  it('builds a BlogPosting with absolute URLs', () => {
+    const schema = expectValid(buildBlogPosting(post, 'en', '/og/post.png'));
+
+    expect(schema).toMatchObject({
+      '@type': 'BlogPosting',
+      url: `${SITE_CONFIG.url}/en/blog/zero-downtime-migrations/`,
+      mainEntityOfPage: `${SITE_CONFIG.url}/en/blog/zero-downtime-migrations/`,
+      image: `${SITE_CONFIG.url}/og/post.png`,
+      keywords: 'aws, databases',
+      author: { url: `${SITE_CONFIG.url}/en/authors/richard-mosley/` },
+    });
+    // Never revised, so modified is the publication date
+    expect(schema.dateModified).toBe('2024-03-01');
+  });
+
+  it('builds an Article about the client for case studies', () => {
+    const schema = expectValid(buildCaseStudyArticle(caseStudy, 'en'));
+
+    expect(schema).toMatchObject({
+      '@type': 'Article',
+      url: `${SITE_CONFIG.url}/en/case-studies/hospital-cloud-migration/`,
+      dateModified: '2024-05-10',
+      about: { '@type': 'Organization', name: 'Regional Hospital' },
+      author: { '@type': 'Person', name: 'Guest Writer' },
+    });
+    expect(schema.author).not.toHaveProperty('url');
+    expect(schema).not.toHaveProperty('image');
+  });
+});
+
+describe('buildBreadcrumbList', () => {
+  it('numbers localized, absolute items from 1', () => {
+    const { itemListElement } = expectValid(
+      buildBreadcrumbList(
+        [
+          { label: 'Inicio', href: '/' },
+          { label: 'Blog', href: '/blog/' },
+        ],
+        'es'
+      )
+    );
+
+    expect(itemListElement).toEqual([
+      { '@type': 'ListItem', position: 1, name: 'Inicio', item: `${SITE_CONFIG.url}/es/` },
+      { '@type': 'ListItem', position: 2, name: 'Blog', item: `${SITE_CONFIG.url}/es/blog/` },
+    ]);
+  });
+});
+
+describe('serializeJsonLd', () => {
+  it('cannot close the script tag it is written into', () => {
+    const json = serializeJsonLd(buildBlogPosting({ ...post, title: '</script><b>' }, 'en'));
+
+    expect(json).not.toContain('</script>');
+    expect(JSON.parse(json).headline).toBe('</script><b>');
+  });
+});
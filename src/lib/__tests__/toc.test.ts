@@ -0,0 +1,40 @@
+import { buildToc, createSlugger } from '../toc';
+
+describe('createSlugger', () => {
+  it('numbers repeated headings so ids stay unique', () => {
+    const slug = createSlugger();
+    expect(['Setup', 'Setup', 'Setup'].map(slug)).toEqual(['setup', 'setup-1', 'setup-2']);
+  });
+
+  it('falls back to a placeholder for headings without slug characters', () => {
+    expect(createSlugger()('🚀')).toBe('section');
+  });
+});
+
+describe('buildToc', () => {
+  it('nests subheadings and drops levels outside the table of contents', () => {
+    const toc = buildToc([
+      { id: 'title', title: 'Title', depth: 1 },
+      { id: 'plan', title: 'Plan', depth: 2 },
+      { id: 'inventory', title: 'Inventory', depth: 3 },
+      { id: 'detail', title: 'Detail', depth: 4 },
+      { id: 'migrate', title: 'Migrate', depth: 2 },
+    ]);
+
+    expect(toc).toEqual([
+      {
+        id: 'plan',
+        title: 'Plan',
+        depth: 2,
+        children: [{ id: 'inventory', title: 'Inventory', depth: 3, children: [] }],
+      },
+      { id: 'migrate', title: 'Migrate', depth: 2, children: [] },
+    ]);
+  });
+
+  it('keeps subheadings that appear before any section at the top level', () => {
+    expect(buildToc([{ id: 'intro', title: 'Intro', depth: 3 }])).toEqual([
+      { id: 'intro', title: 'Intro', depth: 3, children: [] },
+    ]);
+  });
+});
@@ -0,0 +1,432 @@
+import fs from 'fs';
+import path from 'path';
+import matter from 'gray-matter';
+import { slugify } from '@/lib/format';
+import { parseLocalizedSlug } from '@/lib/i18n';
+import { isRelativeUrl } from '@/lib/site';
+import type { ContentIssue, PageLayout } from '@/types';
+
+/**
+ * Frontmatter schemas for each content collection. Every field a collection
+ * accepts is declared here; unknown fields are reported so typos don't get
+ * silently ignored.
+ */
+
+export type ContentCollection = 'post' | 'caseStudy' | 'page' | 'author';
+
+// Root of every collection; the only place content files and their images are read from
+export const CONTENT_DIR = path.join(process.cwd(), 'content');
+
+// Directory under content/ that holds each collection
+export const COLLECTION_DIRECTORIES: Record<ContentCollection, string> = {
+  post: 'blog',
+  caseStudy: 'case-studies',
+  page: 'pages',
+  author: 'authors',
+};
+
+// Layout variants a page can choose in its frontmatter
+export const PAGE_LAYOUTS: readonly PageLayout[] = ['default', 'wide', 'legal'];
+
+// Top-level routes a page slug would collide with
+const RESERVED_PAGE_SLUGS = ['authors', 'blog', 'case-studies', 'contact'];
+
+// Facet landing sections a case study slug would collide with
+const RESERVED_CASE_STUDY_SLUGS = ['industries', 'technologies'];
+
+type FieldType =
+  | 'string'
+  | 'number'
+  | 'date'
+  | 'boolean'
+  | 'url'
+  | 'string[]'
+  | 'object'
+  | 'object[]';
+
+interface FieldSchema {
+  type: FieldType;
+  required?: boolean;
+  // Allowed values for 'string'
+  values?: readonly string[];
+  // Nested fields for 'object' and 'object[]'
+  fields?: Record<string, FieldSchema>;
+}
+
+type CollectionSchema = Record<string, FieldSchema>;
+
+// ISO 8601 date (2024-01-15) or date-time (2024-01-15T09:30:00Z)
+const ISO_DATE_REGEX = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?$/;
+
+const BASE_FIELDS: CollectionSchema = {
+  title: { type: 'string', required: true },
+  description: { type: 'string' },
+  date: { type: 'date', required: true },
+  updated: { type: 'date' },
+  draft: { type: 'boolean' },
+  publishAt: { type: 'date' },
+  author: { type: 'string' },
+  tags: { type: 'string[]' },
+  featured: { type: 'boolean' },
+  seo: {
+    type: 'object',
+    fields: {
+      meta_title: { type: 'string' },
+      meta_description: { type: 'string' },
+      canonical_url: { type: 'url' },
+      noindex: { type: 'boolean' },
+    },
+  },
+};
+
+export const CONTENT_SCHEMAS: Record<ContentCollection, CollectionSchema> = {
+  post: {
+    ...BASE_FIELDS,
+    series: { type: 'string' },
+    seriesOrder: { type: 'number' },
+    changelog: {
+      type: 'object[]',
+      fields: {
+        date: { type: 'date', required: true },
+        summary: { type: 'string', required: true },
+      },
+    },
+  },
+  caseStudy: {
+    ...BASE_FIELDS,
+    client: { type: 'string' },
+    industry: { type: 'string' },
+    challenge: { type: 'string' },
+    solution: { type: 'string' },
+    timeline: { type: 'string' },
+    technologies: { type: 'string[]' },
+    results: {
+      type: 'object[]',
+      fields: {
+        metric: { type: 'string', required: true },
+        value: { type: 'string', required: true },
+      },
+    },
+  },
+  page: {
+    ...BASE_FIELDS,
+    layout: { type: 'string', values: PAGE_LAYOUTS },
+  },
+  // Author profiles; the file body is the bio
+  author: {
+    name: { type: 'string', required: true },
+    role: { type: 'string' },
+    avatar: { type: 'string' },
+    linkedin: { type: 'url' },
+    expertise: { type: 'string[]' },
+  },
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  if (Array.isArray(value)) return 'array';
+  if (value instanceof Date) return 'date';
+  if (value === null) return 'null';
+  return typeof value;
+}
+
+/**
+ * Check a single value against its field schema, collecting issues
+ */
+function validateValue(
+  value: unknown,
+  schema: FieldSchema,
+  fieldPath: string,
+  file: string,
+  issues: ContentIssue[]
+): void {
+  const fail = (message: string) => issues.push({ file, path: fieldPath, message });
+
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') {
+        fail(`expected a string, received ${describe(value)}`);
+      } else if (schema.values && !schema.values.includes(value)) {
+        fail(`expected one of ${schema.values.join(', ')}, received ${JSON.stringify(value)}`);
+      }
+      break;
+
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        fail(`expected a number, received ${describe(value)}`);
+      }
+      break;
+
+    case 'url':
+      if (typeof value !== 'string' || !/^https?:\/\/\S+$/i.test(value)) {
+        fail('expected an absolute http(s) URL');
+      }
+      break;
+
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        fail(`expected true or false, received ${describe(value)}`);
+      }
+      break;
+
+    case 'date':
+      // Unquoted YAML dates arrive as Date objects; quoted ones must be ISO strings
+      if (value instanceof Date) {
+        if (Number.isNaN(value.getTime())) fail('invalid date');
+      } else if (typeof value !== 'string' || !ISO_DATE_REGEX.test(value)) {
+        fail(`expected an ISO 8601 date (YYYY-MM-DD), received ${JSON.stringify(value)}`);
+      } else if (Number.isNaN(new Date(value).getTime())) {
+        fail(`invalid date ${JSON.stringify(value)}`);
+      }
+      break;
+
+    case 'string[]':
+      if (!Array.isArray(value)) {
+        fail(`expected a list of strings, received ${describe(value)}`);
+        break;
+      }
+      value.forEach((item, index) => {
+        if (typeof item !== 'string') {
+          issues.push({
+            file,
+            path: `${fieldPath}[${index}]`,
+            message: `expected a string, received ${describe(item)}`,
+          });
+        }
+      });
+      break;
+
+    case 'object':
+      if (!isPlainObject(value)) {
+        fail(`expected an object, received ${describe(value)}`);
+        break;
+      }
+      validateFields(value, schema.fields || {}, fieldPath, file, issues);
+      break;
+
+    case 'object[]':
+      if (!Array.isArray(value)) {
+        fail(`expected a list, received ${describe(value)}`);
+        break;
+      }
+      value.forEach((item, index) => {
+        const itemPath = `${fieldPath}[${index}]`;
+        if (!isPlainObject(item)) {
+          issues.push({
+            file,
+            path: itemPath,
+            message: `expected an object, received ${describe(item)}`,
+          });
+          return;
+        }
+        validateFields(item, schema.fields || {}, itemPath, file, issues);
+      });
+      break;
+  }
+}
+
+/**
+ * Check an object's fields against a schema, including unknown keys
+ */
+function validateFields(
+  data: Record<string, unknown>,
+  fields: Record<string, FieldSchema>,
+  parentPath: string,
+  file: string,
+  issues: ContentIssue[]
+): void {
+  const pathFor = (key: string) => (parentPath ? `${parentPath}.${key}` : key);
+
+  Object.entries(fields).forEach(([key, schema]) => {
+    const value = data[key];
+
+    if (value === undefined || value === null || value === '') {
+      if (schema.required) {
+        issues.push({ file, path: pathFor(key), message: 'is required' });
+      }
+      return;
+    }
+
+    validateValue(value, schema, pathFor(key), file, issues);
+  });
+
+  Object.keys(data)
+    .filter(key => !(key in fields))
+    .forEach(key => {
+      issues.push({ file, path: pathFor(key), message: 'is not a recognized field' });
+    });
+}
+
+/**
+ * Validate parsed frontmatter for a collection, returning every violation
+ */
+export function validateFrontmatter(
+  collection: ContentCollection,
+  data: Record<string, unknown>,
+  file: string
+): ContentIssue[] {
+  const issues: ContentIssue[] = [];
+  validateFields(data, CONTENT_SCHEMAS[collection], '', file, issues);
+  return issues;
+}
+
+/**
+ * Format issues as one line per violation: file: field.path message
+ */
+export function formatContentIssues(issues: ContentIssue[]): string {
+  return issues
+    .map(issue => `${issue.file}: ${issue.path ? `${issue.path} ` : ''}${issue.message}`)
+    .join('\n');
+}
+
+// Markdown image syntax: ![alt](src "optional title")
+const MARKDOWN_IMAGE_REGEX = /!\[[^\]]*\]\(\s*<?([^\s)>]+)>?(?:\s+["'][^"']*["'])?\s*\)/g;
+
+/**
+ * Whether a path lies inside the content directory
+ */
+export function isInContentDirectory(filePath: string, contentDir: string = CONTENT_DIR): boolean {
+  const relative = path.relative(contentDir, path.resolve(filePath));
+  return relative !== '' && relative.split(path.sep)[0] !== '..' && !path.isAbsolute(relative);
+}
+
+/**
+ * Problem with an image a markdown file references relative to itself, or null
+ * if it can be used. It must exist inside the content directory: a reference
+ * that climbs out of it would copy an arbitrary file into the export.
+ */
+export function checkImageReference(
+  filePath: string,
+  src: string,
+  contentDir: string = CONTENT_DIR
+): string | null {
+  const sourcePath = path.resolve(path.dirname(filePath), decodeURI(src));
+
+  if (!isInContentDirectory(sourcePath, contentDir)) {
+    return `image "${src}" is outside the content directory`;
+  }
+  if (!fs.existsSync(sourcePath)) {
+    return `image "${src}" does not exist`;
+  }
+  return null;
+}
+
+/**
+ * Report images referenced relative to a content file that can't be used. MDX
+ * is compiled without a file path, so it can only reference files under
+ * public/. Fenced code is skipped so examples of image syntax aren't flagged.
+ */
+export function checkImageReferences(
+  filePath: string,
+  content: string,
+  contentDir: string = CONTENT_DIR
+): string[] {
+  const prose = content.replace(/^(```|~~~)[\s\S]*?^\1/gm, '');
+  const isMdx = path.extname(filePath) === '.mdx';
+
+  return Array.from(prose.matchAll(MARKDOWN_IMAGE_REGEX))
+    .map(match => match[1])
+    .filter(src => isRelativeUrl(src))
+    .flatMap(src => {
+      const issue = isMdx
+        ? `image "${src}" is relative; MDX can only reference images under public/`
+        : checkImageReference(filePath, src, contentDir);
+      return issue ? [issue] : [];
+    });
+}
+
+/**
+ * Validate every markdown and MDX file in every collection under contentDir
+ */
+export function checkContent(contentDir: string): ContentIssue[] {
+  const issues: ContentIssue[] = [];
+  // Author references that must match a profile once any profiles exist
+  const authorReferences: { file: string; author: string }[] = [];
+  const authorKeys = new Set<string>();
+
+  (Object.keys(COLLECTION_DIRECTORIES) as ContentCollection[]).forEach(collection => {
+    const directory = path.join(contentDir, COLLECTION_DIRECTORIES[collection]);
+
+    if (!fs.existsSync(directory)) {
+      return;
+    }
+
+    const files = fs
+      .readdirSync(directory)
+      .filter(file => file.endsWith('.md') || file.endsWith('.mdx'));
+    const slugs = new Set<string>();
+
+    files.forEach(file => {
+      const filePath = path.join(directory, file);
+      const relativePath = path.relative(process.cwd(), filePath);
+      // Translations (post.es.md) share their original's slug but not its file
+      const basename = path.basename(file, path.extname(file));
+      const { slug } = parseLocalizedSlug(basename);
+
+      if (slugs.has(basename)) {
+        issues.push({
+          file: relativePath,
+          path: '',
+          message: `duplicates the slug "${basename}" of another file in this collection`,
+        });
+      }
+      slugs.add(basename);
+
+      // Pages are served from the site root, next to the app's own routes
+      if (collection === 'page' && RESERVED_PAGE_SLUGS.includes(slug)) {
+        issues.push({
+          file: relativePath,
+          path: '',
+          message: `the slug "${slug}" is reserved for the /${slug}/ route`,
+        });
+      }
+
+      if (collection === 'caseStudy' && RESERVED_CASE_STUDY_SLUGS.includes(slug)) {
+        issues.push({
+          file: relativePath,
+          path: '',
+          message: `the slug "${slug}" is reserved for the /case-studies/${slug}/ route`,
+        });
+      }
+
+      try {
+        const { data, content } = matter(fs.readFileSync(filePath, 'utf8'));
+        issues.push(...validateFrontmatter(collection, data, relativePath));
+
+        checkImageReferences(filePath, content, contentDir).forEach(message =>
+          issues.push({ file: relativePath, path: '', message })
+        );
+
+        if (collection === 'author') {
+          authorKeys.add(slug);
+          if (typeof data.name === 'string') authorKeys.add(slugify(data.name));
+        } else if (typeof data.author === 'string') {
+          authorReferences.push({ file: relativePath, author: data.author });
+        }
+      } catch (error) {
+        issues.push({
+          file: relativePath,
+          path: '',
+          message: `frontmatter could not be parsed: ${error instanceof Error ? error.message : error}`,
+        });
+      }
+    });
+  });
+
+  if (authorKeys.size > 0) {
+    authorReferences
+      .filter(reference => !authorKeys.has(slugify(reference.author)))
+      .forEach(reference => {
+        issues.push({
+          file: reference.file,
+          path: 'author',
+          message: `"${reference.author}" does not match any profile in content/${COLLECTION_DIRECTORIES.author}`,
+        });
+      });
+  }
+
+  return issues;
+}
@@ -1,27 +1,73 @@
+import { execFileSync } from 'child_process';
 import fs from 'fs';
 import path from 'path';
 import matter from 'gray-matter';
-import { remark } from 'remark';
-import remarkHtml from 'remark-html';
-import remarkGfm from 'remark-gfm';
-import type { CaseStudy, Post, PostMetadata } from '@/types';
+import {
+  checkImageReferences,
+  COLLECTION_DIRECTORIES,
+  CONTENT_DIR,
+  formatContentIssues,
+  PAGE_LAYOUTS,
+  validateFrontmatter,
+  type ContentCollection,
+} from '@/lib/content-schema';
+import {
+  countFacetValues,
+  facetLandingPath,
+  FACET_LANDING_SECTIONS,
+  filterCaseStudies,
+  type LandingFacet,
+} from '@/lib/facets';
+import { slugify } from '@/lib/format';
+import { DEFAULT_LOCALE, LOCALES, localizePath, parseLocalizedSlug } from '@/lib/i18n';
+import { archivePath, getDatePeriod, paginate, POSTS_PER_PAGE } from '@/lib/listing';
+import { extractToc, processMarkdown } from '@/lib/markdown';
+import { scoreRelated, toRelatedFeatures } from '@/lib/related';
+import { SANITIZE_POLICIES } from '@/lib/sanitize';
+import { buildSearchIndex, type SearchableItem } from '@/lib/search';
+import { SITE_CONFIG } from '@/lib/site';
+import type {
+  Author,
+  CaseStudy,
+  CaseStudyFacet,
+  ContentFormat,
+  ChangelogEntry,
+  ContentIssue,
+  FacetCount,
+  Locale,
+  Page,
+  PageLayout,
+  Paginated,
+  Post,
+  PostFilter,
+  PostMetadata,
+  RelatedContent,
+  SearchIndex,
+  Series,
+  SitemapEntry,
+  TagSummary,
+  TocEntry,
+  YearArchive,
+} from '@/types';
 
 // Content directories
-const CONTENT_DIR = path.join(process.cwd(), 'content');
-const POSTS_DIR = path.join(CONTENT_DIR, 'blog');
-const CASE_STUDIES_DIR = path.join(CONTENT_DIR, 'case-studies');
-const PAGES_DIR = path.join(CONTENT_DIR, 'pages');
+const POSTS_DIR = path.join(CONTENT_DIR, COLLECTION_DIRECTORIES.post);
+const CASE_STUDIES_DIR = path.join(CONTENT_DIR, COLLECTION_DIRECTORIES.caseStudy);
+const PAGES_DIR = path.join(CONTENT_DIR, COLLECTION_DIRECTORIES.page);
+const AUTHORS_DIR = path.join(CONTENT_DIR, COLLECTION_DIRECTORIES.author);
 
-// Markdown processor configuration
-const processor = remark()
-  .use(remarkGfm) // GitHub Flavored Markdown
-  .use(remarkHtml, { sanitize: false }); // Allow HTML for rich content
+// Production builds fail on invalid content; development skips the file with a warning
+const STRICT_CONTENT = process.env.NODE_ENV === 'production';
+
+// Development and preview builds (CONTENT_PREVIEW=true) include drafts and scheduled content
+const INCLUDE_UNPUBLISHED =
+  process.env.CONTENT_PREVIEW === 'true' || process.env.NODE_ENV !== 'production';
 
 /**
  * Ensures content directories exist
  */
 function ensureContentDirectories(): void {
-  const directories = [CONTENT_DIR, POSTS_DIR, CASE_STUDIES_DIR, PAGES_DIR];
+  const directories = [CONTENT_DIR, POSTS_DIR, CASE_STUDIES_DIR, PAGES_DIR, AUTHORS_DIR];
 
   directories.forEach(dir => {
     if (!fs.existsSync(dir)) {
@@ -48,302 +94,892 @@ function getMarkdownFiles(directory: string): string[] {
 }
 
 /**
- * Calculate reading time for content
+ * Resolve the markdown or MDX files for a slug in a locale, most preferred
+ * first: the translation (slug.es.md), then the default locale's file
+ */
+function findContentFiles(directory: string, slug: string, locale: Locale): string[] {
+  const basenames = locale === DEFAULT_LOCALE ? [slug] : [`${slug}.${locale}`, slug];
+
+  return basenames.flatMap(basename =>
+    ['.md', '.mdx']
+      .map(extension => path.join(directory, `${basename}${extension}`))
+      .filter(filePath => fs.existsSync(filePath))
+  );
+}
+
+/**
+ * Calculate reading time from a body's markdown source; the rendered HTML
+ * would also count the markup of highlighted code as words
  */
-function calculateReadingTime(content: string): number {
+function calculateReadingTime(source: string): number {
   const wordsPerMinute = 200;
-  const wordCount = content.split(/\s+/).length;
+  const wordCount = source.split(/\s+/).filter(Boolean).length;
   return Math.ceil(wordCount / wordsPerMinute);
 }
 
 /**
- * Process markdown content
+ * Report frontmatter violations: throws in production builds, warns otherwise
  */
-async function processMarkdown(content: string): Promise<string> {
-  const result = await processor.process(content);
-  return result.toString();
+function reportContentIssues(issues: ContentIssue[]): void {
+  const report = formatContentIssues(issues);
+
+  if (STRICT_CONTENT) {
+    throw new Error(`Invalid content (run \`npm run content:check\` for details):\n${report}`);
+  }
+
+  console.warn(`Skipping invalid content:\n${report}`);
 }
 
 /**
- * Parse frontmatter and content from markdown file
+ * Normalize a frontmatter date (unquoted YAML dates parse to Date objects)
+ */
+function toDateString(value: unknown): string | undefined {
+  if (value instanceof Date) {
+    return value.toISOString().split('T')[0];
+  }
+
+  return typeof value === 'string' ? value : undefined;
+}
+
+// Whether git history is usable for modification dates: a shallow clone dates
+// every file to the checkout's single commit
+let gitHistoryAvailable: boolean | undefined;
+
+function hasGitHistory(): boolean {
+  if (gitHistoryAvailable === undefined) {
+    try {
+      const shallow = execFileSync('git', ['rev-parse', '--is-shallow-repository'], {
+        encoding: 'utf8',
+        stdio: ['ignore', 'pipe', 'ignore'],
+      }).trim();
+      gitHistoryAvailable = shallow === 'false';
+    } catch {
+      gitHistoryAvailable = false;
+    }
+
+    if (!gitHistoryAvailable) {
+      console.warn('Git history unavailable, content dates fall back to frontmatter only');
+    }
+  }
+
+  return gitHistoryAvailable;
+}
+
+/**
+ * Date-time of the last commit touching a file, if it has been committed
+ */
+function getGitLastModified(filePath: string): string | undefined {
+  if (!hasGitHistory()) {
+    return undefined;
+  }
+
+  try {
+    const date = execFileSync('git', ['log', '-1', '--format=%cI', '--', filePath], {
+      encoding: 'utf8',
+      stdio: ['ignore', 'pipe', 'ignore'],
+    }).trim();
+    return date || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Revision date for a file: the updated frontmatter, or its last commit when
+ * that falls on a later day than the publish date
+ */
+function resolveUpdated(
+  filePath: string,
+  date: string | undefined,
+  updated: unknown
+): string | undefined {
+  const frontmatter = toDateString(updated);
+  // Author profiles carry no dates
+  if (frontmatter || !date) {
+    return frontmatter;
+  }
+
+  const committed = getGitLastModified(filePath);
+  return committed && committed.slice(0, 10) > date.slice(0, 10) ? committed : undefined;
+}
+
+/**
+ * Normalize a frontmatter changelog, newest entry first
  */
-async function parseMarkdownFile(filePath: string): Promise<{
+function toChangelog(value: unknown): ChangelogEntry[] | undefined {
+  if (!Array.isArray(value) || value.length === 0) {
+    return undefined;
+  }
+
+  return value
+    .map(entry => ({ date: toDateString(entry.date)!, summary: String(entry.summary) }))
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+}
+
+interface ParsedContentFile {
   metadata: PostMetadata;
+  // Raw frontmatter, for collection-specific fields beyond PostMetadata
+  data: Record<string, any>;
   content: string;
+  format: ContentFormat;
+  toc: TocEntry[];
+  // Minutes, counted from the markdown source
+  readingTime: number;
+  // Slug without the locale suffix: post.es.md and post.md share "post"
   slug: string;
-} | null> {
+  locale: Locale;
+}
+
+/**
+ * Parse frontmatter and content from markdown file
+ */
+async function parseMarkdownFile(
+  filePath: string,
+  collection: ContentCollection
+): Promise<ParsedContentFile | null> {
+  const relativePath = path.relative(process.cwd(), filePath);
+  let file: matter.GrayMatterFile<string>;
+
   try {
-    const fileContent = fs.readFileSync(filePath, 'utf8');
-    const { data, content } = matter(fileContent);
+    file = matter(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    reportContentIssues([
+      { file: relativePath, path: '', message: `frontmatter could not be parsed: ${message}` },
+    ]);
+    return null;
+  }
 
-    // Generate slug from filename
-    const slug = path.basename(filePath, path.extname(filePath));
+  // Validate frontmatter against the collection schema
+  const issues = validateFrontmatter(collection, file.data, relativePath);
+  if (issues.length > 0) {
+    reportContentIssues(issues);
+    return null;
+  }
 
-    // Process markdown to HTML
-    const processedContent = await processMarkdown(content);
+  let parsed: ParsedContentFile;
+  let imageIssues: string[];
 
-    // Validate required metadata
-    if (!data.title || !data.date) {
-      console.warn(`Missing required metadata in ${filePath}`);
-      return null;
+  try {
+    const { data, content } = file;
+
+    // Generate slug and locale from filename
+    const { slug, locale } = parseLocalizedSlug(path.basename(filePath, path.extname(filePath)));
+
+    // MDX is compiled against the component registry at render time; markdown is
+    // rendered to HTML up front
+    const format: ContentFormat = path.extname(filePath) === '.mdx' ? 'mdx' : 'markdown';
+    const rendered =
+      format === 'mdx'
+        ? {
+            html: content,
+            toc: extractToc(content),
+            removed: [],
+            imageIssues: checkImageReferences(filePath, content),
+          }
+        : await processMarkdown(content, {
+            policy: SANITIZE_POLICIES[collection],
+            filePath,
+            locale,
+          });
+
+    // Stripped HTML is a warning rather than a failure: the rest of the file is safe
+    if (rendered.removed.length > 0) {
+      console.warn(`${relativePath}: removed unsafe HTML: ${rendered.removed.join(', ')}`);
     }
 
+    imageIssues = rendered.imageIssues;
+
+    const date = toDateString(data.date);
     const metadata: PostMetadata = {
       title: data.title,
       description: data.description || '',
-      date: data.date,
-      author: data.author || 'Richard Mosley',
+      date: date!,
+      updated: resolveUpdated(filePath, date, data.updated),
+      changelog: toChangelog(data.changelog),
+      draft: data.draft === true,
+      publishAt: toDateString(data.publishAt),
+      author: data.author || SITE_CONFIG.author.name,
       tags: Array.isArray(data.tags) ? data.tags : [],
       featured: data.featured || false,
+      series: data.series,
+      seriesOrder: data.seriesOrder,
       seo: {
         meta_title: data.seo?.meta_title || data.title,
         meta_description: data.seo?.meta_description || data.description,
         canonical_url: data.seo?.canonical_url,
+        noindex: data.seo?.noindex === true,
       },
     };
 
-    return {
+    parsed = {
       metadata,
-      content: processedContent,
+      data,
+      content: rendered.html,
+      format,
+      toc: rendered.toc,
+      readingTime: calculateReadingTime(content),
       slug,
+      locale,
     };
   } catch (error) {
-    console.error(`Error parsing markdown file ${filePath}:`, error);
+    // A body the pipeline can't render fails production builds like invalid frontmatter
+    const message = error instanceof Error ? error.message : String(error);
+    reportContentIssues([
+      { file: relativePath, path: '', message: `content could not be processed: ${message}` },
+    ]);
     return null;
   }
+
+  // Broken image references are invalid content, like frontmatter violations
+  if (imageIssues.length > 0) {
+    reportContentIssues(imageIssues.map(message => ({ file: relativePath, path: '', message })));
+    return null;
+  }
+
+  return parsed;
 }
 
 /**
- * Get all blog posts
+ * Whether a content item is live: not a draft, and its publishAt time (if any) has passed
+ */
+export function isPublished(
+  item: Pick<PostMetadata, 'draft' | 'publishAt'>,
+  now: Date = new Date()
+): boolean {
+  if (item.draft) {
+    return false;
+  }
+
+  return !item.publishAt || new Date(item.publishAt).getTime() <= now.getTime();
+}
+
+/**
+ * Whether a content item should be rendered in this build
+ */
+function isVisible(item: PostMetadata): boolean {
+  return INCLUDE_UNPUBLISHED || isPublished(item);
+}
+
+/**
+ * Content index shared by every query: parsed files keyed by path and
+ * invalidated when the file's mtime changes. Promises are cached so concurrent
+ * queries during a build render each file once.
  */
-export async function getAllPosts(): Promise<Post[]> {
+const contentIndex = new Map<
+  string,
+  { mtimeMs: number; parsed: Promise<ParsedContentFile | null> }
+>();
+
+/**
+ * Load a content file through the index, re-parsing only if it changed on disk
+ */
+function loadContentFile(
+  filePath: string,
+  collection: ContentCollection
+): Promise<ParsedContentFile | null> {
+  const { mtimeMs } = fs.statSync(filePath);
+  const cached = contentIndex.get(filePath);
+
+  if (cached && cached.mtimeMs === mtimeMs) {
+    return cached.parsed;
+  }
+
+  const parsed = parseMarkdownFile(filePath, collection);
+  contentIndex.set(filePath, { mtimeMs, parsed });
+
+  // Failed parses are retried on the next query rather than cached
+  parsed.catch(() => {
+    if (contentIndex.get(filePath)?.parsed === parsed) {
+      contentIndex.delete(filePath);
+    }
+  });
+
+  return parsed;
+}
+
+/**
+ * Load every file in a collection directory through the index
+ */
+async function loadCollection(
+  directory: string,
+  collection: ContentCollection
+): Promise<ParsedContentFile[]> {
   ensureContentDirectories();
 
-  const files = getMarkdownFiles(POSTS_DIR);
-  const posts: Post[] = [];
+  const filePaths = getMarkdownFiles(directory).map(file => path.join(directory, file));
 
-  for (const file of files) {
-    const filePath = path.join(POSTS_DIR, file);
-    const parsed = await parseMarkdownFile(filePath);
+  // Drop index entries for files that have been deleted or renamed
+  Array.from(contentIndex.keys())
+    .filter(key => path.dirname(key) === directory && !filePaths.includes(key))
+    .forEach(key => contentIndex.delete(key));
 
-    if (parsed) {
-      const post: Post = {
-        ...parsed.metadata,
-        slug: parsed.slug,
-        content: parsed.content,
-        readingTime: calculateReadingTime(parsed.content),
-      };
+  const parsed = await Promise.all(
+    filePaths.map(filePath => loadContentFile(filePath, collection))
+  );
 
-      posts.push(post);
+  return parsed.filter((file): file is ParsedContentFile => file !== null);
+}
+
+/**
+ * Load a collection as seen from a locale: one visible file per slug, the
+ * translation where there is one and the default locale's file otherwise
+ */
+async function loadLocalizedCollection(
+  directory: string,
+  collection: ContentCollection,
+  locale: Locale
+): Promise<ParsedContentFile[]> {
+  const files = await loadCollection(directory, collection);
+  const bySlug = new Map<string, ParsedContentFile>();
+
+  files
+    .filter(file => isVisible(file.metadata))
+    .filter(file => file.locale === locale || file.locale === DEFAULT_LOCALE)
+    .forEach(file => {
+      if (!bySlug.has(file.slug) || file.locale === locale) {
+        bySlug.set(file.slug, file);
+      }
+    });
+
+  return Array.from(bySlug.values());
+}
+
+/**
+ * Load the visible file for a slug in a locale, falling back to the default
+ * locale when the translation is missing or unpublished
+ */
+async function loadLocalizedFile(
+  directory: string,
+  collection: ContentCollection,
+  slug: string,
+  locale: Locale
+): Promise<ParsedContentFile | null> {
+  for (const filePath of findContentFiles(directory, slug, locale)) {
+    const parsed = await loadContentFile(filePath, collection);
+    if (parsed && isVisible(parsed.metadata)) {
+      return parsed;
     }
   }
 
-  // Sort posts by date (newest first)
-  return posts.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+  return null;
 }
 
 /**
- * Get a specific blog post by slug
+ * Find the profile an author reference (slug or display name) points to
  */
-export async function getPostBySlug(slug: string): Promise<Post | null> {
-  const filePath = path.join(POSTS_DIR, `${slug}.md`);
+function resolveAuthor(reference: string, authors: Author[]): Author | undefined {
+  const key = slugify(reference);
+  return authors.find(author => author.slug === key || slugify(author.name) === key);
+}
 
-  if (!fs.existsSync(filePath)) {
-    return null;
-  }
+/**
+ * Build an Author from a parsed file. Profiles share the parsing pipeline, so
+ * only the raw frontmatter and rendered body are used.
+ */
+function toAuthor(parsed: ParsedContentFile): Author {
+  const { data } = parsed;
 
-  const parsed = await parseMarkdownFile(filePath);
+  return {
+    slug: parsed.slug,
+    name: data.name,
+    role: data.role || '',
+    bio: parsed.content,
+    format: parsed.format,
+    locale: parsed.locale,
+    avatar: data.avatar,
+    linkedin: data.linkedin,
+    expertise: Array.isArray(data.expertise) ? data.expertise : [],
+  };
+}
 
-  if (!parsed) {
-    return null;
-  }
+/**
+ * Build a Post from a parsed file
+ */
+function toPost(parsed: ParsedContentFile, authors: Author[]): Post {
+  const authorProfile = resolveAuthor(parsed.metadata.author, authors);
 
   return {
     ...parsed.metadata,
+    author: authorProfile?.name || parsed.metadata.author,
+    authorProfile,
     slug: parsed.slug,
     content: parsed.content,
-    readingTime: calculateReadingTime(parsed.content),
+    format: parsed.format,
+    locale: parsed.locale,
+    toc: parsed.toc,
+    readingTime: parsed.readingTime,
   };
 }
 
+/**
+ * Build a CaseStudy from a parsed file
+ */
+function toCaseStudy(parsed: ParsedContentFile, authors: Author[]): CaseStudy {
+  const { data } = parsed;
+  const authorProfile = resolveAuthor(parsed.metadata.author, authors);
+
+  return {
+    ...parsed.metadata,
+    author: authorProfile?.name || parsed.metadata.author,
+    authorProfile,
+    slug: parsed.slug,
+    content: parsed.content,
+    format: parsed.format,
+    locale: parsed.locale,
+    toc: parsed.toc,
+    client: data.client || '',
+    industry: data.industry || '',
+    challenge: data.challenge || '',
+    solution: data.solution || '',
+    results: Array.isArray(data.results) ? data.results : [],
+    technologies: Array.isArray(data.technologies) ? data.technologies : [],
+    timeline: data.timeline || '',
+  };
+}
+
+/**
+ * Build a Page from a parsed file
+ */
+function toPage(parsed: ParsedContentFile): Page {
+  const layout = parsed.data.layout as PageLayout | undefined;
+
+  return {
+    ...parsed.metadata,
+    slug: parsed.slug,
+    content: parsed.content,
+    format: parsed.format,
+    locale: parsed.locale,
+    toc: parsed.toc,
+    layout: layout && PAGE_LAYOUTS.includes(layout) ? layout : 'default',
+  };
+}
+
+/**
+ * Get all blog posts
+ */
+export async function getAllPosts(locale: Locale = DEFAULT_LOCALE): Promise<Post[]> {
+  const [files, authors] = await Promise.all([
+    loadLocalizedCollection(POSTS_DIR, 'post', locale),
+    getAllAuthors(locale),
+  ]);
+  const posts = files.map(file => toPost(file, authors));
+
+  // Sort posts by date (newest first)
+  return posts.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+}
+
+/**
+ * Get a specific blog post by slug
+ */
+export async function getPostBySlug(
+  slug: string,
+  locale: Locale = DEFAULT_LOCALE
+): Promise<Post | null> {
+  const [parsed, authors] = await Promise.all([
+    loadLocalizedFile(POSTS_DIR, 'post', slug, locale),
+    getAllAuthors(locale),
+  ]);
+  return parsed ? toPost(parsed, authors) : null;
+}
+
 /**
  * Get featured blog posts
  */
-export async function getFeaturedPosts(limit: number = 3): Promise<Post[]> {
-  const allPosts = await getAllPosts();
+export async function getFeaturedPosts(
+  limit: number = 3,
+  locale: Locale = DEFAULT_LOCALE
+): Promise<Post[]> {
+  const allPosts = await getAllPosts(locale);
   return allPosts.filter(post => post.featured).slice(0, limit);
 }
 
 /**
- * Get posts by tag
+ * Get posts by tag (matches on the tag slug, so "Cloud Architecture" and
+ * "cloud-architecture" resolve to the same archive)
+ */
+export async function getPostsByTag(tag: string, locale: Locale = DEFAULT_LOCALE): Promise<Post[]> {
+  const allPosts = await getAllPosts(locale);
+  const tagSlug = slugify(tag);
+
+  return allPosts.filter(post => post.tags.some(postTag => slugify(postTag) === tagSlug));
+}
+
+/**
+ * Whether a post matches every criterion of a listing filter
  */
-export async function getPostsByTag(tag: string): Promise<Post[]> {
-  const allPosts = await getAllPosts();
-  return allPosts.filter(post =>
-    post.tags.some(postTag => postTag.toLowerCase() === tag.toLowerCase())
+function matchesPostFilter(post: Post, filter: PostFilter): boolean {
+  const { year, month } = getDatePeriod(post.date);
+
+  return (
+    (!filter.tag || post.tags.some(tag => slugify(tag) === slugify(filter.tag!))) &&
+    (!filter.year || year === filter.year) &&
+    (!filter.month || month === filter.month)
   );
 }
 
 /**
- * Get all unique tags
+ * Get one page of the (optionally filtered) post listing, newest first, with
+ * total counts for pagination
  */
-export async function getAllTags(): Promise<string[]> {
-  const allPosts = await getAllPosts();
-  const tagSet = new Set<string>();
+export async function getPostsPage(
+  page: number = 1,
+  filter: PostFilter = {},
+  locale: Locale = DEFAULT_LOCALE,
+  pageSize: number = POSTS_PER_PAGE
+): Promise<Paginated<Post>> {
+  const allPosts = await getAllPosts(locale);
+  return paginate(
+    allPosts.filter(post => matchesPostFilter(post, filter)),
+    page,
+    pageSize
+  );
+}
+
+/**
+ * Get the years and months that have posts, newest first
+ */
+export async function getPostArchives(locale: Locale = DEFAULT_LOCALE): Promise<YearArchive[]> {
+  const allPosts = await getAllPosts(locale);
+  const years = new Map<number, YearArchive>();
 
   allPosts.forEach(post => {
-    post.tags.forEach(tag => tagSet.add(tag));
+    const { year, month } = getDatePeriod(post.date);
+    const archive = years.get(year) || { year, count: 0, months: [] };
+    const monthArchive = archive.months.find(entry => entry.month === month);
+
+    archive.count += 1;
+    if (monthArchive) {
+      monthArchive.count += 1;
+    } else {
+      archive.months.push({ month, count: 1 });
+    }
+    years.set(year, archive);
   });
 
-  return Array.from(tagSet).sort();
+  return Array.from(years.values())
+    .map(archive => ({ ...archive, months: archive.months.sort((a, b) => b.month - a.month) }))
+    .sort((a, b) => b.year - a.year);
 }
 
 /**
- * Get all case studies
+ * Get every tag with its URL slug and the number of posts using it
  */
-export async function getAllCaseStudies(): Promise<CaseStudy[]> {
-  ensureContentDirectories();
+export async function getTagSummaries(locale: Locale = DEFAULT_LOCALE): Promise<TagSummary[]> {
+  const allPosts = await getAllPosts(locale);
+  const tags = new Map<string, TagSummary>();
+
+  allPosts.forEach(post => {
+    // Count each post once per tag slug, even if it lists variants of the same tag
+    const postTagSlugs = new Set<string>();
+
+    post.tags.forEach(tag => {
+      const slug = slugify(tag);
+      if (!slug || postTagSlugs.has(slug)) return;
+      postTagSlugs.add(slug);
+
+      const existing = tags.get(slug);
+      if (existing) {
+        existing.count += 1;
+      } else {
+        // The first spelling encountered (newest post) becomes the display name
+        tags.set(slug, { name: tag, slug, count: 1 });
+      }
+    });
+  });
 
-  const files = getMarkdownFiles(CASE_STUDIES_DIR);
-  const caseStudies: CaseStudy[] = [];
-
-  for (const file of files) {
-    const filePath = path.join(CASE_STUDIES_DIR, file);
-    const parsed = await parseMarkdownFile(filePath);
-
-    if (parsed) {
-      const fileContent = fs.readFileSync(filePath, 'utf8');
-      const { data } = matter(fileContent);
-
-      const caseStudy: CaseStudy = {
-        ...parsed.metadata,
-        slug: parsed.slug,
-        content: parsed.content,
-        client: data.client || '',
-        industry: data.industry || '',
-        challenge: data.challenge || '',
-        solution: data.solution || '',
-        results: Array.isArray(data.results) ? data.results : [],
-        technologies: Array.isArray(data.technologies) ? data.technologies : [],
-        timeline: data.timeline || '',
-      };
-
-      caseStudies.push(caseStudy);
+  return Array.from(tags.values()).sort((a, b) => a.name.localeCompare(b.name, locale));
+}
+
+/**
+ * Get every series, with parts ordered by seriesOrder (then date)
+ */
+export async function getAllSeries(locale: Locale = DEFAULT_LOCALE): Promise<Series[]> {
+  const allPosts = await getAllPosts(locale);
+  const series = new Map<string, Series>();
+
+  allPosts.forEach(post => {
+    const slug = post.series ? slugify(post.series) : '';
+    if (!slug) return;
+
+    const existing = series.get(slug);
+    if (existing) {
+      existing.parts.push(post);
+    } else {
+      series.set(slug, { name: post.series!, slug, parts: [post] });
     }
-  }
+  });
 
-  // Sort case studies by date (newest first)
-  return caseStudies.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+  // Parts without a seriesOrder follow the numbered ones
+  const order = (post: Post) => post.seriesOrder ?? Number.MAX_SAFE_INTEGER;
+
+  return Array.from(series.values())
+    .map(entry => ({
+      ...entry,
+      parts: entry.parts.sort(
+        (a, b) => order(a) - order(b) || new Date(a.date).getTime() - new Date(b.date).getTime()
+      ),
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name, locale));
 }
 
 /**
- * Get a specific case study by slug
+ * Get a series by its slug
  */
-export async function getCaseStudyBySlug(slug: string): Promise<CaseStudy | null> {
-  const filePath = path.join(CASE_STUDIES_DIR, `${slug}.md`);
+export async function getSeriesBySlug(
+  slug: string,
+  locale: Locale = DEFAULT_LOCALE
+): Promise<Series | null> {
+  const allSeries = await getAllSeries(locale);
+  return allSeries.find(series => series.slug === slug) || null;
+}
 
-  if (!fs.existsSync(filePath)) {
-    return null;
-  }
+/**
+ * Get all unique tags
+ */
+export async function getAllTags(locale: Locale = DEFAULT_LOCALE): Promise<string[]> {
+  const summaries = await getTagSummaries(locale);
+  return summaries.map(summary => summary.name);
+}
 
-  const fileContent = fs.readFileSync(filePath, 'utf8');
-  const { data } = matter(fileContent);
-  const parsed = await parseMarkdownFile(filePath);
+/**
+ * Get all case studies
+ */
+export async function getAllCaseStudies(locale: Locale = DEFAULT_LOCALE): Promise<CaseStudy[]> {
+  const [files, authors] = await Promise.all([
+    loadLocalizedCollection(CASE_STUDIES_DIR, 'caseStudy', locale),
+    getAllAuthors(locale),
+  ]);
+  const caseStudies = files.map(file => toCaseStudy(file, authors));
 
-  if (!parsed) {
-    return null;
-  }
+  // Sort case studies by date (newest first)
+  return caseStudies.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+}
 
-  return {
-    ...parsed.metadata,
-    slug: parsed.slug,
-    content: parsed.content,
-    client: data.client || '',
-    industry: data.industry || '',
-    challenge: data.challenge || '',
-    solution: data.solution || '',
-    results: Array.isArray(data.results) ? data.results : [],
-    technologies: Array.isArray(data.technologies) ? data.technologies : [],
-    timeline: data.timeline || '',
-  };
+/**
+ * Get a specific case study by slug
+ */
+export async function getCaseStudyBySlug(
+  slug: string,
+  locale: Locale = DEFAULT_LOCALE
+): Promise<CaseStudy | null> {
+  const [parsed, authors] = await Promise.all([
+    loadLocalizedFile(CASE_STUDIES_DIR, 'caseStudy', slug, locale),
+    getAllAuthors(locale),
+  ]);
+  return parsed ? toCaseStudy(parsed, authors) : null;
 }
 
 /**
  * Get featured case studies
  */
-export async function getFeaturedCaseStudies(limit: number = 3): Promise<CaseStudy[]> {
-  const allCaseStudies = await getAllCaseStudies();
+export async function getFeaturedCaseStudies(
+  limit: number = 3,
+  locale: Locale = DEFAULT_LOCALE
+): Promise<CaseStudy[]> {
+  const allCaseStudies = await getAllCaseStudies(locale);
   return allCaseStudies.filter(caseStudy => caseStudy.featured).slice(0, limit);
 }
 
 /**
- * Get page content by slug
+ * Get the values of every case study facet with their counts, most used first
  */
-export async function getPageBySlug(slug: string): Promise<{
-  metadata: PostMetadata;
-  content: string;
-} | null> {
-  const filePath = path.join(PAGES_DIR, `${slug}.md`);
+export async function getCaseStudyFacets(
+  locale: Locale = DEFAULT_LOCALE
+): Promise<Record<CaseStudyFacet, FacetCount[]>> {
+  const allCaseStudies = await getAllCaseStudies(locale);
 
-  if (!fs.existsSync(filePath)) {
-    return null;
-  }
+  return {
+    industry: countFacetValues(allCaseStudies, 'industry', locale),
+    technology: countFacetValues(allCaseStudies, 'technology', locale),
+    tag: countFacetValues(allCaseStudies, 'tag', locale),
+  };
+}
 
-  const parsed = await parseMarkdownFile(filePath);
+/**
+ * Get the case studies with a facet value, matched on its slug
+ */
+export async function getCaseStudiesByFacet(
+  facet: CaseStudyFacet,
+  slug: string,
+  locale: Locale = DEFAULT_LOCALE
+): Promise<CaseStudy[]> {
+  const allCaseStudies = await getAllCaseStudies(locale);
+  return filterCaseStudies(allCaseStudies, { [facet]: [slugify(slug)] });
+}
 
-  if (!parsed) {
-    return null;
-  }
+/**
+ * Get every author profile, sorted by name
+ */
+export async function getAllAuthors(locale: Locale = DEFAULT_LOCALE): Promise<Author[]> {
+  const files = await loadLocalizedCollection(AUTHORS_DIR, 'author', locale);
+  return files.map(toAuthor).sort((a, b) => a.name.localeCompare(b.name, locale));
+}
 
-  return {
-    metadata: parsed.metadata,
-    content: parsed.content,
-  };
+/**
+ * Get an author profile by slug
+ */
+export async function getAuthorBySlug(
+  slug: string,
+  locale: Locale = DEFAULT_LOCALE
+): Promise<Author | null> {
+  const authors = await getAllAuthors(locale);
+  return authors.find(author => author.slug === slug) || null;
 }
 
 /**
- * Search content across posts and case studies
+ * Get the posts and case studies credited to an author
  */
-export async function searchContent(
-  query: string,
-  includeContent: boolean = true
+export async function getContentByAuthor(
+  slug: string,
+  locale: Locale = DEFAULT_LOCALE
 ): Promise<{
   posts: Post[];
   caseStudies: CaseStudy[];
 }> {
-  const [allPosts, allCaseStudies] = await Promise.all([getAllPosts(), getAllCaseStudies()]);
+  const [allPosts, allCaseStudies] = await Promise.all([
+    getAllPosts(locale),
+    getAllCaseStudies(locale),
+  ]);
 
-  const normalizedQuery = query.toLowerCase();
+  return {
+    posts: allPosts.filter(post => post.authorProfile?.slug === slug),
+    caseStudies: allCaseStudies.filter(caseStudy => caseStudy.authorProfile?.slug === slug),
+  };
+}
 
-  const matchesQuery = (item: Post | CaseStudy): boolean => {
-    const titleMatch = item.title.toLowerCase().includes(normalizedQuery);
-    const descriptionMatch = item.description.toLowerCase().includes(normalizedQuery);
-    const tagMatch = item.tags.some(tag => tag.toLowerCase().includes(normalizedQuery));
+/**
+ * Get all standalone pages
+ */
+export async function getAllPages(locale: Locale = DEFAULT_LOCALE): Promise<Page[]> {
+  const files = await loadLocalizedCollection(PAGES_DIR, 'page', locale);
+  return files.map(toPage).sort((a, b) => a.slug.localeCompare(b.slug));
+}
 
-    if (!includeContent) {
-      return titleMatch || descriptionMatch || tagMatch;
-    }
+/**
+ * Get page content by slug
+ */
+export async function getPageBySlug(
+  slug: string,
+  locale: Locale = DEFAULT_LOCALE
+): Promise<Page | null> {
+  const parsed = await loadLocalizedFile(PAGES_DIR, 'page', slug, locale);
+  return parsed ? toPage(parsed) : null;
+}
 
-    const contentMatch = item.content.toLowerCase().includes(normalizedQuery);
-    return titleMatch || descriptionMatch || tagMatch || contentMatch;
-  };
+const LOCALIZED_DIRECTORIES: Record<Exclude<ContentCollection, 'author'>, string> = {
+  post: POSTS_DIR,
+  caseStudy: CASE_STUDIES_DIR,
+  page: PAGES_DIR,
+};
 
-  return {
-    posts: allPosts.filter(matchesQuery),
-    caseStudies: allCaseStudies.filter(matchesQuery),
-  };
+/**
+ * Locales a content item is actually written in (not just reachable through
+ * the default-locale fallback), for hreflang alternates and canonical URLs
+ */
+export async function getContentLocales(
+  collection: Exclude<ContentCollection, 'author'>,
+  slug: string
+): Promise<Locale[]> {
+  const available = await Promise.all(
+    LOCALES.map(async locale => {
+      const parsed = await loadLocalizedFile(
+        LOCALIZED_DIRECTORIES[collection],
+        collection,
+        slug,
+        locale
+      );
+      return parsed?.locale === locale;
+    })
+  );
+
+  return LOCALES.filter((_, index) => available[index]);
+}
+
+/**
+ * Build the full-text search index written to the static export for a locale
+ */
+export async function generateSearchIndex(locale: Locale = DEFAULT_LOCALE): Promise<SearchIndex> {
+  const [allPosts, allCaseStudies] = await Promise.all([
+    getAllPosts(locale),
+    getAllCaseStudies(locale),
+  ]);
+
+  // Like feeds, the index never exposes drafts or scheduled content
+  const posts = allPosts.filter(post => isPublished(post));
+  const caseStudies = allCaseStudies.filter(caseStudy => isPublished(caseStudy));
+
+  const items: SearchableItem[] = [
+    ...posts.map(post => ({
+      type: 'post' as const,
+      title: post.title,
+      description: post.description,
+      url: localizePath(`/blog/${post.slug}/`, locale),
+      date: post.date,
+      tags: post.tags,
+      body: post.content,
+    })),
+    ...caseStudies.map(caseStudy => ({
+      type: 'caseStudy' as const,
+      title: caseStudy.title,
+      description: caseStudy.description,
+      url: localizePath(`/case-studies/${caseStudy.slug}/`, locale),
+      date: caseStudy.date,
+      tags: [...caseStudy.tags, ...caseStudy.technologies, caseStudy.industry],
+      body: [caseStudy.client, caseStudy.challenge, caseStudy.solution, caseStudy.content].join(
+        ' '
+      ),
+    })),
+  ];
+
+  return buildSearchIndex(items);
 }
 
 /**
- * Generate RSS feed data
+ * Posts and case studies most similar to the given item, best match first
+ */
+export async function getRelatedContent(
+  type: RelatedContent['type'],
+  source: Post | CaseStudy,
+  limit: number = 3,
+  locale: Locale = DEFAULT_LOCALE
+): Promise<RelatedContent[]> {
+  const [allPosts, allCaseStudies] = await Promise.all([
+    getAllPosts(locale),
+    getAllCaseStudies(locale),
+  ]);
+
+  const candidates: RelatedContent[] = [
+    ...allPosts.map(item => ({ type: 'post' as const, item, score: 0 })),
+    ...allCaseStudies.map(item => ({ type: 'caseStudy' as const, item, score: 0 })),
+  ];
+  const sourceFeatures = toRelatedFeatures(source);
+
+  return candidates
+    .filter(candidate => !(candidate.type === type && candidate.item.slug === source.slug))
+    .map(candidate => ({
+      ...candidate,
+      score: scoreRelated(sourceFeatures, toRelatedFeatures(candidate.item)),
+    }))
+    .filter(related => related.score > 0)
+    .sort(
+      (a, b) =>
+        b.score - a.score || new Date(b.item.date).getTime() - new Date(a.item.date).getTime()
+    )
+    .slice(0, limit);
+}
+
+/**
+ * Generate RSS feed data (default locale only)
  */
 export async function generateRSSData(): Promise<{
   posts: Post[];
   lastModified: string;
 }> {
-  const posts = await getAllPosts();
-  const lastModified =
-    posts.length > 0 ? new Date(posts[0].date).toISOString() : new Date().toISOString();
+  // Feeds never carry drafts or scheduled posts, even in preview builds
+  const posts = (await getAllPosts()).filter(post => isPublished(post));
+  const newest = getNewestModified(posts);
+  const lastModified = newest ? new Date(newest).toISOString() : new Date().toISOString();
 
   return {
     posts: posts.slice(0, 20), // Latest 20 posts
@@ -352,22 +988,201 @@ export async function generateRSSData(): Promise<{
 }
 
 /**
- * Generate sitemap data
+ * Most recent modification date of a content item
  */
-export async function generateSitemapData(): Promise<{
-  posts: string[];
-  caseStudies: string[];
-  lastModified: string;
-}> {
-  const [posts, caseStudies] = await Promise.all([getAllPosts(), getAllCaseStudies()]);
+function getLastModified(item: PostMetadata): string {
+  return item.updated || item.date;
+}
 
-  const lastModified = new Date().toISOString();
+/**
+ * Newest modification date across a set of content items
+ */
+function getNewestModified(items: PostMetadata[]): string | undefined {
+  return items
+    .map(getLastModified)
+    .sort((a, b) => new Date(b).getTime() - new Date(a).getTime())[0];
+}
 
-  return {
-    posts: posts.map(post => post.slug),
-    caseStudies: caseStudies.map(cs => cs.slug),
-    lastModified,
-  };
+/**
+ * Sitemap entries for one locale, with unprefixed paths. Content shown through
+ * the default-locale fallback is left out: its canonical URL is the original.
+ */
+async function getLocaleSitemapEntries(locale: Locale): Promise<SitemapEntry[]> {
+  const [allPosts, allCaseStudies, tags, allSeries, authors, allPages] = await Promise.all([
+    getAllPosts(locale),
+    getAllCaseStudies(locale),
+    getTagSummaries(locale),
+    getAllSeries(locale),
+    getAllAuthors(locale),
+    getAllPages(locale),
+  ]);
+
+  // Unpublished and noindex pages must not be advertised to crawlers
+  const indexable = (item: Post | CaseStudy | Page) =>
+    isPublished(item) && !item.seo.noindex && item.locale === locale;
+  const posts = allPosts.filter(indexable);
+  const caseStudies = allCaseStudies.filter(indexable);
+  const pages = allPages.filter(indexable);
+
+  const entries: SitemapEntry[] = [
+    {
+      path: '/',
+      lastModified: getNewestModified([...posts, ...caseStudies]),
+      changeFrequency: 'weekly',
+      priority: 1.0,
+    },
+    { path: '/contact/', changeFrequency: 'monthly', priority: 0.9 },
+    {
+      path: '/case-studies/',
+      lastModified: getNewestModified(caseStudies),
+      changeFrequency: 'monthly',
+      priority: 0.8,
+    },
+    {
+      path: '/blog/',
+      lastModified: getNewestModified(posts),
+      changeFrequency: 'weekly',
+      priority: 0.7,
+    },
+    {
+      path: '/blog/tags/',
+      lastModified: getNewestModified(posts),
+      changeFrequency: 'weekly',
+      priority: 0.3,
+    },
+  ];
+
+  caseStudies.forEach(caseStudy => {
+    entries.push({
+      path: `/case-studies/${caseStudy.slug}/`,
+      lastModified: getLastModified(caseStudy),
+      changeFrequency: 'monthly',
+      priority: 0.8,
+    });
+  });
+
+  // Technology and industry landing pages, from the case studies indexable in this locale
+  (Object.keys(FACET_LANDING_SECTIONS) as LandingFacet[]).forEach(facet => {
+    countFacetValues(caseStudies, facet, locale).forEach(value => {
+      entries.push({
+        path: facetLandingPath(facet, value.name),
+        lastModified: getNewestModified(filterCaseStudies(caseStudies, { [facet]: [value.slug] })),
+        changeFrequency: 'monthly',
+        priority: 0.4,
+      });
+    });
+  });
+
+  posts.forEach(post => {
+    entries.push({
+      path: `/blog/${post.slug}/`,
+      lastModified: getLastModified(post),
+      changeFrequency: 'monthly',
+      priority: 0.6,
+    });
+  });
+
+  tags.forEach(tag => {
+    const taggedPosts = posts.filter(post =>
+      post.tags.some(postTag => slugify(postTag) === tag.slug)
+    );
+
+    // Skip tags only used by unpublished or noindex posts
+    if (taggedPosts.length === 0) return;
+
+    entries.push({
+      path: `/blog/tags/${tag.slug}/`,
+      lastModified: getNewestModified(taggedPosts),
+      changeFrequency: 'weekly',
+      priority: 0.3,
+    });
+  });
+
+  // Archives, from the posts indexable in this locale
+  const periods = new Map<string, Post[]>();
+  posts.forEach(post => {
+    const { year, month } = getDatePeriod(post.date);
+    [archivePath({ year }), archivePath({ year, month })].forEach(archive => {
+      periods.set(archive, [...(periods.get(archive) || []), post]);
+    });
+  });
+
+  if (periods.size > 0) {
+    entries.push({
+      path: '/blog/archive/',
+      lastModified: getNewestModified(posts),
+      changeFrequency: 'weekly',
+      priority: 0.3,
+    });
+  }
+
+  periods.forEach((archived, archive) => {
+    entries.push({
+      path: archive,
+      lastModified: getNewestModified(archived),
+      changeFrequency: 'monthly',
+      priority: 0.2,
+    });
+  });
+
+  allSeries.forEach(series => {
+    const parts = posts.filter(post => series.parts.some(part => part.slug === post.slug));
+    if (parts.length === 0) return;
+
+    entries.push({
+      path: `/blog/series/${series.slug}/`,
+      lastModified: getNewestModified(parts),
+      changeFrequency: 'weekly',
+      priority: 0.5,
+    });
+  });
+
+  pages.forEach(page => {
+    entries.push({
+      path: `/${page.slug}/`,
+      lastModified: getLastModified(page),
+      changeFrequency: 'yearly',
+      priority: 0.2,
+    });
+  });
+
+  authors.forEach(author => {
+    const credited = [...posts, ...caseStudies].filter(
+      item => item.authorProfile?.slug === author.slug
+    );
+
+    entries.push({
+      path: `/authors/${author.slug}/`,
+      lastModified: getNewestModified(credited),
+      changeFrequency: 'monthly',
+      priority: 0.4,
+    });
+  });
+
+  return entries;
+}
+
+/**
+ * Generate sitemap data for every indexable route in every locale, each entry
+ * listing the locales the same page is available in
+ */
+export async function generateSitemapData(): Promise<SitemapEntry[]> {
+  const entriesByLocale = await Promise.all(LOCALES.map(getLocaleSitemapEntries));
+  const pathsByLocale = entriesByLocale.map(entries => new Set(entries.map(entry => entry.path)));
+
+  return entriesByLocale.flatMap((entries, index) =>
+    entries.map(entry => {
+      const alternates: SitemapEntry['alternates'] = {};
+
+      LOCALES.forEach((alternate, alternateIndex) => {
+        if (pathsByLocale[alternateIndex].has(entry.path)) {
+          alternates[alternate] = localizePath(entry.path, alternate);
+        }
+      });
+
+      return { ...entry, path: localizePath(entry.path, LOCALES[index]), alternates };
+    })
+  );
 }
 
 /**
@@ -0,0 +1,176 @@
+import { slugify } from '@/lib/format';
+import type { CaseStudy, CaseStudyFacet, CaseStudySummary, FacetCount } from '@/types';
+
+/**
+ * Faceted filtering for the case study browser. Values are matched on their
+ * slug; selected values of one facet are alternatives (Azure or AWS) while
+ * separate facets narrow each other (healthcare and Azure).
+ */
+
+export const CASE_STUDY_FACETS: readonly CaseStudyFacet[] = ['industry', 'technology', 'tag'];
+
+// Selected value slugs per facet, as carried in the query string
+export type FacetSelection = Partial<Record<CaseStudyFacet, string[]>>;
+
+// Facets with statically generated landing pages, and the section they live under
+export const FACET_LANDING_SECTIONS = {
+  industry: 'industries',
+  technology: 'technologies',
+} as const;
+
+export type LandingFacet = keyof typeof FACET_LANDING_SECTIONS;
+
+/**
+ * Landing page path of a facet value ('technology', 'Azure' -> '/case-studies/technologies/azure/')
+ */
+export function facetLandingPath(facet: LandingFacet, value: string): string {
+  return `/case-studies/${FACET_LANDING_SECTIONS[facet]}/${slugify(value)}/`;
+}
+
+/**
+ * The card fields of a case study, leaving out the rendered write-up so
+ * listings can be handed to client components cheaply
+ */
+export function toCaseStudySummary(caseStudy: CaseStudy): CaseStudySummary {
+  const { slug, title, description, client, industry, technologies, tags, results } = caseStudy;
+  return { slug, title, description, client, industry, technologies, tags, results };
+}
+
+/**
+ * Display values of a facet on a case study
+ */
+export function getFacetValues(caseStudy: CaseStudySummary, facet: CaseStudyFacet): string[] {
+  switch (facet) {
+    case 'industry':
+      return caseStudy.industry ? [caseStudy.industry] : [];
+    case 'technology':
+      return caseStudy.technologies;
+    case 'tag':
+      return caseStudy.tags;
+  }
+}
+
+function matchesFacet(
+  caseStudy: CaseStudySummary,
+  facet: CaseStudyFacet,
+  selected: string[] = []
+): boolean {
+  if (selected.length === 0) {
+    return true;
+  }
+
+  const slugs = getFacetValues(caseStudy, facet).map(slugify);
+  return selected.some(slug => slugs.includes(slug));
+}
+
+/**
+ * Case studies matching every facet in a selection
+ */
+export function filterCaseStudies<T extends CaseStudySummary>(
+  caseStudies: T[],
+  selection: FacetSelection
+): T[] {
+  return caseStudies.filter(caseStudy =>
+    CASE_STUDY_FACETS.every(facet => matchesFacet(caseStudy, facet, selection[facet]))
+  );
+}
+
+/**
+ * Every value of a facet with the number of case studies using it, most used
+ * first. Each case study counts once per value slug.
+ */
+export function countFacetValues(
+  caseStudies: CaseStudySummary[],
+  facet: CaseStudyFacet,
+  locale?: string
+): FacetCount[] {
+  const counts = new Map<string, FacetCount>();
+
+  caseStudies.forEach(caseStudy => {
+    new Map(getFacetValues(caseStudy, facet).map(value => [slugify(value), value])).forEach(
+      (name, slug) => {
+        if (!slug) return;
+
+        const existing = counts.get(slug);
+        if (existing) {
+          existing.count += 1;
+        } else {
+          counts.set(slug, { name, slug, count: 1 });
+        }
+      }
+    );
+  });
+
+  return Array.from(counts.values()).sort(
+    (a, b) => b.count - a.count || a.name.localeCompare(b.name, locale)
+  );
+}
+
+/**
+ * Counts for a facet's values given the other facets' selections, so each
+ * option shows how many results choosing it would add
+ */
+export function countAvailableFacetValues(
+  caseStudies: CaseStudySummary[],
+  facet: CaseStudyFacet,
+  selection: FacetSelection,
+  locale?: string
+): FacetCount[] {
+  return countFacetValues(
+    filterCaseStudies(caseStudies, { ...selection, [facet]: [] }),
+    facet,
+    locale
+  );
+}
+
+/**
+ * Read a selection from a query string (?industry=healthcare&technology=azure)
+ */
+export function parseFacetQuery(query: string | URLSearchParams): FacetSelection {
+  const params = typeof query === 'string' ? new URLSearchParams(query) : query;
+  const selection: FacetSelection = {};
+
+  CASE_STUDY_FACETS.forEach(facet => {
+    const values = Array.from(new Set(params.getAll(facet).map(slugify).filter(Boolean)));
+    if (values.length > 0) {
+      selection[facet] = values;
+    }
+  });
+
+  return selection;
+}
+
+/**
+ * Query string for a selection, with a leading '?' (or '' when nothing is selected)
+ */
+export function facetQueryString(selection: FacetSelection): string {
+  const params = new URLSearchParams();
+
+  CASE_STUDY_FACETS.forEach(facet => {
+    (selection[facet] || []).forEach(value => params.append(facet, value));
+  });
+
+  const query = params.toString();
+  return query ? `?${query}` : '';
+}
+
+/**
+ * Select a facet value, or deselect it if already selected
+ */
+export function toggleFacetValue(
+  selection: FacetSelection,
+  facet: CaseStudyFacet,
+  slug: string
+): FacetSelection {
+  const current = selection[facet] || [];
+  const values = current.includes(slug)
+    ? current.filter(value => value !== slug)
+    : [...current, slug];
+  const next: FacetSelection = { ...selection, [facet]: values };
+
+  if (values.length === 0) {
+    delete next[facet];
+  }
+
+  return next;
+}
@@ -0,0 +1,163 @@
+import { DEFAULT_LOCALE, localizePath } from '@/lib/i18n';
+import { absolutizeHtml, absoluteUrl, SITE_CONFIG } from '@/lib/site';
+import type { Post } from '@/types';
+
+export const FEED_PATHS = {
+  rss: '/feed.xml',
+  atom: '/atom.xml',
+  json: '/feed.json',
+} as const;
+
+// Deep-link anchors appended to headings (see remark/heading-ids), which only
+// make sense on the page itself
+const HEADING_ANCHOR = /<a [^>]*?class="heading-anchor".*?>#<\/a>/g;
+
+interface FeedData {
+  posts: Post[];
+  lastModified: string;
+}
+
+/**
+ * Escape text for inclusion in XML element content or attributes
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Wrap HTML in a CDATA section, splitting any embedded terminators
+ */
+function cdata(value: string): string {
+  return `<![CDATA[${value.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+}
+
+// Feeds carry the default locale's posts and link to its pages
+function siteUrl(pathname: string): string {
+  return absoluteUrl(localizePath(pathname, DEFAULT_LOCALE));
+}
+
+function postUrl(post: Post): string {
+  return siteUrl(`/blog/${post.slug}/`);
+}
+
+// Entries are re-dated when a post is revised
+function postModified(post: Post): string {
+  return new Date(post.updated || post.date).toISOString();
+}
+
+/**
+ * HTML body for a feed entry, honoring the configured full/excerpt mode. MDX
+ * posts depend on React components, so feeds carry their excerpt instead.
+ */
+function postHtml(post: Post): string {
+  if (SITE_CONFIG.feedContent === 'excerpt' || post.format === 'mdx') {
+    return `<p>${escapeXml(post.description)}</p><p><a href="${postUrl(post)}">Read the full article</a></p>`;
+  }
+
+  return absolutizeHtml(post.content.replace(HEADING_ANCHOR, ''));
+}
+
+/**
+ * Build an RSS 2.0 feed document
+ */
+export function buildRSSFeed({ posts, lastModified }: FeedData): string {
+  const items = posts
+    .map(
+      post => `    <item>
+      <title>${escapeXml(post.title)}</title>
+      <link>${postUrl(post)}</link>
+      <guid isPermaLink="true">${postUrl(post)}</guid>
+      <pubDate>${new Date(post.date).toUTCString()}</pubDate>
+      <dc:creator>${escapeXml(post.author)}</dc:creator>
+      <description>${escapeXml(post.description)}</description>
+${post.tags.map(tag => `      <category>${escapeXml(tag)}</category>`).join('\n')}
+      <content:encoded>${cdata(postHtml(post))}</content:encoded>
+    </item>`
+    )
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel>
+    <title>${escapeXml(`${SITE_CONFIG.name} Blog`)}</title>
+    <link>${siteUrl('/blog/')}</link>
+    <description>${escapeXml(SITE_CONFIG.description)}</description>
+    <language>en-us</language>
+    <lastBuildDate>${new Date(lastModified).toUTCString()}</lastBuildDate>
+    <atom:link href="${absoluteUrl(FEED_PATHS.rss)}" rel="self" type="application/rss+xml" />
+${items}
+  </channel>
+</rss>
+`;
+}
+
+/**
+ * Build an Atom 1.0 feed document
+ */
+export function buildAtomFeed({ posts, lastModified }: FeedData): string {
+  const entries = posts
+    .map(
+      post => `  <entry>
+    <title>${escapeXml(post.title)}</title>
+    <link href="${postUrl(post)}" rel="alternate" type="text/html" />
+    <id>${postUrl(post)}</id>
+    <published>${new Date(post.date).toISOString()}</published>
+    <updated>${postModified(post)}</updated>
+    <author>
+      <name>${escapeXml(post.author)}</name>
+    </author>
+    <summary>${escapeXml(post.description)}</summary>
+${post.tags.map(tag => `    <category term="${escapeXml(tag)}" />`).join('\n')}
+    <content type="html">${escapeXml(postHtml(post))}</content>
+  </entry>`
+    )
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>${escapeXml(`${SITE_CONFIG.name} Blog`)}</title>
+  <subtitle>${escapeXml(SITE_CONFIG.description)}</subtitle>
+  <link href="${absoluteUrl(FEED_PATHS.atom)}" rel="self" type="application/atom+xml" />
+  <link href="${siteUrl('/blog/')}" rel="alternate" type="text/html" />
+  <id>${siteUrl('/blog/')}</id>
+  <updated>${new Date(lastModified).toISOString()}</updated>
+  <author>
+    <name>${escapeXml(SITE_CONFIG.author.name)}</name>
+  </author>
+${entries}
+</feed>
+`;
+}
+
+/**
+ * Build a JSON Feed 1.1 document
+ */
+export function buildJSONFeed({ posts }: FeedData): string {
+  const feed = {
+    version: 'https://jsonfeed.org/version/1.1',
+    title: `${SITE_CONFIG.name} Blog`,
+    description: SITE_CONFIG.description,
+    home_page_url: siteUrl('/blog/'),
+    feed_url: absoluteUrl(FEED_PATHS.json),
+    language: 'en-US',
+    authors: [{ name: SITE_CONFIG.author.name }],
+    items: posts.map(post => ({
+      id: postUrl(post),
+      url: postUrl(post),
+      title: post.title,
+      summary: post.description,
+      content_html: postHtml(post),
+      date_published: new Date(post.date).toISOString(),
+      date_modified: postModified(post),
+      authors: [{ name: post.author }],
+      tags: post.tags,
+    })),
+  };
+
+  return JSON.stringify(feed, null, 2);
+}
@@ -0,0 +1,45 @@
+import { format, parseISO, type Locale as DateLocale } from 'date-fns';
+import { enUS, es } from 'date-fns/locale';
+import { DEFAULT_LOCALE, getMessages } from '@/lib/i18n';
+import type { Locale } from '@/types';
+
+const DATE_LOCALES: Record<Locale, DateLocale> = { en: enUS, es };
+
+/**
+ * Format an ISO date string from content frontmatter for display in a locale
+ */
+export function formatDate(date: string, locale: Locale = DEFAULT_LOCALE): string {
+  const parsed = parseISO(date);
+
+  if (Number.isNaN(parsed.getTime())) {
+    return date;
+  }
+
+  return format(parsed, getMessages(locale).common.dateFormat, { locale: DATE_LOCALES[locale] });
+}
+
+/**
+ * Format a year and month (1-12) for archive headings in a locale
+ */
+export function formatMonth(year: number, month: number, locale: Locale = DEFAULT_LOCALE): string {
+  return format(new Date(year, month - 1, 1), getMessages(locale).common.monthFormat, {
+    locale: DATE_LOCALES[locale],
+  });
+}
+
+/**
+ * Convert a label into a URL-safe slug ("Cloud Architecture" -> "cloud-architecture").
+ * Symbols that tell technologies apart are spelled out ("C#" -> "csharp",
+ * "C++" -> "cplusplus", "Node.js" -> "node-js") so they don't collapse into one slug.
+ */
+export function slugify(value: string): string {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim()
+    .replace(/#/g, 'sharp')
+    .replace(/\+/g, 'plus')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
@@ -0,0 +1,140 @@
+import { en, type Messages, type PluralMessage } from '@/locales/en';
+import { es } from '@/locales/es';
+import type { Locale } from '@/types';
+
+/**
+ * Locales the site is published in. Every route is prefixed with its locale
+ * (/en/blog/, /es/blog/); content without a translation falls back to the
+ * default locale.
+ */
+export const LOCALES: readonly Locale[] = ['en', 'es'];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+// Shown in the language switcher, each in its own language
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  es: 'Español',
+};
+
+// Open Graph locale tags
+export const LOCALE_TAGS: Record<Locale, string> = {
+  en: 'en_US',
+  es: 'es_ES',
+};
+
+const MESSAGES: Record<Locale, Messages> = { en, es };
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (LOCALES as readonly string[]).includes(value);
+}
+
+/**
+ * UI strings for a locale
+ */
+export function getMessages(locale: Locale): Messages {
+  return MESSAGES[locale] || MESSAGES[DEFAULT_LOCALE];
+}
+
+/**
+ * Fill {placeholders} in a message; unknown placeholders are left as-is
+ */
+export function formatMessage(message: string, values: Record<string, string | number>): string {
+  return message.replace(/\{(\w+)\}/g, (match, key: string) =>
+    key in values ? String(values[key]) : match
+  );
+}
+
+/**
+ * Pick the plural form for a count and fill in {count}
+ */
+export function formatPlural(message: PluralMessage, count: number, locale: Locale): string {
+  const form = new Intl.PluralRules(locale).select(count) === 'one' ? 'one' : 'other';
+  return formatMessage(message[form], { count });
+}
+
+/**
+ * Prefix a site-relative path with its locale ('/blog/' -> '/es/blog/').
+ * Absolute URLs and fragments are returned unchanged.
+ */
+export function localizePath(pathname: string, locale: Locale): string {
+  if (!pathname.startsWith('/') || pathname.startsWith('//')) {
+    return pathname;
+  }
+
+  return `/${locale}${pathname === '/' ? '/' : pathname}`;
+}
+
+/**
+ * Split a localized path into its locale and the path without the prefix
+ */
+export function parseLocalePath(pathname: string): { locale: Locale | null; path: string } {
+  const [, first, ...rest] = pathname.split('/');
+
+  if (!isLocale(first)) {
+    return { locale: null, path: pathname };
+  }
+
+  return { locale: first, path: `/${rest.join('/')}` };
+}
+
+/**
+ * The same page in another locale, for the language switcher
+ */
+export function switchLocalePath(pathname: string, locale: Locale): string {
+  return localizePath(parseLocalePath(pathname).path, locale);
+}
+
+/**
+ * hreflang alternates for a page in the given locales (all of them by
+ * default). x-default points at the default locale, or the first available.
+ */
+export function localeAlternates(
+  pathname: string,
+  locales: readonly Locale[] = LOCALES
+): Record<string, string> {
+  const languages: Record<string, string> = {};
+
+  locales.forEach(locale => {
+    languages[locale] = localizePath(pathname, locale);
+  });
+
+  if (locales.length > 0) {
+    const fallback = locales.includes(DEFAULT_LOCALE) ? DEFAULT_LOCALE : locales[0];
+    languages['x-default'] = localizePath(pathname, fallback);
+  }
+
+  return languages;
+}
+
+/**
+ * canonical and hreflang alternates for a content item written in
+ * contentLocale and translated into locales. Pages showing the default-locale
+ * fallback point their canonical at the original, so only real translations
+ * are indexed.
+ */
+export function contentAlternates(
+  pathname: string,
+  contentLocale: Locale,
+  locales: readonly Locale[],
+  canonicalUrl?: string
+): { canonical: string; languages: Record<string, string> } {
+  return {
+    canonical: canonicalUrl || localizePath(pathname, contentLocale),
+    languages: localeAlternates(pathname, locales),
+  };
+}
+
+/**
+ * Split a content filename's locale suffix from its slug: 'post.es' is the
+ * Spanish translation of 'post'; a suffix that isn't a locale is part of the slug
+ */
+export function parseLocalizedSlug(basename: string): { slug: string; locale: Locale } {
+  const match = basename.match(/^(.+)\.([a-z]{2})$/);
+
+  if (match && isLocale(match[2])) {
+    return { slug: match[1], locale: match[2] };
+  }
+
+  return { slug: basename, locale: DEFAULT_LOCALE };
+}
@@ -0,0 +1,112 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import { isInContentDirectory } from '@/lib/content-schema';
+import { slugify } from '@/lib/format';
+
+/**
+ * Responsive variants for images referenced from content files. Variants are
+ * written under public/ (git-ignored) so the static export copies them.
+ */
+
+export const CONTENT_IMAGES_DIR = path.join(process.cwd(), 'public', 'content-images');
+export const CONTENT_IMAGES_URL = '/content-images';
+
+// Widths generated for each raster image, capped at the source width
+const VARIANT_WIDTHS = [640, 960, 1280, 1920];
+
+// Modern formats offered through <picture>, best first
+const VARIANT_FORMATS = ['avif', 'webp'] as const;
+
+// Formats copied as-is: vectors and animations don't benefit from resizing
+const PASSTHROUGH_EXTENSIONS = ['.svg', '.gif'];
+
+export interface ContentImageSource {
+  type: string;
+  srcset: string;
+}
+
+export interface ContentImage {
+  // The original file, as the <img> fallback
+  src: string;
+  width: number;
+  height: number;
+  sources: ContentImageSource[];
+}
+
+// Each image is processed once per build, even when several files reference it
+const processed = new Map<string, Promise<ContentImage>>();
+
+function writeIfMissing(filePath: string, write: () => Promise<unknown>): Promise<unknown> {
+  return fs.existsSync(filePath) ? Promise.resolve() : write();
+}
+
+async function generateContentImage(sourcePath: string): Promise<ContentImage> {
+  const buffer = fs.readFileSync(sourcePath);
+  const extension = path.extname(sourcePath).toLowerCase();
+  // Content hashes keep URLs stable across builds and bust caches when the image changes
+  const hash = crypto.createHash('sha1').update(buffer).digest('hex').slice(0, 10);
+  const baseName = `${slugify(path.basename(sourcePath, extension)) || 'image'}-${hash}`;
+
+  fs.mkdirSync(CONTENT_IMAGES_DIR, { recursive: true });
+
+  const originalName = `${baseName}${extension}`;
+  await writeIfMissing(path.join(CONTENT_IMAGES_DIR, originalName), () =>
+    fs.promises.writeFile(path.join(CONTENT_IMAGES_DIR, originalName), buffer)
+  );
+
+  const { width = 0, height = 0 } = await sharp(buffer).metadata();
+  const image: ContentImage = {
+    src: `${CONTENT_IMAGES_URL}/${originalName}`,
+    width,
+    height,
+    sources: [],
+  };
+
+  if (PASSTHROUGH_EXTENSIONS.includes(extension) || width === 0) {
+    return image;
+  }
+
+  const widths = VARIANT_WIDTHS.filter(variantWidth => variantWidth < width).concat(
+    Math.min(width, VARIANT_WIDTHS[VARIANT_WIDTHS.length - 1])
+  );
+
+  for (const format of VARIANT_FORMATS) {
+    const srcset = await Promise.all(
+      widths.map(async variantWidth => {
+        const name = `${baseName}-${variantWidth}.${format}`;
+        await writeIfMissing(path.join(CONTENT_IMAGES_DIR, name), () =>
+          sharp(buffer)
+            .resize({ width: variantWidth, withoutEnlargement: true })
+            .toFormat(format)
+            .toFile(path.join(CONTENT_IMAGES_DIR, name))
+        );
+        return `${CONTENT_IMAGES_URL}/${name} ${variantWidth}w`;
+      })
+    );
+
+    image.sources.push({ type: `image/${format}`, srcset: srcset.join(', ') });
+  }
+
+  return image;
+}
+
+/**
+ * Copy a content image into the export and generate its responsive variants
+ */
+export function processContentImage(sourcePath: string): Promise<ContentImage> {
+  if (!isInContentDirectory(sourcePath)) {
+    return Promise.reject(new Error(`${sourcePath} is outside the content directory`));
+  }
+
+  const cached = processed.get(sourcePath);
+  if (cached) {
+    return cached;
+  }
+
+  const result = generateContentImage(sourcePath);
+  processed.set(sourcePath, result);
+  result.catch(() => processed.delete(sourcePath));
+  return result;
+}
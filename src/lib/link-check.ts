@@ -0,0 +1,263 @@
+import fs from 'fs';
+import path from 'path';
+import { SITE_CONFIG } from '@/lib/site';
+
+/**
+ * Offline checker for the exported site. Every internal link, #anchor, asset,
+ * canonical URL and og:image in the generated HTML must resolve to a file in
+ * the output directory (and anchors to an id on the target page).
+ */
+
+export type ReferenceKind = 'link' | 'asset' | 'canonical' | 'og:image';
+
+export interface PageReference {
+  kind: ReferenceKind;
+  url: string;
+}
+
+export interface ParsedPage {
+  ids: Set<string>;
+  references: PageReference[];
+}
+
+export interface BrokenReference {
+  // Output file the reference appears in, relative to the output directory
+  page: string;
+  kind: ReferenceKind;
+  url: string;
+  message: string;
+}
+
+// Output files keyed by their path relative to the output directory (with
+// forward slashes); HTML files carry their markup, other files null
+export type SiteFiles = Map<string, string | null>;
+
+// Opening tags with their attribute text
+const TAG_REGEX = /<([a-z][a-z0-9-]*)(\s[^>]*)?>/gi;
+const ATTRIBUTE_REGEX = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+// Script, style and comment bodies can contain markup-like text that isn't markup
+const RAW_TEXT_REGEX = /<(script|style)\b[^>]*>[\s\S]*?<\/\1>|<!--[\s\S]*?-->/gi;
+
+const ASSET_ATTRIBUTES: Record<string, string[]> = {
+  img: ['src', 'srcset'],
+  source: ['src', 'srcset'],
+  script: ['src'],
+  video: ['src', 'poster'],
+  audio: ['src'],
+  iframe: ['src'],
+};
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&#x27;|&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+function parseAttributes(text: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+
+  for (const match of Array.from(text.matchAll(ATTRIBUTE_REGEX))) {
+    const value = match[2] ?? match[3] ?? match[4] ?? '';
+    attributes[match[1].toLowerCase()] = decodeEntities(value);
+  }
+
+  return attributes;
+}
+
+// URLs in a srcset: "a.avif 640w, b.avif 1280w"
+function srcsetUrls(srcset: string): string[] {
+  return srcset
+    .split(',')
+    .map(candidate => candidate.trim().split(/\s+/)[0])
+    .filter(Boolean);
+}
+
+/**
+ * Collect the element ids and outgoing references of an HTML page
+ */
+export function parsePage(html: string): ParsedPage {
+  const ids = new Set<string>();
+  const references: PageReference[] = [];
+  // Keep the tags of scripts (for src) but drop their bodies
+  const markup = html.replace(RAW_TEXT_REGEX, match =>
+    match.startsWith('<!--') ? '' : match.replace(/>[\s\S]*$/, '>')
+  );
+
+  for (const [, rawTag, attributeText = ''] of Array.from(markup.matchAll(TAG_REGEX))) {
+    const tag = rawTag.toLowerCase();
+    const attributes = parseAttributes(attributeText);
+
+    if (attributes.id) {
+      ids.add(attributes.id);
+    }
+    if (tag === 'a' && attributes.name) {
+      ids.add(attributes.name);
+    }
+
+    if (tag === 'a' && attributes.href !== undefined) {
+      references.push({ kind: 'link', url: attributes.href });
+    } else if (tag === 'link' && attributes.href !== undefined) {
+      const rel = (attributes.rel || '').toLowerCase().split(/\s+/);
+      // dns-prefetch and preconnect name origins, not resources
+      if (rel.includes('canonical')) {
+        references.push({ kind: 'canonical', url: attributes.href });
+      } else if (!rel.includes('dns-prefetch') && !rel.includes('preconnect')) {
+        references.push({ kind: 'asset', url: attributes.href });
+      }
+    } else if (tag === 'meta') {
+      const property = (attributes.property || attributes.name || '').toLowerCase();
+      if ((property === 'og:image' || property === 'twitter:image') && attributes.content) {
+        references.push({ kind: 'og:image', url: attributes.content });
+      }
+    } else if (ASSET_ATTRIBUTES[tag]) {
+      ASSET_ATTRIBUTES[tag].forEach(attribute => {
+        const value = attributes[attribute];
+        if (!value) {
+          return;
+        }
+        const urls = attribute === 'srcset' ? srcsetUrls(value) : [value];
+        urls.forEach(url => references.push({ kind: 'asset', url }));
+      });
+    }
+  }
+
+  return { ids, references };
+}
+
+/**
+ * Resolve a reference against the page it appears on. Returns null for
+ * references the crawler can't follow: other origins, mailto: and similar
+ * schemes. URLs on the site's own origin are treated as internal.
+ */
+export function resolveReference(
+  url: string,
+  page: string,
+  siteUrl: string = SITE_CONFIG.url
+): { pathname: string; hash: string } | null {
+  const origin = new URL(siteUrl).origin;
+  const base = new URL(`/${page}`, origin);
+  let resolved: URL;
+
+  try {
+    resolved = new URL(url.trim(), base);
+  } catch {
+    return null;
+  }
+
+  if (resolved.origin !== origin) {
+    return null;
+  }
+
+  return {
+    pathname: safeDecode(resolved.pathname),
+    hash: safeDecode(resolved.hash.slice(1)),
+  };
+}
+
+/**
+ * The output file a URL path is served from, following the static host's
+ * rules: directories serve index.html and extensionless paths try .html
+ */
+export function findTarget(pathname: string, files: SiteFiles): string | null {
+  const file = pathname.replace(/^\/+/, '');
+  const candidates = pathname.endsWith('/')
+    ? [`${file}index.html`]
+    : [file, `${file}.html`, `${file}/index.html`];
+
+  return candidates.find(candidate => files.has(candidate)) ?? null;
+}
+
+/**
+ * Check every reference on every HTML page in the site
+ */
+export function checkLinks(files: SiteFiles, siteUrl: string = SITE_CONFIG.url): BrokenReference[] {
+  const broken: BrokenReference[] = [];
+  const parsed = new Map<string, ParsedPage>();
+
+  const parse = (file: string): ParsedPage => {
+    let page = parsed.get(file);
+    if (!page) {
+      page = parsePage(files.get(file) || '');
+      parsed.set(file, page);
+    }
+    return page;
+  };
+
+  Array.from(files.entries())
+    .filter(([, html]) => html !== null)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .forEach(([page]) => {
+      parse(page).references.forEach(({ kind, url }) => {
+        const resolved = resolveReference(url, page, siteUrl);
+        if (!resolved) {
+          return;
+        }
+
+        const target = findTarget(resolved.pathname, files);
+        if (!target) {
+          broken.push({ page, kind, url, message: 'does not exist' });
+          return;
+        }
+
+        if (resolved.hash && files.get(target) !== null && !parse(target).ids.has(resolved.hash)) {
+          broken.push({
+            page,
+            kind,
+            url,
+            message: `has no matching id on ${target}`,
+          });
+        }
+      });
+    });
+
+  return broken;
+}
+
+/**
+ * Read every file under the output directory
+ */
+export function collectSiteFiles(outDir: string): SiteFiles {
+  const files: SiteFiles = new Map();
+
+  const walk = (directory: string) => {
+    fs.readdirSync(directory, { withFileTypes: true }).forEach(entry => {
+      const fullPath = path.join(directory, entry.name);
+
+      if (entry.isDirectory()) {
+        walk(fullPath);
+        return;
+      }
+
+      const relativePath = path.relative(outDir, fullPath).split(path.sep).join('/');
+      files.set(
+        relativePath,
+        entry.name.endsWith('.html') ? fs.readFileSync(fullPath, 'utf-8') : null
+      );
+    });
+  };
+
+  walk(outDir);
+  return files;
+}
+
+/**
+ * One line per broken reference, prefixed with the page it appears on
+ */
+export function formatBrokenReferences(broken: BrokenReference[]): string {
+  return broken
+    .map(
+      reference => `${reference.page}: ${reference.kind} "${reference.url}" ${reference.message}`
+    )
+    .join('\n');
+}
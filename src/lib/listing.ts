@@ -0,0 +1,122 @@
+import type { Paginated } from '@/types';
+
+/**
+ * Pagination and date-archive helpers for post listings. Page 1 of a listing
+ * lives at its base path (/blog/), later pages under it (/blog/page/2/).
+ */
+
+export const POSTS_PER_PAGE = 10;
+
+/**
+ * Number of pages needed for a listing; an empty listing still has page 1
+ */
+export function getPageCount(totalItems: number, pageSize: number = POSTS_PER_PAGE): number {
+  return Math.max(1, Math.ceil(totalItems / pageSize));
+}
+
+/**
+ * Slice one page out of a listing, with the totals pagination controls need.
+ * Pages past the end come back empty.
+ */
+export function paginate<T>(
+  items: T[],
+  page: number,
+  pageSize: number = POSTS_PER_PAGE
+): Paginated<T> {
+  const start = (page - 1) * pageSize;
+
+  return {
+    items: page >= 1 ? items.slice(start, start + pageSize) : [],
+    page,
+    pageSize,
+    totalItems: items.length,
+    totalPages: getPageCount(items.length, pageSize),
+  };
+}
+
+/**
+ * Path of a page within a listing ('/blog/', 2 -> '/blog/page/2/')
+ */
+export function pagePath(basePath: string, page: number): string {
+  return page <= 1 ? basePath : `${basePath}page/${page}/`;
+}
+
+/**
+ * Page numbers 2..totalPages, the ones that get their own route
+ */
+export function getExtraPages(totalPages: number): number[] {
+  return Array.from({ length: Math.max(0, totalPages - 1) }, (_, index) => index + 2);
+}
+
+/**
+ * Parse a page number route segment; only canonical numbers from 2 up are
+ * valid (page 1 is the listing's base path)
+ */
+export function parsePageNumber(segment: string): number | null {
+  return /^[1-9]\d*$/.test(segment) && Number(segment) >= 2 ? Number(segment) : null;
+}
+
+export interface ArchivePeriod {
+  year: number;
+  // 1-12; absent for a whole-year archive
+  month?: number;
+}
+
+/**
+ * Path of a year or month archive ('/blog/archive/2024/03/')
+ */
+export function archivePath({ year, month }: ArchivePeriod): string {
+  return month
+    ? `/blog/archive/${year}/${String(month).padStart(2, '0')}/`
+    : `/blog/archive/${year}/`;
+}
+
+/**
+ * Route segments of an archive page, e.g. ['2024'], ['2024', '03'] or
+ * ['2024', '03', 'page', '2']
+ */
+export function archiveSegments(period: ArchivePeriod, page: number = 1): string[] {
+  const segments = archivePath(period).split('/').filter(Boolean).slice(2);
+  return page > 1 ? [...segments, 'page', String(page)] : segments;
+}
+
+/**
+ * Parse archive route segments back into a period and page number
+ */
+export function parseArchiveSegments(
+  segments: string[]
+): { period: ArchivePeriod; page: number } | null {
+  let rest = segments;
+  let page = 1;
+
+  if (rest.length >= 3 && rest[rest.length - 2] === 'page') {
+    const parsed = parsePageNumber(rest[rest.length - 1]);
+    if (!parsed) return null;
+    page = parsed;
+    rest = rest.slice(0, -2);
+  }
+
+  const [year, month, ...extra] = rest;
+
+  if (!year || !/^\d{4}$/.test(year) || extra.length > 0) {
+    return null;
+  }
+
+  if (month === undefined) {
+    return { period: { year: Number(year) }, page };
+  }
+
+  if (!/^(0[1-9]|1[0-2])$/.test(month)) {
+    return null;
+  }
+
+  return { period: { year: Number(year), month: Number(month) }, page };
+}
+
+/**
+ * Year and month of an ISO date string, read from the string itself so
+ * time zones can't move a post into the neighbouring month
+ */
+export function getDatePeriod(date: string): Required<ArchivePeriod> {
+  return { year: Number(date.slice(0, 4)), month: Number(date.slice(5, 7)) };
+}
@@ -0,0 +1,129 @@
+import { unified, type PluggableList } from 'unified';
+import remarkParse from 'remark-parse';
+import remarkGfm from 'remark-gfm';
+import remarkRehype from 'remark-rehype';
+import rehypeStringify from 'rehype-stringify';
+import rehypePrettyCode, { type Options as PrettyCodeOptions } from 'rehype-pretty-code';
+import type { MDXRemoteProps } from 'next-mdx-remote/rsc';
+import { rehypeCodeBlocks } from '@/lib/rehype/code-blocks';
+import { rehypeContentImages } from '@/lib/rehype/content-images';
+import { rehypeSanitizeMdx } from '@/lib/rehype/sanitize-mdx';
+import { DEFAULT_LOCALE, formatMessage, getMessages } from '@/lib/i18n';
+import { assignHeadingIds, remarkHeadingIds } from '@/lib/remark/heading-ids';
+import { sanitizeHtml, type SanitizePolicy } from '@/lib/sanitize';
+import { buildToc } from '@/lib/toc';
+import type { Locale, TocEntry } from '@/types';
+
+/**
+ * Build-time syntax highlighting. Fenced code meta controls the extras:
+ * ```ts title="main.ts" {1,3-4}
+ */
+const prettyCodeOptions: PrettyCodeOptions = {
+  theme: 'github-light',
+  keepBackground: false,
+  defaultLang: { block: 'plaintext' },
+};
+
+// Heading anchors and code block toolbars are labelled in the content's language
+function getRemarkPlugins(locale: Locale): PluggableList {
+  const { headingAnchor } = getMessages(locale).content;
+  return [
+    remarkGfm,
+    [remarkHeadingIds, { anchorLabel: (title: string) => formatMessage(headingAnchor, { title }) }],
+  ];
+}
+
+function getRehypePlugins(locale: Locale): PluggableList {
+  return [
+    [rehypePrettyCode, prettyCodeOptions],
+    [rehypeCodeBlocks, getMessages(locale).content],
+  ];
+}
+
+/**
+ * Markdown processor configuration. Relative images are only resolved here: MDX
+ * is compiled without a file path, so it references images under public/.
+ */
+function createProcessor(locale: Locale) {
+  return unified()
+    .use(remarkParse)
+    .use(getRemarkPlugins(locale)) // GitHub Flavored Markdown
+    .use(remarkRehype, { allowDangerousHtml: true }) // Allow HTML for rich content
+    .use(getRehypePlugins(locale))
+    .use(rehypeContentImages)
+    .use(rehypeStringify, { allowDangerousHtml: true });
+}
+
+const processors = new Map<Locale, ReturnType<typeof createProcessor>>();
+
+// Parser for reading headings out of MDX source, which is compiled at render time
+const headingParser = unified().use(remarkParse).use(remarkGfm);
+
+export interface RenderedMarkdown {
+  html: string;
+  toc: TocEntry[];
+  // What the sanitizer stripped, for build warnings
+  removed: string[];
+  // Relative image references that can't be resolved, as messages
+  imageIssues: string[];
+}
+
+export interface ProcessMarkdownOptions {
+  policy: SanitizePolicy;
+  // Source file, for resolving relative image references
+  filePath?: string;
+  // Language of the content, for generated UI such as code block toolbars
+  locale?: Locale;
+}
+
+/**
+ * MDX compiler options, kept in step with the markdown processor so both
+ * formats support the same syntax. The output is sanitized with the same
+ * policy as markdown; `components` are the registered MDX component names.
+ */
+export function getMdxOptions(
+  locale: Locale,
+  policy: SanitizePolicy,
+  components: string[]
+): NonNullable<MDXRemoteProps['options']>['mdxOptions'] {
+  return {
+    remarkPlugins: getRemarkPlugins(locale),
+    rehypePlugins: [...getRehypePlugins(locale), [rehypeSanitizeMdx, { policy, components }]],
+  };
+}
+
+/**
+ * Process markdown content into sanitized HTML and its table of contents
+ */
+export async function processMarkdown(
+  content: string,
+  { policy, filePath, locale = DEFAULT_LOCALE }: ProcessMarkdownOptions
+): Promise<RenderedMarkdown> {
+  let processor = processors.get(locale);
+  if (!processor) {
+    processor = createProcessor(locale);
+    processors.set(locale, processor);
+  }
+
+  const result = await processor.process({ value: content, path: filePath });
+  const { html, removed } = sanitizeHtml(
+    result.toString(),
+    policy,
+    (result.data.headingIds as string[]) || []
+  );
+
+  return {
+    html,
+    toc: (result.data.toc as TocEntry[]) || [],
+    removed,
+    imageIssues: (result.data.imageIssues as string[]) || [],
+  };
+}
+
+/**
+ * Build the table of contents for source that isn't rendered here (MDX). Ids
+ * match the ones the MDX compile assigns, since both use remarkHeadingIds.
+ */
+export function extractToc(content: string): TocEntry[] {
+  return buildToc(assignHeadingIds(headingParser.parse(content)));
+}
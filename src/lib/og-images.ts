@@ -0,0 +1,243 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import { slugify } from '@/lib/format';
+import { getMessages } from '@/lib/i18n';
+import { SITE_CONFIG } from '@/lib/site';
+import type { CaseStudy, Locale, Page, Post } from '@/types';
+
+/**
+ * Branded Open Graph cards, rendered from SVG to PNG at build time. Cards are
+ * written under public/ (git-ignored) so the static export copies them.
+ */
+
+export const OG_IMAGES_DIR = path.join(process.cwd(), 'public', 'og');
+export const OG_IMAGES_URL = '/og';
+
+export const OG_IMAGE_SIZE = { width: 1200, height: 630 } as const;
+
+export interface OgCard {
+  title: string;
+  // Small heading above the title, e.g. the section
+  eyebrow?: string;
+  tags?: string[];
+  author?: string;
+  // Headline result, shown beside the title on case study cards
+  metric?: { value: string; label: string };
+}
+
+export interface OgImage {
+  url: string;
+  width: number;
+  height: number;
+  alt: string;
+}
+
+const COLORS = {
+  backgroundFrom: '#172554',
+  backgroundTo: '#1d4ed8',
+  text: '#ffffff',
+  muted: '#bfdbfe',
+  accent: '#93c5fd',
+  chip: 'rgba(255, 255, 255, 0.14)',
+};
+
+const FONT_FAMILY = 'Inter, Helvetica, Arial, sans-serif';
+const MARGIN = 80;
+const TITLE_FONT_SIZE = 60;
+const TITLE_LINE_HEIGHT = 72;
+const MAX_TITLE_LINES = 3;
+const MAX_TAGS = 4;
+
+// Each card is rendered once per build, even when metadata is generated twice
+const rendered = new Map<string, Promise<string>>();
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Break text into lines of at most maxChars, ending the last line with an
+ * ellipsis when the text needs more than maxLines. Words longer than a line
+ * are kept whole.
+ */
+export function wrapText(text: string, maxChars: number, maxLines: number): string[] {
+  const lines: string[] = [];
+
+  text
+    .split(/\s+/)
+    .filter(Boolean)
+    .forEach(word => {
+      const current = lines[lines.length - 1];
+      if (current !== undefined && `${current} ${word}`.length <= maxChars) {
+        lines[lines.length - 1] = `${current} ${word}`;
+      } else {
+        lines.push(word);
+      }
+    });
+
+  if (lines.length <= maxLines) {
+    return lines;
+  }
+
+  const kept = lines.slice(0, maxLines);
+  const last = kept[maxLines - 1];
+  kept[maxLines - 1] = `${last.length < maxChars ? last : last.slice(0, maxChars - 1).trimEnd()}…`;
+  return kept;
+}
+
+function text(
+  content: string,
+  x: number,
+  y: number,
+  size: number,
+  fill: string,
+  extra: string = ''
+): string {
+  return `<text x="${x}" y="${y}" font-family="${FONT_FAMILY}" font-size="${size}" fill="${fill}"${extra}>${escapeXml(content)}</text>`;
+}
+
+/**
+ * SVG markup for a card: site name, eyebrow, wrapped title, tag chips, author
+ * and, for case studies, the headline metric
+ */
+export function renderOgCardSvg(card: OgCard): string {
+  const { width, height } = OG_IMAGE_SIZE;
+  const parts: string[] = [];
+
+  parts.push(text(SITE_CONFIG.name, MARGIN, 110, 30, COLORS.text, ' font-weight="700"'));
+
+  if (card.eyebrow) {
+    parts.push(
+      text(card.eyebrow.toUpperCase(), MARGIN, 170, 24, COLORS.accent, ' letter-spacing="2"')
+    );
+  }
+
+  // Roughly 0.55em per character at this size; the metric panel narrows the title
+  const maxChars = card.metric ? 21 : 31;
+  wrapText(card.title, maxChars, MAX_TITLE_LINES).forEach((line, index) => {
+    parts.push(
+      text(
+        line,
+        MARGIN,
+        250 + index * TITLE_LINE_HEIGHT,
+        TITLE_FONT_SIZE,
+        COLORS.text,
+        ' font-weight="700"'
+      )
+    );
+  });
+
+  let chipX = MARGIN;
+  (card.tags || []).slice(0, MAX_TAGS).forEach(tag => {
+    const chipWidth = Math.round(tag.length * 12.5) + 40;
+    if (chipX + chipWidth > width - MARGIN) {
+      return;
+    }
+    parts.push(
+      `<rect x="${chipX}" y="462" width="${chipWidth}" height="44" rx="22" fill="${COLORS.chip}"/>`,
+      text(tag, chipX + 20, 492, 22, COLORS.muted)
+    );
+    chipX += chipWidth + 12;
+  });
+
+  if (card.author) {
+    parts.push(text(card.author, MARGIN, 570, 26, COLORS.muted));
+  }
+
+  if (card.metric) {
+    const panelX = 800;
+    parts.push(
+      `<rect x="${panelX}" y="190" width="${width - MARGIN - panelX}" height="230" rx="24" fill="${COLORS.chip}"/>`,
+      text(card.metric.value, panelX + 30, 300, 72, COLORS.text, ' font-weight="700"'),
+      ...wrapText(card.metric.label, 18, 2).map((line, index) =>
+        text(line, panelX + 30, 350 + index * 32, 26, COLORS.muted)
+      )
+    );
+  }
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+<defs><linearGradient id="background" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="${COLORS.backgroundFrom}"/><stop offset="1" stop-color="${COLORS.backgroundTo}"/></linearGradient></defs>
+<rect width="${width}" height="${height}" fill="url(#background)"/>
+${parts.join('\n')}
+</svg>`;
+}
+
+async function writeOgImage(name: string, svg: string): Promise<string> {
+  // Content hashes bust social network caches when a card changes
+  const hash = crypto.createHash('sha1').update(svg).digest('hex').slice(0, 10);
+  const fileName = `${slugify(name) || 'card'}-${hash}.png`;
+  const filePath = path.join(OG_IMAGES_DIR, fileName);
+
+  if (!fs.existsSync(filePath)) {
+    fs.mkdirSync(OG_IMAGES_DIR, { recursive: true });
+    await sharp(Buffer.from(svg)).png().toFile(filePath);
+  }
+
+  return `${OG_IMAGES_URL}/${fileName}`;
+}
+
+/**
+ * Render a card to a PNG under public/og/ and describe it for metadata
+ */
+export async function generateOgImage(name: string, card: OgCard): Promise<OgImage> {
+  const svg = renderOgCardSvg(card);
+  let url = rendered.get(svg);
+
+  if (!url) {
+    url = writeOgImage(name, svg);
+    rendered.set(svg, url);
+    url.catch(() => rendered.delete(svg));
+  }
+
+  return { url: await url, ...OG_IMAGE_SIZE, alt: card.title };
+}
+
+/**
+ * Site-wide card, for pages without one of their own
+ */
+export async function getSiteOgImage(locale: Locale): Promise<OgImage> {
+  const t = getMessages(locale).meta;
+  const image = await generateOgImage(`site-${locale}`, { title: t.ogCardTagline });
+  return { ...image, alt: t.ogImageAlt };
+}
+
+/**
+ * Post card: section, title, tags and byline
+ */
+export function getPostOgImage(post: Post, locale: Locale): Promise<OgImage> {
+  return generateOgImage(`post-${post.slug}-${locale}`, {
+    title: post.title,
+    eyebrow: getMessages(locale).nav.blog,
+    tags: post.tags,
+    author: post.author,
+  });
+}
+
+/**
+ * Case study card, with its first result as the headline metric
+ */
+export function getCaseStudyOgImage(caseStudy: CaseStudy, locale: Locale): Promise<OgImage> {
+  const [result] = caseStudy.results;
+
+  return generateOgImage(`case-study-${caseStudy.slug}-${locale}`, {
+    title: caseStudy.title,
+    eyebrow: getMessages(locale).nav.caseStudies,
+    tags: caseStudy.tags,
+    author: caseStudy.author,
+    metric: result ? { value: result.value, label: result.metric } : undefined,
+  });
+}
+
+/**
+ * Page card: the title alone
+ */
+export function getPageOgImage(page: Page, locale: Locale): Promise<OgImage> {
+  return generateOgImage(`page-${page.slug}-${locale}`, { title: page.title });
+}
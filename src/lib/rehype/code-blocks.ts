@@ -0,0 +1,90 @@
+import { visit } from 'unist-util-visit';
+import type { Element, Root } from 'hast';
+
+// Languages shown under a friendlier label than their shiki id
+const LANGUAGE_LABELS: Record<string, string> = {
+  hcl: 'HCL',
+  js: 'JavaScript',
+  javascript: 'JavaScript',
+  json: 'JSON',
+  plaintext: 'Text',
+  sh: 'Shell',
+  shell: 'Shell',
+  bash: 'Bash',
+  terraform: 'Terraform',
+  tf: 'Terraform',
+  ts: 'TypeScript',
+  tsx: 'TSX',
+  typescript: 'TypeScript',
+  yaml: 'YAML',
+  yml: 'YAML',
+};
+
+function languageLabel(language: string): string {
+  return LANGUAGE_LABELS[language] || language.toUpperCase();
+}
+
+export interface CodeBlockLabels {
+  copy: string;
+  copied: string;
+  copyFailed: string;
+  copyLabel: string;
+}
+
+const DEFAULT_LABELS: CodeBlockLabels = {
+  copy: 'Copy',
+  copied: 'Copied',
+  copyFailed: 'Failed',
+  copyLabel: 'Copy code to clipboard',
+};
+
+/**
+ * Adds a toolbar with the language label and a copy button to every code
+ * figure produced by rehype-pretty-code. The button is inert markup; the
+ * CopyCodeListener component handles clicks, reading its feedback text from
+ * the button so labels stay in the content's language.
+ */
+export function rehypeCodeBlocks(labels: CodeBlockLabels = DEFAULT_LABELS) {
+  return (tree: Root) => {
+    visit(tree, 'element', (node: Element) => {
+      if (node.tagName !== 'figure' || !('data-rehype-pretty-code-figure' in node.properties)) {
+        return;
+      }
+
+      const pre = node.children.find(
+        (child): child is Element => child.type === 'element' && child.tagName === 'pre'
+      );
+      if (!pre) return;
+
+      const language = String(pre.properties['data-language'] || 'plaintext');
+      const toolbar: Element = {
+        type: 'element',
+        tagName: 'div',
+        properties: { className: ['code-block-toolbar'] },
+        children: [
+          {
+            type: 'element',
+            tagName: 'span',
+            properties: { className: ['code-block-language'] },
+            children: [{ type: 'text', value: languageLabel(language) }],
+          },
+          {
+            type: 'element',
+            tagName: 'button',
+            properties: {
+              type: 'button',
+              className: ['code-block-copy'],
+              dataCopyCode: '',
+              dataCopied: labels.copied,
+              dataCopyFailed: labels.copyFailed,
+              ariaLabel: labels.copyLabel,
+            },
+            children: [{ type: 'text', value: labels.copy }],
+          },
+        ],
+      };
+
+      node.children.splice(node.children.indexOf(pre), 0, toolbar);
+    });
+  };
+}
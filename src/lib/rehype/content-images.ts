@@ -0,0 +1,83 @@
+import path from 'path';
+import { visit } from 'unist-util-visit';
+import type { Element, Root } from 'hast';
+import type { Transformer } from 'unified';
+import { checkImageReference } from '@/lib/content-schema';
+import { processContentImage } from '@/lib/images';
+import { isRelativeUrl } from '@/lib/site';
+
+// Matches the prose column; browsers pick the smallest variant that fills it
+const IMAGE_SIZES = '(min-width: 768px) 768px, 100vw';
+
+/**
+ * Resolves images referenced relative to the markdown file, replacing each
+ * <img> with a <picture> of responsive AVIF/WebP variants and intrinsic
+ * dimensions. References to missing files, or to files outside the content
+ * directory, are left alone and listed on file.data.imageIssues.
+ */
+export function rehypeContentImages(): Transformer<Root> {
+  return async (tree, file) => {
+    const imageIssues: string[] = [];
+    file.data.imageIssues = imageIssues;
+
+    // Without a source path there's nothing to resolve relative references against
+    if (!file.path) return;
+
+    const images: { node: Element; sourcePath: string; src: string }[] = [];
+
+    visit(tree, 'element', (node: Element) => {
+      const src = node.tagName === 'img' ? String(node.properties.src || '') : '';
+      if (!src || !isRelativeUrl(src)) return;
+
+      const issue = checkImageReference(file.path, src);
+      if (issue) {
+        imageIssues.push(issue);
+      } else {
+        images.push({
+          node,
+          sourcePath: path.resolve(path.dirname(file.path), decodeURI(src)),
+          src,
+        });
+      }
+    });
+
+    await Promise.all(
+      images.map(async ({ node, sourcePath }) => {
+        const image = await processContentImage(sourcePath);
+        const img: Element = {
+          type: 'element',
+          tagName: 'img',
+          properties: {
+            ...node.properties,
+            src: image.src,
+            width: image.width,
+            height: image.height,
+            loading: 'lazy',
+            decoding: 'async',
+          },
+          children: [],
+        };
+
+        if (image.sources.length === 0) {
+          node.properties = img.properties;
+          return;
+        }
+
+        // Turn the <img> into a <picture> in place so its position in the tree is kept
+        node.tagName = 'picture';
+        node.properties = {};
+        node.children = [
+          ...image.sources.map(
+            (source): Element => ({
+              type: 'element',
+              tagName: 'source',
+              properties: { type: source.type, srcSet: source.srcset, sizes: IMAGE_SIZES },
+              children: [],
+            })
+          ),
+          img,
+        ];
+      })
+    );
+  };
+}
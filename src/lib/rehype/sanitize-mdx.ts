@@ -0,0 +1,122 @@
+import type { Root, RootContent } from 'hast';
+import type { Transformer } from 'unified';
+import { sanitizeElement, type SanitizedElement, type SanitizePolicy } from '@/lib/sanitize';
+
+export interface SanitizeMdxOptions {
+  policy: SanitizePolicy;
+  // Registered MDX components, which render their own markup
+  components: string[];
+}
+
+// JSX elements as MDX adds them to hast (see mdast-util-mdx-jsx)
+interface MdxJsxElement {
+  type: 'mdxJsxFlowElement' | 'mdxJsxTextElement';
+  name: string | null;
+  attributes: { type: string; name?: string; value?: unknown }[];
+  children: RootContent[];
+}
+
+type SanitizableNode = RootContent | MdxJsxElement;
+
+function isMdxJsxElement(node: SanitizableNode): node is MdxJsxElement {
+  return node.type === 'mdxJsxFlowElement' || node.type === 'mdxJsxTextElement';
+}
+
+// hast and JSX property names as HTML attributes ("className" -> "class", "dataLine" -> "data-line")
+function toAttributeName(name: string): string {
+  if (name === 'className') return 'class';
+  if (name === 'htmlFor') return 'for';
+  if (/^(data|aria)[A-Z]/.test(name)) {
+    return name.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`);
+  }
+  return name.toLowerCase();
+}
+
+// Null for values that don't render an attribute at all
+function toAttributeValue(value: unknown): string | null {
+  if (value === undefined || value === false) return null;
+  if (value === null || value === true) return '';
+  return Array.isArray(value) ? value.join(' ') : String(value);
+}
+
+/**
+ * Applies a sanitize policy to compiled MDX, which is rendered straight to
+ * React and never passes through sanitizeHtml. Every HTML element, whether
+ * written as JSX or generated from markdown syntax, is checked on its own:
+ * disallowed elements are removed with their children and disallowed
+ * attributes are dropped. Registered components are left to render
+ * themselves, and unregistered ones still fail the compile. Run it last, after
+ * every plugin that adds markup.
+ */
+export function rehypeSanitizeMdx({ policy, components }: SanitizeMdxOptions): Transformer<Root> {
+  return (tree, file) => {
+    const headingIds = (file.data.headingIds as string[]) || [];
+    const removed: string[] = [];
+    // Highlighted code repeats the same few elements many times over
+    const results = new Map<string, SanitizedElement>();
+
+    // Names of the attributes allowed to stay, or null when the element must go
+    const allowedAttributes = (tagName: string, properties: [string, unknown][]) => {
+      const attributes: Record<string, string> = {};
+      const names = new Map<string, string>();
+
+      properties.forEach(([name, value]) => {
+        const attributeValue = toAttributeValue(value);
+        if (attributeValue === null) return;
+        attributes[toAttributeName(name)] = attributeValue;
+        names.set(name, toAttributeName(name));
+      });
+
+      const key = JSON.stringify([tagName, attributes]);
+      let result = results.get(key);
+      if (!result) {
+        result = sanitizeElement(tagName, attributes, policy, headingIds);
+        results.set(key, result);
+      }
+      removed.push(...result.removed);
+
+      const kept = result.attributes;
+      if (!kept) return null;
+      return new Set(
+        Array.from(names).flatMap(([name, attribute]) => (attribute in kept ? [name] : []))
+      );
+    };
+
+    // Sanitize a node in place, returning false when it has to be removed
+    const sanitizeNode = (node: SanitizableNode): boolean => {
+      if (node.type === 'element') {
+        const allowed = allowedAttributes(node.tagName, Object.entries(node.properties));
+        if (!allowed) return false;
+
+        node.properties = Object.fromEntries(
+          Object.entries(node.properties).filter(([name]) => allowed.has(name))
+        );
+      } else if (isMdxJsxElement(node) && node.name && /^[a-z]/.test(node.name)) {
+        const attributes = node.attributes.filter(
+          attribute => attribute.type === 'mdxJsxAttribute'
+        );
+        const allowed = allowedAttributes(
+          node.name,
+          attributes.map(attribute => [String(attribute.name), attribute.value])
+        );
+        if (!allowed) return false;
+
+        node.attributes = attributes.filter(attribute => allowed.has(String(attribute.name)));
+      } else if (isMdxJsxElement(node) && node.name && !components.includes(node.name)) {
+        // Left in place so the compile fails on the missing component
+        return true;
+      }
+
+      if ('children' in node) {
+        node.children = (node.children as SanitizableNode[]).filter(sanitizeNode) as RootContent[];
+      }
+      return true;
+    };
+
+    tree.children = (tree.children as SanitizableNode[]).filter(sanitizeNode) as RootContent[];
+
+    if (removed.length > 0) {
+      console.warn(`MDX content: removed unsafe HTML: ${removed.join(', ')}`);
+    }
+  };
+}
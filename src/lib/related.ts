@@ -0,0 +1,110 @@
+import { slugify } from '@/lib/format';
+
+/**
+ * Similarity scoring for related content. Items are compared on shared tags,
+ * technologies and industry, plus the cosine similarity of their text.
+ */
+
+const WEIGHTS = {
+  tag: 3,
+  technology: 2,
+  industry: 2,
+  text: 4,
+};
+
+// Common words that would otherwise dominate every text comparison
+const STOP_WORDS = new Set(
+  (
+    'a an and are as at be but by can for from has have how in into is it its ' +
+    'of on or our that the their this to was we were what when which will with ' +
+    'you your'
+  ).split(' ')
+);
+
+export interface RelatedFeatures {
+  tags: Set<string>;
+  // Tags and technologies together, so a post tagged "kubernetes" matches a
+  // case study that lists Kubernetes as a technology
+  topics: Set<string>;
+  industry: string;
+  terms: Map<string, number>;
+}
+
+export interface RelatedInput {
+  title: string;
+  description: string;
+  content: string;
+  tags: string[];
+  technologies?: string[];
+  industry?: string;
+}
+
+/**
+ * Term frequencies of the words in a text, ignoring markup and stop words
+ */
+export function toTermVector(text: string): Map<string, number> {
+  const terms = new Map<string, number>();
+
+  text
+    .replace(/<[^>]+>/g, ' ')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 2 && !STOP_WORDS.has(word))
+    .forEach(word => terms.set(word, (terms.get(word) || 0) + 1));
+
+  return terms;
+}
+
+/**
+ * Cosine similarity of two term vectors, from 0 (disjoint) to 1 (identical)
+ */
+export function cosineSimilarity(a: Map<string, number>, b: Map<string, number>): number {
+  let dot = 0;
+  a.forEach((count, term) => {
+    dot += count * (b.get(term) || 0);
+  });
+
+  if (dot === 0) {
+    return 0;
+  }
+
+  const magnitude = (vector: Map<string, number>) =>
+    Math.sqrt(Array.from(vector.values()).reduce((sum, count) => sum + count * count, 0));
+
+  return dot / (magnitude(a) * magnitude(b));
+}
+
+/**
+ * Precompute the features an item is compared on
+ */
+export function toRelatedFeatures(item: RelatedInput): RelatedFeatures {
+  const tags = new Set(item.tags.map(slugify));
+  const technologies = (item.technologies || []).map(slugify);
+
+  return {
+    tags,
+    topics: new Set([...Array.from(tags), ...technologies]),
+    industry: slugify(item.industry || ''),
+    terms: toTermVector(`${item.title} ${item.description} ${item.content}`),
+  };
+}
+
+function countShared(a: Set<string>, b: Set<string>): number {
+  return Array.from(a).filter(value => b.has(value)).length;
+}
+
+/**
+ * Similarity score between two items; 0 means unrelated
+ */
+export function scoreRelated(a: RelatedFeatures, b: RelatedFeatures): number {
+  const sharedTags = countShared(a.tags, b.tags);
+  const sharedTechnologies = countShared(a.topics, b.topics) - sharedTags;
+  const sameIndustry = a.industry !== '' && a.industry === b.industry;
+
+  return (
+    sharedTags * WEIGHTS.tag +
+    sharedTechnologies * WEIGHTS.technology +
+    (sameIndustry ? WEIGHTS.industry : 0) +
+    cosineSimilarity(a.terms, b.terms) * WEIGHTS.text
+  );
+}
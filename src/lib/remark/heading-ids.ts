@@ -0,0 +1,56 @@
+import { visit } from 'unist-util-visit';
+import { toString } from 'mdast-util-to-string';
+import type { Heading, Root } from 'mdast';
+import type { Transformer } from 'unified';
+import { buildToc, createSlugger, type TocHeading } from '@/lib/toc';
+
+export interface HeadingIdsOptions {
+  // Accessible name for a heading's anchor link, given the heading text
+  anchorLabel?: (title: string) => string;
+}
+
+const defaultAnchorLabel = (title: string) => `Link to section: ${title}`;
+
+/**
+ * Give every heading a slugged id and append a deep-link anchor, returning the
+ * headings in document order
+ */
+export function assignHeadingIds(
+  tree: Root,
+  { anchorLabel = defaultAnchorLabel }: HeadingIdsOptions = {}
+): TocHeading[] {
+  const slug = createSlugger();
+  const headings: TocHeading[] = [];
+
+  visit(tree, 'heading', (node: Heading) => {
+    const title = toString(node);
+    const id = slug(title);
+
+    node.data = { ...node.data, hProperties: { ...node.data?.hProperties, id } };
+    node.children.push({
+      type: 'link',
+      url: `#${id}`,
+      data: {
+        hProperties: { className: ['heading-anchor'], ariaLabel: anchorLabel(title) },
+      },
+      children: [{ type: 'text', value: '#' }],
+    });
+
+    headings.push({ id, title, depth: node.depth });
+  });
+
+  return headings;
+}
+
+/**
+ * Remark plugin form of assignHeadingIds. The nested table of contents is left
+ * on file.data.toc, and every generated id on file.data.headingIds for the
+ * sanitizer to keep.
+ */
+export function remarkHeadingIds(options: HeadingIdsOptions = {}): Transformer<Root> {
+  return (tree, file) => {
+    const headings = assignHeadingIds(tree, options);
+    file.data.toc = buildToc(headings);
+    file.data.headingIds = headings.map(heading => heading.id);
+  };
+}
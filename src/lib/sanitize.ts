@@ -0,0 +1,204 @@
+import DOMPurify from 'isomorphic-dompurify';
+import type { ContentCollection } from '@/lib/content-schema';
+
+/**
+ * Allowlist sanitizer for rendered markdown. Raw HTML in content files is
+ * passed through the markdown pipeline, so everything it emits is filtered
+ * here before it reaches a page. MDX elements are checked one at a time by
+ * the rehypeSanitizeMdx plugin with the same policies.
+ */
+
+export interface SanitizePolicy {
+  // Hosts iframes may load from (over https); other iframes are removed
+  iframeHosts: string[];
+}
+
+// Video and diagram embeds approved for long-form content
+const EMBED_HOSTS = [
+  'www.youtube-nocookie.com',
+  'www.youtube.com',
+  'player.vimeo.com',
+  'www.loom.com',
+  'app.diagrams.net',
+];
+
+export const SANITIZE_POLICIES: Record<ContentCollection, SanitizePolicy> = {
+  post: { iframeHosts: EMBED_HOSTS },
+  caseStudy: { iframeHosts: EMBED_HOSTS },
+  page: { iframeHosts: [] },
+  author: { iframeHosts: [] },
+};
+
+// Attributes embeds need beyond DOMPurify's HTML defaults
+const IFRAME_ATTRIBUTES = ['allow', 'allowfullscreen', 'frameborder', 'loading', 'referrerpolicy'];
+
+export interface SanitizeResult {
+  html: string;
+  // Human-readable description of each stripped element or attribute
+  removed: string[];
+}
+
+// Inline styles are only kept in the shape the code highlighter emits them
+// (token colors and the grid that lays out lines), so raw HTML can't use them
+// to position or overlay content
+const CODE_STYLE_ELEMENTS = ['pre', 'code', 'span'];
+const CODE_STYLE_DECLARATION =
+  /^(?:(?:color|background-color|--shiki-[a-z0-9-]+)\s*:\s*(?:#[0-9a-f]{3,8}|inherit)|font-style\s*:\s*italic|font-weight\s*:\s*bold|text-decoration\s*:\s*underline|display\s*:\s*grid)$/i;
+
+function codeStyleAllowed(tagName: string, style: string): boolean {
+  return (
+    CODE_STYLE_ELEMENTS.includes(tagName) &&
+    style
+      .split(';')
+      .map(declaration => declaration.trim())
+      .filter(Boolean)
+      .every(declaration => CODE_STYLE_DECLARATION.test(declaration))
+  );
+}
+
+function iframeAllowed(src: string | null, policy: SanitizePolicy): boolean {
+  try {
+    const url = new URL(src || '');
+    return url.protocol === 'https:' && policy.iframeHosts.includes(url.hostname);
+  } catch {
+    return false;
+  }
+}
+
+// Run DOMPurify with a policy, returning the clean body and what was stripped
+function purify(
+  html: string,
+  policy: SanitizePolicy,
+  headingIds: string[]
+): { body: Element; removed: string[] } {
+  const removed: string[] = [];
+
+  DOMPurify.addHook('uponSanitizeAttribute', (node, data) => {
+    const tagName = node.nodeName.toLowerCase();
+
+    // Heading ids come from our own slugger (see remark/heading-ids); DOM
+    // clobbering protection would strip legitimate ones such as "domain" or "title"
+    if (data.attrName === 'id' && /^h[1-6]$/.test(tagName) && headingIds.includes(data.attrValue)) {
+      data.forceKeepAttr = true;
+    }
+
+    if (data.attrName === 'style' && !codeStyleAllowed(tagName, data.attrValue)) {
+      data.keepAttr = false;
+    }
+  });
+
+  const allowIframes = policy.iframeHosts.length > 0;
+
+  // Iframes are allowed per host, so check each one's src before DOMPurify
+  // filters its attributes
+  if (allowIframes) {
+    DOMPurify.addHook('uponSanitizeElement', (node, data) => {
+      const element = node as Element;
+      if (data.tagName === 'iframe' && !iframeAllowed(element.getAttribute('src'), policy)) {
+        removed.push(`<iframe> from ${element.getAttribute('src') || 'an unknown source'}`);
+        element.parentNode?.removeChild(element);
+      }
+    });
+  }
+
+  let body: Element;
+  try {
+    body = DOMPurify.sanitize(html, {
+      ADD_TAGS: allowIframes ? ['iframe'] : [],
+      ADD_ATTR: allowIframes ? IFRAME_ATTRIBUTES : [],
+      RETURN_DOM: true,
+    }) as Element;
+  } finally {
+    DOMPurify.removeHook('uponSanitizeElement');
+    DOMPurify.removeHook('uponSanitizeAttribute');
+  }
+
+  // Attributes of elements that were removed outright aren't worth a separate line
+  const removedElements = new Set<Node>(
+    DOMPurify.removed.flatMap(entry => ('element' in entry ? [entry.element] : []))
+  );
+
+  DOMPurify.removed.forEach(entry => {
+    if ('element' in entry) {
+      removed.push(`<${entry.element.nodeName.toLowerCase()}>`);
+    } else if (entry.attribute && !removedElements.has(entry.from)) {
+      removed.push(`${entry.attribute.name} attribute on <${entry.from.nodeName.toLowerCase()}>`);
+    }
+  });
+
+  return { body, removed };
+}
+
+/**
+ * Sanitize rendered HTML against a policy, reporting what was stripped.
+ * `headingIds` are the ids the pipeline gave headings, which are kept as is.
+ */
+export function sanitizeHtml(
+  html: string,
+  policy: SanitizePolicy,
+  headingIds: string[] = []
+): SanitizeResult {
+  const { body, removed } = purify(html, policy, headingIds);
+  return { html: body.innerHTML, removed };
+}
+
+// Table parts are dropped by the HTML parser outside a table
+const TABLE_CONTEXT: Record<string, [string, string]> = {
+  caption: ['<table>', '</table>'],
+  colgroup: ['<table>', '</table>'],
+  thead: ['<table>', '</table>'],
+  tbody: ['<table>', '</table>'],
+  tfoot: ['<table>', '</table>'],
+  col: ['<table><colgroup>', '</colgroup></table>'],
+  tr: ['<table><tbody>', '</tbody></table>'],
+  td: ['<table><tbody><tr>', '</tr></tbody></table>'],
+  th: ['<table><tbody><tr>', '</tr></tbody></table>'],
+};
+
+const TAG_NAME = /^[a-z][a-z0-9-]*$/;
+const ATTRIBUTE_NAME = /^[a-z_:][a-z0-9_:.-]*$/i;
+
+export interface SanitizedElement {
+  // Attributes that survived, or null when the element itself was removed
+  attributes: Record<string, string> | null;
+  removed: string[];
+}
+
+/**
+ * Sanitize a single element (without its children) against a policy, for
+ * markup that is never serialized to HTML: MDX compiles straight to React.
+ */
+export function sanitizeElement(
+  tagName: string,
+  attributes: Record<string, string>,
+  policy: SanitizePolicy,
+  headingIds: string[] = []
+): SanitizedElement {
+  if (!TAG_NAME.test(tagName)) return { attributes: null, removed: [`<${tagName}>`] };
+
+  const removed: string[] = [];
+  const source = Object.entries(attributes)
+    .filter(([name]) => {
+      if (ATTRIBUTE_NAME.test(name)) return true;
+      removed.push(`${name} attribute on <${tagName}>`);
+      return false;
+    })
+    .map(([name, value]) => ` ${name}="${value.replace(/&/g, '&amp;').replace(/"/g, '&quot;')}"`)
+    .join('');
+
+  const [open, close] = TABLE_CONTEXT[tagName] || ['', ''];
+  const result = purify(`${open}<${tagName}${source}></${tagName}>${close}`, policy, headingIds);
+  removed.push(...result.removed);
+
+  const element = result.body.querySelector(tagName);
+  if (!element) {
+    return { attributes: null, removed: removed.length > 0 ? removed : [`<${tagName}>`] };
+  }
+
+  return {
+    attributes: Object.fromEntries(
+      Array.from(element.attributes).map(attribute => [attribute.name, attribute.value])
+    ),
+    removed,
+  };
+}
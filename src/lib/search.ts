@@ -0,0 +1,200 @@
+import type { SearchDocument, SearchIndex, SearchResult } from '@/types';
+
+/**
+ * Full-text search over a compact index built at export time. Building runs on
+ * the server (see the /[locale]/search-index.json route); querying runs in the browser.
+ */
+
+// Served under each locale prefix (/es/search-index.json)
+export const SEARCH_INDEX_PATH = '/search-index.json';
+
+// Bump when the index format changes so stale cached indexes are ignored
+export const SEARCH_INDEX_VERSION = 1;
+
+// Relative weight of a term occurrence in each field
+const FIELD_WEIGHTS = {
+  title: 10,
+  tags: 6,
+  description: 3,
+  body: 1,
+};
+
+// How strongly a non-exact term match counts compared to an exact one
+const PREFIX_MATCH = 0.8;
+const FUZZY_MATCH = 0.6;
+
+const STOP_WORDS = new Set(
+  (
+    'a an and are as at be but by can for from has have how in into is it its ' +
+    'of on or our that the their this to was we were what when which will with ' +
+    'you your'
+  ).split(' ')
+);
+
+export interface SearchableItem extends SearchDocument {
+  tags: string[];
+  body: string;
+}
+
+/**
+ * Lowercased, accent-free words, ignoring markup and stop words
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/<[^>]+>/g, ' ')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word));
+}
+
+/**
+ * Build the index: each term maps to the documents containing it, weighted by
+ * the fields it appears in
+ */
+export function buildSearchIndex(items: SearchableItem[]): SearchIndex {
+  const postings = new Map<string, Map<number, number>>();
+
+  items.forEach((item, documentIndex) => {
+    const fields: Record<keyof typeof FIELD_WEIGHTS, string> = {
+      title: item.title,
+      tags: item.tags.join(' '),
+      description: item.description,
+      body: item.body,
+    };
+
+    const counts = new Map<string, number>();
+    (Object.keys(fields) as (keyof typeof FIELD_WEIGHTS)[]).forEach(field => {
+      tokenize(fields[field]).forEach(term => {
+        counts.set(term, (counts.get(term) || 0) + FIELD_WEIGHTS[field]);
+      });
+    });
+
+    counts.forEach((count, term) => {
+      const documents = postings.get(term) || new Map<number, number>();
+      // Log scaling keeps long bodies from drowning out title matches
+      documents.set(documentIndex, Math.round((1 + Math.log(count)) * 100) / 100);
+      postings.set(term, documents);
+    });
+  });
+
+  const terms: Record<string, number[]> = {};
+  Array.from(postings.keys())
+    .sort()
+    .forEach(term => {
+      terms[term] = Array.from(postings.get(term)!.entries()).flat();
+    });
+
+  return {
+    version: SEARCH_INDEX_VERSION,
+    documents: items.map(({ type, title, description, url, date }) => ({
+      type,
+      title,
+      description,
+      url,
+      date,
+    })),
+    terms,
+  };
+}
+
+/**
+ * Levenshtein distance, giving up once it exceeds max
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+
+    if (rowMin > max) {
+      return max + 1;
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * How well an index term matches a query token: 1 for exact, less for prefix
+ * and typo matches, 0 for none
+ */
+function matchStrength(token: string, term: string): number {
+  if (term === token) return 1;
+  if (token.length >= 2 && term.startsWith(token)) return PREFIX_MATCH;
+
+  // Allow one typo in medium words and two in long ones
+  const maxTypos = token.length >= 8 ? 2 : token.length >= 4 ? 1 : 0;
+  if (maxTypos > 0 && editDistance(token, term, maxTypos) <= maxTypos) return FUZZY_MATCH;
+
+  return 0;
+}
+
+/**
+ * Score every document containing a term that matches the token
+ */
+function scoreToken(index: SearchIndex, token: string): Map<number, number> {
+  const scores = new Map<number, number>();
+  const documentCount = index.documents.length;
+
+  Object.entries(index.terms).forEach(([term, postings]) => {
+    const strength = matchStrength(token, term);
+    if (strength === 0) return;
+
+    // Rare terms say more about a document than common ones
+    const idf = Math.log(1 + documentCount / (postings.length / 2));
+
+    for (let i = 0; i < postings.length; i += 2) {
+      const score = postings[i + 1] * idf * strength;
+      scores.set(postings[i], Math.max(scores.get(postings[i]) || 0, score));
+    }
+  });
+
+  return scores;
+}
+
+/**
+ * Keep documents scored by both maps, summing their scores
+ */
+function intersectScores(a: Map<number, number>, b: Map<number, number>): Map<number, number> {
+  const scores = new Map<number, number>();
+  a.forEach((score, documentIndex) => {
+    if (b.has(documentIndex)) {
+      scores.set(documentIndex, score + b.get(documentIndex)!);
+    }
+  });
+  return scores;
+}
+
+/**
+ * Rank documents matching every word of the query, best first
+ */
+export function searchIndex(index: SearchIndex, query: string, limit = 10): SearchResult[] {
+  const tokens = Array.from(new Set(tokenize(query)));
+  if (tokens.length === 0) {
+    return [];
+  }
+
+  const scores = tokens.map(token => scoreToken(index, token)).reduce(intersectScores);
+
+  return Array.from(scores.entries())
+    .map(([documentIndex, score]) => ({
+      ...index.documents[documentIndex],
+      score: Math.round(score * 100) / 100,
+    }))
+    .sort((a, b) => b.score - a.score || new Date(b.date).getTime() - new Date(a.date).getTime())
+    .slice(0, limit);
+}
@@ -0,0 +1,74 @@
+/**
+ * Site-wide configuration shared by metadata, feeds and other generated files
+ */
+export const SITE_CONFIG = {
+  name: process.env.NEXT_PUBLIC_SITE_NAME || 'BorderlessBits',
+  description:
+    process.env.NEXT_PUBLIC_SITE_DESCRIPTION ||
+    'Enterprise Cloud Architecture & Healthcare Software Consulting',
+  // Origin used for every absolute URL; trailing slashes are stripped
+  url: (process.env.NEXT_PUBLIC_SITE_URL || 'https://borderlessbits.com').replace(/\/+$/, ''),
+  // Staging and preview builds set NEXT_PUBLIC_ALLOW_INDEXING=false to keep crawlers out
+  indexable: process.env.NEXT_PUBLIC_ALLOW_INDEXING
+    ? process.env.NEXT_PUBLIC_ALLOW_INDEXING === 'true'
+    : process.env.NODE_ENV === 'production',
+  author: {
+    name: 'Richard Mosley',
+    email: process.env.NEXT_PUBLIC_CONTACT_EMAIL || 'richard@borderlessbits.com',
+  },
+  // Business phone for structured data; left out when unset
+  telephone: process.env.NEXT_PUBLIC_CONTACT_PHONE || '',
+  // Rendered from content/pages/privacy-policy.md; linked from the footer
+  privacyPolicyPath: '/privacy-policy/',
+  // 'full' publishes the whole article in feeds, 'excerpt' only the description
+  feedContent: process.env.FEED_CONTENT === 'excerpt' ? 'excerpt' : 'full',
+} as const;
+
+/**
+ * Resolve a site-relative path against the configured origin
+ */
+export function absoluteUrl(pathname: string = '/'): string {
+  if (/^https?:\/\//i.test(pathname)) {
+    return pathname;
+  }
+
+  return `${SITE_CONFIG.url}${pathname.startsWith('/') ? '' : '/'}${pathname}`;
+}
+
+/**
+ * Whether a URL is relative to the current document (no scheme, not
+ * root-relative, not a fragment), e.g. an image next to a markdown file
+ */
+export function isRelativeUrl(url: string): boolean {
+  return !/^(?:[a-z][a-z0-9+.-]*:|\/|#)/i.test(url);
+}
+
+// Root-relative URL at the start of an attribute value or srcset candidate
+const ROOT_RELATIVE = /^(\s*)\/(?!\/)/;
+
+/**
+ * Rewrite root-relative href/src attributes and srcset candidates in rendered
+ * HTML to absolute URLs, for output that is read outside the site (feeds,
+ * syndication)
+ */
+export function absolutizeHtml(html: string): string {
+  return html
+    .replace(
+      /(\s(?:href|src))=(["'])\/(?!\/)/gi,
+      (_match, attribute: string, quote: string) => `${attribute}=${quote}${SITE_CONFIG.url}/`
+    )
+    .replace(
+      /(\ssrcset)=(["'])(.*?)\2/gi,
+      (_match, attribute: string, quote: string, value: string) => {
+        const candidates = value
+          .split(',')
+          .map(candidate =>
+            candidate.replace(
+              ROOT_RELATIVE,
+              (_prefix, space: string) => `${space}${SITE_CONFIG.url}/`
+            )
+          );
+        return `${attribute}=${quote}${candidates.join(',')}${quote}`;
+      }
+    );
+}
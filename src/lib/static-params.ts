@@ -0,0 +1,25 @@
+import type { Metadata } from 'next';
+
+/**
+ * Helpers for generateStaticParams under `output: 'export'`, where a dynamic
+ * route must prerender at least one page or the build fails
+ */
+
+// Segment prerendered in place of real params when a route has none; it never matches content
+export const PLACEHOLDER_PARAM = '__none__';
+
+// Metadata for params that match nothing, the placeholder included. The page
+// 404s, so it must not inherit the layout's "index, follow".
+export const NOT_FOUND_METADATA: Metadata = { robots: { index: false } };
+
+/**
+ * Return the route's params, or just the placeholder entry when there are none
+ * (e.g. { series: PLACEHOLDER_PARAM }). Pages resolve the placeholder like any
+ * unknown param and call notFound().
+ */
+export function withPlaceholderParam<P extends Record<string, string | string[]>>(
+  params: P[],
+  placeholder: P
+): P[] {
+  return params.length > 0 ? params : [placeholder];
+}
@@ -1,7 +1,7 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { useCallback, useState } from 'react';
-import type { PrivacyConsent, UIStore } from '@/types';
+import type { PrivacyConsent, SearchResult, UIStore } from '@/types';
 
 /**
  * UI state store for managing global application state
@@ -155,14 +155,11 @@ export const useAnalyticsStore = create<AnalyticsStore>()(
  */
 interface ContentStore {
   searchQuery: string;
-  searchResults: {
-    posts: any[];
-    caseStudies: any[];
-  } | null;
+  searchResults: SearchResult[] | null;
   isSearching: boolean;
   recentSearches: string[];
   setSearchQuery: (query: string) => void;
-  setSearchResults: (results: any) => void;
+  setSearchResults: (results: SearchResult[]) => void;
   setSearching: (searching: boolean) => void;
   addRecentSearch: (query: string) => void;
   clearSearchResults: () => void;
@@ -180,7 +177,7 @@ export const useContentStore = create<ContentStore>()(
         set({ searchQuery: query });
       },
 
-      setSearchResults: (results: any) => {
+      setSearchResults: (results: SearchResult[]) => {
         set({ searchResults: results, isSearching: false });
       },
 
@@ -0,0 +1,267 @@
+import { localizePath } from '@/lib/i18n';
+import { absoluteUrl, SITE_CONFIG } from '@/lib/site';
+import type { Author, BreadcrumbItem, CaseStudy, Locale, Post } from '@/types';
+
+/**
+ * Typed schema.org builders for the JSON-LD emitted by each route. Builders
+ * return plain objects without '@context'; serializeJsonLd adds it when the
+ * object is written into a <script type="application/ld+json"> tag.
+ */
+
+export const SCHEMA_CONTEXT = 'https://schema.org';
+
+// Services listed on the business entity
+const SERVICE_TYPES = [
+  'Cloud Architecture Consulting',
+  'Healthcare Software Development',
+  'Enterprise Technology Consulting',
+  'AWS Consulting',
+  'Azure Consulting',
+  'HIPAA Compliance Consulting',
+];
+
+const SOCIAL_PROFILES = [
+  'https://www.linkedin.com/company/borderlessbits',
+  'https://twitter.com/borderlessbits',
+];
+
+export interface PersonSchema {
+  '@type': 'Person';
+  name: string;
+  url?: string;
+  jobTitle?: string;
+  image?: string;
+  sameAs?: string[];
+  knowsAbout?: string[];
+  worksFor?: OrganizationSchema;
+}
+
+export interface OrganizationSchema {
+  '@type': 'Organization';
+  name: string;
+  url: string;
+}
+
+export interface EntryPointSchema {
+  '@type': 'EntryPoint';
+  urlTemplate: string;
+}
+
+export interface ProfessionalServiceSchema {
+  '@type': 'ProfessionalService';
+  name: string;
+  description: string;
+  url: string;
+  image?: string;
+  email: string;
+  telephone?: string;
+  founder?: PersonSchema;
+  address: { '@type': 'PostalAddress'; addressCountry: string };
+  areaServed: { '@type': 'Country'; name: string };
+  sameAs: string[];
+  serviceType: string[];
+  potentialAction: { '@type': 'ContactAction'; target: EntryPointSchema };
+}
+
+export interface WebSiteSchema {
+  '@type': 'WebSite';
+  name: string;
+  description: string;
+  url: string;
+  inLanguage: Locale;
+  publisher: OrganizationSchema;
+  potentialAction: {
+    '@type': 'SearchAction';
+    target: EntryPointSchema;
+    'query-input': string;
+  };
+}
+
+export interface ArticleSchema {
+  '@type': 'Article' | 'BlogPosting';
+  headline: string;
+  description?: string;
+  url: string;
+  mainEntityOfPage: string;
+  inLanguage: Locale;
+  datePublished: string;
+  dateModified: string;
+  image?: string;
+  keywords?: string;
+  about?: { '@type': 'Organization'; name: string };
+  author: PersonSchema;
+  publisher: OrganizationSchema;
+}
+
+export interface BreadcrumbListSchema {
+  '@type': 'BreadcrumbList';
+  itemListElement: {
+    '@type': 'ListItem';
+    position: number;
+    name: string;
+    item: string;
+  }[];
+}
+
+export type JsonLdSchema =
+  | PersonSchema
+  | OrganizationSchema
+  | ProfessionalServiceSchema
+  | WebSiteSchema
+  | ArticleSchema
+  | BreadcrumbListSchema;
+
+// Query placeholder in the WebSite search action
+export const SEARCH_TERM_PLACEHOLDER = '{search_term_string}';
+
+/**
+ * The site's publisher, referenced from articles and profiles
+ */
+export function buildOrganization(): OrganizationSchema {
+  return { '@type': 'Organization', name: SITE_CONFIG.name, url: SITE_CONFIG.url };
+}
+
+/**
+ * A person's profile, linked to their author page
+ */
+export function buildPerson(author: Author, locale: Locale): PersonSchema {
+  return {
+    '@type': 'Person',
+    name: author.name,
+    url: absoluteUrl(localizePath(`/authors/${author.slug}/`, locale)),
+    jobTitle: author.role || undefined,
+    image: author.avatar ? absoluteUrl(author.avatar) : undefined,
+    sameAs: author.linkedin ? [author.linkedin] : undefined,
+    knowsAbout: author.expertise.length > 0 ? author.expertise : undefined,
+    worksFor: buildOrganization(),
+  };
+}
+
+/**
+ * The consulting business itself, emitted on every page by the root layout
+ */
+export function buildProfessionalService(
+  locale: Locale,
+  options: { image?: string; founder?: Author } = {}
+): ProfessionalServiceSchema {
+  return {
+    '@type': 'ProfessionalService',
+    name: SITE_CONFIG.name,
+    description: SITE_CONFIG.description,
+    url: absoluteUrl(localizePath('/', locale)),
+    image: options.image ? absoluteUrl(options.image) : undefined,
+    email: SITE_CONFIG.author.email,
+    telephone: SITE_CONFIG.telephone || undefined,
+    founder: options.founder ? buildPerson(options.founder, locale) : undefined,
+    address: { '@type': 'PostalAddress', addressCountry: 'US' },
+    areaServed: { '@type': 'Country', name: 'United States' },
+    sameAs: SOCIAL_PROFILES,
+    serviceType: SERVICE_TYPES,
+    potentialAction: {
+      '@type': 'ContactAction',
+      target: {
+        '@type': 'EntryPoint',
+        urlTemplate: absoluteUrl(localizePath('/contact/', locale)),
+      },
+    },
+  };
+}
+
+/**
+ * The site, with a search action that opens the blog search for a query
+ */
+export function buildWebSite(locale: Locale): WebSiteSchema {
+  return {
+    '@type': 'WebSite',
+    name: SITE_CONFIG.name,
+    description: SITE_CONFIG.description,
+    url: absoluteUrl(localizePath('/', locale)),
+    inLanguage: locale,
+    publisher: buildOrganization(),
+    potentialAction: {
+      '@type': 'SearchAction',
+      target: {
+        '@type': 'EntryPoint',
+        urlTemplate: `${absoluteUrl(localizePath('/blog/', locale))}?q=${SEARCH_TERM_PLACEHOLDER}`,
+      },
+      'query-input': 'required name=search_term_string',
+    },
+  };
+}
+
+function buildAuthor(item: Post | CaseStudy, locale: Locale): PersonSchema {
+  return item.authorProfile
+    ? buildPerson(item.authorProfile, locale)
+    : { '@type': 'Person', name: item.author };
+}
+
+function buildArticleBase(
+  item: Post | CaseStudy,
+  path: string,
+  locale: Locale,
+  image?: string
+): Omit<ArticleSchema, '@type'> {
+  const url = absoluteUrl(localizePath(path, locale));
+
+  return {
+    headline: item.title,
+    description: item.description || undefined,
+    url,
+    mainEntityOfPage: url,
+    inLanguage: item.locale,
+    datePublished: item.date,
+    dateModified: item.updated || item.date,
+    image: image ? absoluteUrl(image) : undefined,
+    keywords: item.tags.length > 0 ? item.tags.join(', ') : undefined,
+    author: buildAuthor(item, locale),
+    publisher: buildOrganization(),
+  };
+}
+
+/**
+ * A blog post
+ */
+export function buildBlogPosting(post: Post, locale: Locale, image?: string): ArticleSchema {
+  return {
+    '@type': 'BlogPosting',
+    ...buildArticleBase(post, `/blog/${post.slug}/`, locale, image),
+  };
+}
+
+/**
+ * A case study, described as an article about the client engagement
+ */
+export function buildCaseStudyArticle(
+  caseStudy: CaseStudy,
+  locale: Locale,
+  image?: string
+): ArticleSchema {
+  return {
+    '@type': 'Article',
+    ...buildArticleBase(caseStudy, `/case-studies/${caseStudy.slug}/`, locale, image),
+    about: caseStudy.client ? { '@type': 'Organization', name: caseStudy.client } : undefined,
+  };
+}
+
+/**
+ * A breadcrumb trail, from the home page to the current page
+ */
+export function buildBreadcrumbList(items: BreadcrumbItem[], locale: Locale): BreadcrumbListSchema {
+  return {
+    '@type': 'BreadcrumbList',
+    itemListElement: items.map((item, index) => ({
+      '@type': 'ListItem',
+      position: index + 1,
+      name: item.label,
+      item: absoluteUrl(localizePath(item.href, locale)),
+    })),
+  };
+}
+
+/**
+ * Serialize a schema for a JSON-LD script tag. '<' is escaped so content can
+ * never close the script element early.
+ */
+export function serializeJsonLd(schema: JsonLdSchema): string {
+  return JSON.stringify({ '@context': SCHEMA_CONTEXT, ...schema }).replace(/</g, '\\u003c');
+}
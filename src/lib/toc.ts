@@ -0,0 +1,51 @@
+import { slugify } from '@/lib/format';
+import type { TocEntry } from '@/types';
+
+// Heading levels listed in the table of contents; h1 repeats the page title
+export const TOC_DEPTHS = [2, 3];
+
+export interface TocHeading {
+  id: string;
+  title: string;
+  depth: number;
+}
+
+/**
+ * Create a slugger for one document. Repeated headings get numbered suffixes
+ * (setup, setup-1, setup-2) so every id is unique and stable across builds.
+ */
+export function createSlugger(): (text: string) => string {
+  const seen = new Map<string, number>();
+
+  return (text: string) => {
+    const base = slugify(text) || 'section';
+    const count = seen.get(base) || 0;
+    seen.set(base, count + 1);
+    return count === 0 ? base : `${base}-${count}`;
+  };
+}
+
+/**
+ * Nest a flat, document-ordered list of headings under their nearest shallower
+ * heading, keeping only TOC_DEPTHS
+ */
+export function buildToc(headings: TocHeading[]): TocEntry[] {
+  const root: TocEntry[] = [];
+  const stack: TocEntry[] = [];
+
+  headings
+    .filter(heading => TOC_DEPTHS.includes(heading.depth))
+    .forEach(heading => {
+      const entry: TocEntry = { ...heading, children: [] };
+
+      while (stack.length > 0 && stack[stack.length - 1].depth >= entry.depth) {
+        stack.pop();
+      }
+
+      const parent = stack[stack.length - 1];
+      (parent ? parent.children : root).push(entry);
+      stack.push(entry);
+    });
+
+  return root;
+}
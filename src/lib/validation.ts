@@ -1,5 +1,6 @@
 import DOMPurify from 'isomorphic-dompurify';
-import type { ContactFormData, FormErrors } from '@/types';
+import { DEFAULT_LOCALE, getMessages } from '@/lib/i18n';
+import type { ContactFormData, FormErrors, Locale } from '@/types';
 
 // Security patterns to detect potential XSS/injection attacks
 const SUSPICIOUS_PATTERNS = [
@@ -47,67 +48,72 @@ export function sanitizeInput(input: string): string {
 }
 
 /**
- * Validates individual form fields
+ * Validates individual form fields, with messages in the given locale
  */
-export function validateField(field: string, value: string): string | null {
+export function validateField(
+  field: string,
+  value: string,
+  locale: Locale = DEFAULT_LOCALE
+): string | null {
+  const messages = getMessages(locale).contactForm.errors;
   const sanitizedValue = sanitizeInput(value);
 
   // Check for suspicious patterns
   const hasSuspiciousContent = SUSPICIOUS_PATTERNS.some(pattern => pattern.test(sanitizedValue));
 
   if (hasSuspiciousContent) {
-    return 'Invalid characters detected. Please remove any HTML or script content.';
+    return messages.suspicious;
   }
 
   switch (field) {
     case 'name':
       if (!sanitizedValue) {
-        return 'Name is required';
+        return messages.nameRequired;
       }
       if (sanitizedValue.length < 2) {
-        return 'Name must be at least 2 characters long';
+        return messages.nameTooShort;
       }
       if (sanitizedValue.length > 100) {
-        return 'Name must be less than 100 characters';
+        return messages.nameTooLong;
       }
       if (!NAME_REGEX.test(sanitizedValue)) {
-        return 'Name can only contain letters, spaces, hyphens, and apostrophes';
+        return messages.nameInvalid;
       }
       break;
 
     case 'email':
       if (!sanitizedValue) {
-        return 'Email is required';
+        return messages.emailRequired;
       }
       if (!EMAIL_REGEX.test(sanitizedValue)) {
-        return 'Please enter a valid email address';
+        return messages.emailInvalid;
       }
       if (sanitizedValue.length > 254) {
-        return 'Email address is too long';
+        return messages.emailTooLong;
       }
       break;
 
     case 'company':
       if (sanitizedValue && sanitizedValue.length > 200) {
-        return 'Company name must be less than 200 characters';
+        return messages.companyTooLong;
       }
       break;
 
     case 'message':
       if (!sanitizedValue) {
-        return 'Message is required';
+        return messages.messageRequired;
       }
       if (sanitizedValue.length < 10) {
-        return 'Message must be at least 10 characters long';
+        return messages.messageTooShort;
       }
       if (sanitizedValue.length > 2000) {
-        return 'Message must be less than 2000 characters';
+        return messages.messageTooLong;
       }
       break;
 
     case 'phone':
       if (sanitizedValue && !PHONE_REGEX.test(sanitizedValue)) {
-        return 'Please enter a valid phone number';
+        return messages.phoneInvalid;
       }
       break;
 
@@ -119,24 +125,28 @@ export function validateField(field: string, value: string): string | null {
 }
 
 /**
- * Validates the complete contact form
+ * Validates the complete contact form, with messages in the given locale
  */
-export function validateContactForm(data: ContactFormData): FormErrors {
+export function validateContactForm(
+  data: ContactFormData,
+  locale: Locale = DEFAULT_LOCALE
+): FormErrors {
+  const messages = getMessages(locale).contactForm.errors;
   const errors: FormErrors = {};
 
   // Required field validation
-  const nameError = validateField('name', data.name);
+  const nameError = validateField('name', data.name, locale);
   if (nameError) errors.name = nameError;
 
-  const emailError = validateField('email', data.email);
+  const emailError = validateField('email', data.email, locale);
   if (emailError) errors.email = emailError;
 
-  const messageError = validateField('message', data.message);
+  const messageError = validateField('message', data.message, locale);
   if (messageError) errors.message = messageError;
 
   // Optional field validation
   if (data.company) {
-    const companyError = validateField('company', data.company);
+    const companyError = validateField('company', data.company, locale);
     if (companyError) errors.company = companyError;
   }
 
@@ -148,25 +158,25 @@ export function validateContactForm(data: ContactFormData): FormErrors {
     'other',
   ];
   if (!validProjectTypes.includes(data.project_type)) {
-    errors.project_type = 'Please select a valid project type';
+    errors.project_type = messages.projectTypeInvalid;
   }
 
   const validTimelines = ['immediate', 'within_3_months', 'within_6_months', 'planning_phase'];
   if (!validTimelines.includes(data.project_timeline)) {
-    errors.project_timeline = 'Please select a valid timeline';
+    errors.project_timeline = messages.timelineInvalid;
   }
 
   if (data.budget_range) {
     const validBudgetRanges = ['under_25k', 'from_25k_to_50k', 'from_50k_to_100k', 'over_100k'];
     if (!validBudgetRanges.includes(data.budget_range)) {
-      errors.budget_range = 'Please select a valid budget range';
+      errors.budget_range = messages.budgetInvalid;
     }
   }
 
   if (data.referral_source) {
     const validReferralSources = ['google_search', 'linkedin', 'referral', 'other'];
     if (!validReferralSources.includes(data.referral_source)) {
-      errors.referral_source = 'Please select a valid referral source';
+      errors.referral_source = messages.referralInvalid;
     }
   }
 
@@ -0,0 +1,352 @@
+/**
+ * English UI strings, the default locale. Every other catalog must provide the
+ * same keys (enforced by the Messages type). Placeholders in braces are filled
+ * by formatMessage; objects with `one`/`other` keys are plural forms.
+ */
+export const en = {
+  meta: {
+    titleTemplate: '%s | BorderlessBits - Cloud Architecture & Healthcare Software Consulting',
+    defaultTitle: 'BorderlessBits - Expert Cloud Architecture & Healthcare Software Consulting',
+    description:
+      'Expert cloud architecture consulting for enterprise and healthcare organizations. Specializing in AWS, Azure, HIPAA compliance, and scalable software solutions that drive business growth.',
+    keywords: [
+      'cloud architecture',
+      'healthcare software',
+      'enterprise consulting',
+      'AWS consulting',
+      'Azure consulting',
+      'HIPAA compliance',
+      'cloud migration',
+      'software consulting',
+    ],
+    ogTitle: 'BorderlessBits - Expert Cloud Architecture & Healthcare Software Consulting',
+    ogDescription:
+      'Transform your enterprise with expert cloud architecture and healthcare software consulting. Specializing in AWS, Azure, and HIPAA-compliant solutions.',
+    ogImageAlt: 'BorderlessBits - Cloud Architecture Consulting',
+    ogCardTagline: 'Cloud architecture and healthcare software consulting',
+    twitterTitle: 'BorderlessBits - Expert Cloud Architecture Consulting',
+    twitterDescription:
+      'Transform your enterprise with expert cloud architecture and healthcare software consulting.',
+  },
+
+  common: {
+    skipToContent: 'Skip to main content',
+    home: 'Home',
+    breadcrumb: 'Breadcrumb',
+    // date-fns pattern for content dates
+    dateFormat: 'MMMM d, yyyy',
+    monthFormat: 'MMMM yyyy',
+    language: 'Language',
+    tags: 'Tags',
+    draft: 'Draft',
+    scheduled: 'Scheduled',
+    draftNotice: 'This is an unpublished draft and will not appear on the live site.',
+    scheduledNotice: 'Scheduled for publication on {date}.',
+    untranslated:
+      'This page has not been translated into English yet, so it is shown in {language}.',
+  },
+
+  nav: {
+    services: 'Services',
+    caseStudies: 'Case Studies',
+    blog: 'Blog',
+    about: 'About',
+    contact: 'Contact',
+  },
+
+  home: {
+    metaTitle: 'Home',
+    metaDescription:
+      'Transform your enterprise with expert cloud architecture and healthcare software consulting. Specializing in AWS, Azure, HIPAA compliance, and scalable solutions.',
+    heroTitle: 'Transform Your Enterprise with',
+    heroHighlight: 'Expert Cloud Architecture',
+    heroIntro:
+      'Specializing in cloud architecture, healthcare software, and enterprise consulting. We help organizations scale, secure, and optimize their technology infrastructure for sustainable growth.',
+    startProject: 'Start Your Project',
+    viewCaseStudies: 'View Case Studies',
+    servicesTitle: 'Our Expertise',
+    servicesIntro:
+      'We provide comprehensive consulting services to help your organization leverage modern cloud technologies and best practices.',
+    services: {
+      cloud: {
+        title: 'Cloud Architecture',
+        description:
+          'Design and implement scalable, secure cloud infrastructures using AWS, Azure, and multi-cloud strategies tailored to your business needs.',
+        features: [
+          'Cloud migration planning & execution',
+          'Infrastructure as Code (IaC)',
+          'Performance optimization',
+        ],
+      },
+      healthcare: {
+        title: 'Healthcare Software',
+        description:
+          'Develop HIPAA-compliant healthcare applications with focus on security, interoperability, and user experience for better patient outcomes.',
+        features: [
+          'HIPAA compliance & security',
+          'EHR system integration',
+          'Patient data management',
+        ],
+      },
+      enterprise: {
+        title: 'Enterprise Consulting',
+        description:
+          'Strategic technology consulting to help enterprises modernize their systems, improve efficiency, and drive digital transformation.',
+        features: [
+          'Digital transformation strategy',
+          'System architecture review',
+          'Technology roadmap planning',
+        ],
+      },
+    },
+    contactTitle: 'Start Your Project Today',
+    contactIntro:
+      "Ready to transform your technology infrastructure? Let's discuss your project requirements and how we can help achieve your goals.",
+    getInTouch: 'Get in Touch',
+    email: 'Email',
+    responseTime: 'Response Time',
+    responseTimeValue: 'Within 24 hours',
+    serviceArea: 'Service Area',
+    serviceAreaValue: 'United States (Remote)',
+    whyTitle: 'Why Choose BorderlessBits?',
+    why: [
+      '10+ years of enterprise experience',
+      'Healthcare & compliance expertise',
+      'Cloud-native architecture focus',
+      'Proven track record of success',
+    ],
+  },
+
+  footer: {
+    tagline:
+      'Expert cloud architecture and healthcare software consulting for enterprise organizations.',
+    copyright: '© 2024 BorderlessBits. All rights reserved.',
+    privacyPolicy: 'Privacy Policy',
+    servicesTitle: 'Services',
+    contactTitle: 'Contact',
+    responseTime: 'Response within 24 hours',
+    remote: 'Remote consulting available',
+  },
+
+  contact: {
+    metaTitle: 'Contact - BorderlessBits',
+    metaDescription:
+      'Get in touch with BorderlessBits for expert cloud architecture and healthcare software consulting services.',
+    ogTitle: 'Contact BorderlessBits - Expert Cloud & Healthcare Consulting',
+    ogDescription:
+      'Connect with our team for professional cloud architecture and healthcare software consulting services.',
+    title: 'Get in Touch',
+    intro:
+      "Ready to transform your technology infrastructure? Let's discuss your project requirements and how we can help you achieve your goals.",
+    servicesTitle: 'Our Services',
+    services: [
+      'Cloud Architecture & Migration',
+      'Healthcare Software Development',
+      'Enterprise Technology Consulting',
+      'HIPAA Compliance & Security',
+    ],
+    whyTitle: 'Why Choose BorderlessBits?',
+    why: [
+      'Proven expertise in enterprise environments',
+      'Focus on measurable business outcomes',
+      'Comprehensive security and compliance',
+      'Agile approach with rapid delivery',
+    ],
+    closing: "Have questions about your project? We're here to help.",
+  },
+
+  contactForm: {
+    honeypot: 'Website (leave blank):',
+    name: 'Full Name *',
+    namePlaceholder: 'Enter your full name',
+    email: 'Email Address *',
+    emailPlaceholder: 'your.email@company.com',
+    company: 'Company Name',
+    companyPlaceholder: 'Your company name',
+    projectType: 'Project Type *',
+    projectTypes: {
+      cloud_architecture: 'Cloud Architecture',
+      healthcare_software: 'Healthcare Software',
+      enterprise_consulting: 'Enterprise Consulting',
+      other: 'Other',
+    },
+    timeline: 'Project Timeline *',
+    timelines: {
+      immediate: 'Immediate (within 1 month)',
+      within_3_months: 'Within 3 months',
+      within_6_months: 'Within 6 months',
+      planning_phase: 'Planning phase',
+    },
+    budget: 'Budget Range (Optional)',
+    budgetPlaceholder: 'Select budget range (optional)',
+    budgets: {
+      under_25k: 'Under $25,000',
+      from_25k_to_50k: '$25,000 - $50,000',
+      from_50k_to_100k: '$50,000 - $100,000',
+      over_100k: 'Over $100,000',
+    },
+    referral: 'How did you hear about us? (Optional)',
+    referralPlaceholder: 'Select source (optional)',
+    referrals: {
+      google_search: 'Google Search',
+      linkedin: 'LinkedIn',
+      referral: 'Referral',
+      other: 'Other',
+    },
+    message: 'Project Details *',
+    messagePlaceholder:
+      'Please describe your project requirements, challenges, and goals. The more details you provide, the better we can assist you.',
+    characterCount: '{count}/2000 characters',
+    reset: 'Reset Form',
+    submit: 'Send Message',
+    sending: 'Sending...',
+    success: 'Thank you! Your message has been sent successfully.',
+    error: 'An error occurred. Please try again.',
+    errorFallback: 'If the problem persists, please email directly at',
+    fixErrors: 'Please fix the errors above',
+    tooManyAttempts: 'Too many attempts. Please wait {minutes} minutes.',
+    unexpectedError: 'An unexpected error occurred. Please try again.',
+    privacyNotice:
+      'Your privacy is important to us. This form is secured with spam protection and your information will only be used to respond to your inquiry. We never share your data with third parties.',
+    errors: {
+      suspicious: 'Invalid characters detected. Please remove any HTML or script content.',
+      nameRequired: 'Name is required',
+      nameTooShort: 'Name must be at least 2 characters long',
+      nameTooLong: 'Name must be less than 100 characters',
+      nameInvalid: 'Name can only contain letters, spaces, hyphens, and apostrophes',
+      emailRequired: 'Email is required',
+      emailInvalid: 'Please enter a valid email address',
+      emailTooLong: 'Email address is too long',
+      companyTooLong: 'Company name must be less than 200 characters',
+      messageRequired: 'Message is required',
+      messageTooShort: 'Message must be at least 10 characters long',
+      messageTooLong: 'Message must be less than 2000 characters',
+      phoneInvalid: 'Please enter a valid phone number',
+      projectTypeInvalid: 'Please select a valid project type',
+      timelineInvalid: 'Please select a valid timeline',
+      budgetInvalid: 'Please select a valid budget range',
+      referralInvalid: 'Please select a valid referral source',
+    },
+  },
+
+  blog: {
+    metaDescription:
+      'Insights on cloud architecture, healthcare software and enterprise technology from the BorderlessBits team.',
+    title: 'Blog',
+    intro:
+      'Practical guidance on cloud architecture, healthcare compliance and enterprise technology.',
+    browseTopics: 'Browse by topic',
+    empty: 'No posts have been published yet. Check back soon.',
+    allPosts: 'All posts',
+    minRead: '{minutes} min read',
+    updated: 'Updated',
+    changelogTitle: 'What changed',
+    topicsMetaTitle: 'Blog Topics',
+    topicsMetaDescription: 'Browse BorderlessBits articles by topic.',
+    topicsTitle: 'Topics',
+    topicsIntro: 'Browse our articles by topic.',
+    topicsEmpty: 'No topics yet.',
+    allTopics: 'All topics',
+    tagMetaTitle: 'Posts tagged "{tag}"',
+    tagMetaDescription: 'BorderlessBits articles about {tag}.',
+    articleCount: { one: '{count} article', other: '{count} articles' },
+    pageTitle: '{title} (page {number})',
+    pagination: 'Pagination',
+    previousPage: 'Newer posts',
+    nextPage: 'Older posts',
+    pageLabel: 'Page {number}',
+    archive: 'Archive',
+    archiveMetaDescription: 'Every BorderlessBits article, by year and month.',
+    archiveIntro: 'Every article, by year and month.',
+    archivePeriodTitle: 'Posts from {period}',
+    archivePeriodMetaDescription: 'BorderlessBits articles published in {period}.',
+  },
+
+  series: {
+    label: 'Series',
+    metaDescription: 'A {count}-part series from BorderlessBits: {name}.',
+    partCount: {
+      one: '{count} part, best read in order.',
+      other: '{count} parts, best read in order.',
+    },
+    partLabel: 'Part {number}: ',
+    partOf: 'Part {number} of {total}',
+    in: 'in',
+    navLabel: '{name} series',
+  },
+
+  caseStudies: {
+    metaDescription:
+      'Cloud migration, healthcare platform and enterprise architecture engagements delivered by BorderlessBits, with measurable results.',
+    title: 'Case Studies',
+    intro:
+      'Real engagements, real outcomes. See how we have helped organizations modernize their platforms, meet compliance requirements and cut operating costs.',
+    empty: 'Case studies are coming soon.',
+    allCaseStudies: 'All case studies',
+    client: 'Client',
+    industry: 'Industry',
+    timeline: 'Timeline',
+    results: 'Results',
+    challenge: 'The Challenge',
+    solution: 'Our Solution',
+    technologies: 'Technologies',
+    technology: 'Technology',
+    tags: 'Topics',
+    filters: 'Filter case studies',
+    clearFilters: 'Clear filters',
+    noMatches: 'No case studies match these filters.',
+    caseStudyCount: { one: '{count} case study', other: '{count} case studies' },
+    technologyMetaTitle: '{technology} Case Studies',
+    technologyMetaDescription: 'BorderlessBits engagements delivered with {technology}.',
+    industryMetaTitle: '{industry} Case Studies',
+    industryMetaDescription: 'BorderlessBits engagements in the {industry} industry.',
+    ctaTitle: 'Facing a similar challenge?',
+    ctaBody: "Let's talk about how we can deliver the same kind of results for your organization.",
+    ctaButton: 'Start Your Project',
+  },
+
+  authors: {
+    description: '{name} at {site}.',
+    descriptionWithRole: '{name}, {role} at {site}.',
+    linkedin: 'LinkedIn profile',
+    expertise: 'Expertise',
+    caseStudies: 'Case Studies',
+    articles: 'Articles',
+    writtenBy: 'Written by',
+    aboutAuthor: 'About the author',
+  },
+
+  content: {
+    onThisPage: 'On this page',
+    tableOfContents: 'Table of contents',
+    related: 'Related reading',
+    article: 'Article',
+    caseStudy: 'Case Study',
+    lastUpdated: 'Last updated',
+    copy: 'Copy',
+    copied: 'Copied',
+    copyFailed: 'Failed',
+    copyLabel: 'Copy code to clipboard',
+    headingAnchor: 'Link to section: {title}',
+    ctaTitle: 'Ready to discuss your project?',
+    ctaButton: 'Start Your Project',
+  },
+
+  search: {
+    button: 'Search',
+    dialogLabel: 'Search articles and case studies',
+    placeholder: 'Search articles and case studies...',
+    unavailable: 'Search is unavailable right now. Please try again later.',
+    recent: 'Recent searches',
+    hint: 'Search by topic, technology or industry.',
+    noResults: 'No results for “{query}”.',
+  },
+};
+
+export type Messages = typeof en;
+
+// Plural forms selected by Intl.PluralRules; 'other' is the fallback
+export interface PluralMessage {
+  one: string;
+  other: string;
+}
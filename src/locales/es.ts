@@ -0,0 +1,344 @@
+import type { Messages } from '@/locales/en';
+
+/**
+ * Spanish UI strings
+ */
+export const es: Messages = {
+  meta: {
+    titleTemplate: '%s | BorderlessBits - Consultoría en Arquitectura Cloud y Software Sanitario',
+    defaultTitle: 'BorderlessBits - Consultoría experta en Arquitectura Cloud y Software Sanitario',
+    description:
+      'Consultoría experta en arquitectura cloud para empresas y organizaciones sanitarias. Especialistas en AWS, Azure, cumplimiento de HIPAA y soluciones de software escalables que impulsan el crecimiento del negocio.',
+    keywords: [
+      'arquitectura cloud',
+      'software sanitario',
+      'consultoría empresarial',
+      'consultoría AWS',
+      'consultoría Azure',
+      'cumplimiento HIPAA',
+      'migración a la nube',
+      'consultoría de software',
+    ],
+    ogTitle: 'BorderlessBits - Consultoría experta en Arquitectura Cloud y Software Sanitario',
+    ogDescription:
+      'Transforme su empresa con consultoría experta en arquitectura cloud y software sanitario. Especialistas en AWS, Azure y soluciones que cumplen con HIPAA.',
+    ogImageAlt: 'BorderlessBits - Consultoría en Arquitectura Cloud',
+    ogCardTagline: 'Consultoría en arquitectura cloud y software sanitario',
+    twitterTitle: 'BorderlessBits - Consultoría experta en Arquitectura Cloud',
+    twitterDescription:
+      'Transforme su empresa con consultoría experta en arquitectura cloud y software sanitario.',
+  },
+
+  common: {
+    skipToContent: 'Saltar al contenido principal',
+    home: 'Inicio',
+    breadcrumb: 'Ruta de navegación',
+    dateFormat: "d 'de' MMMM 'de' yyyy",
+    monthFormat: "MMMM 'de' yyyy",
+    language: 'Idioma',
+    tags: 'Etiquetas',
+    draft: 'Borrador',
+    scheduled: 'Programado',
+    draftNotice: 'Este es un borrador no publicado y no aparecerá en el sitio público.',
+    scheduledNotice: 'Programado para publicarse el {date}.',
+    untranslated:
+      'Esta página aún no está traducida al español, por lo que se muestra en {language}.',
+  },
+
+  nav: {
+    services: 'Servicios',
+    caseStudies: 'Casos de éxito',
+    blog: 'Blog',
+    about: 'Nosotros',
+    contact: 'Contacto',
+  },
+
+  home: {
+    metaTitle: 'Inicio',
+    metaDescription:
+      'Transforme su empresa con consultoría experta en arquitectura cloud y software sanitario. Especialistas en AWS, Azure, cumplimiento de HIPAA y soluciones escalables.',
+    heroTitle: 'Transforme su empresa con',
+    heroHighlight: 'Arquitectura Cloud experta',
+    heroIntro:
+      'Especialistas en arquitectura cloud, software sanitario y consultoría empresarial. Ayudamos a las organizaciones a escalar, proteger y optimizar su infraestructura tecnológica para un crecimiento sostenible.',
+    startProject: 'Inicie su proyecto',
+    viewCaseStudies: 'Ver casos de éxito',
+    servicesTitle: 'Nuestra experiencia',
+    servicesIntro:
+      'Ofrecemos servicios de consultoría integrales para que su organización aproveche las tecnologías cloud modernas y las mejores prácticas.',
+    services: {
+      cloud: {
+        title: 'Arquitectura Cloud',
+        description:
+          'Diseñamos e implementamos infraestructuras cloud escalables y seguras con AWS, Azure y estrategias multicloud adaptadas a las necesidades de su negocio.',
+        features: [
+          'Planificación y ejecución de migraciones a la nube',
+          'Infraestructura como código (IaC)',
+          'Optimización del rendimiento',
+        ],
+      },
+      healthcare: {
+        title: 'Software Sanitario',
+        description:
+          'Desarrollamos aplicaciones sanitarias que cumplen con HIPAA, centradas en la seguridad, la interoperabilidad y la experiencia de usuario para mejorar la atención al paciente.',
+        features: [
+          'Cumplimiento de HIPAA y seguridad',
+          'Integración con sistemas de historia clínica electrónica',
+          'Gestión de datos de pacientes',
+        ],
+      },
+      enterprise: {
+        title: 'Consultoría Empresarial',
+        description:
+          'Consultoría tecnológica estratégica para que las empresas modernicen sus sistemas, mejoren su eficiencia e impulsen la transformación digital.',
+        features: [
+          'Estrategia de transformación digital',
+          'Revisión de la arquitectura de sistemas',
+          'Planificación de la hoja de ruta tecnológica',
+        ],
+      },
+    },
+    contactTitle: 'Inicie su proyecto hoy',
+    contactIntro:
+      '¿Listo para transformar su infraestructura tecnológica? Hablemos de los requisitos de su proyecto y de cómo podemos ayudarle a alcanzar sus objetivos.',
+    getInTouch: 'Contacte con nosotros',
+    email: 'Correo electrónico',
+    responseTime: 'Tiempo de respuesta',
+    responseTimeValue: 'En menos de 24 horas',
+    serviceArea: 'Área de servicio',
+    serviceAreaValue: 'Estados Unidos (en remoto)',
+    whyTitle: '¿Por qué elegir BorderlessBits?',
+    why: [
+      'Más de 10 años de experiencia empresarial',
+      'Experiencia en el sector sanitario y en cumplimiento normativo',
+      'Enfoque en arquitecturas nativas de la nube',
+      'Historial de éxito demostrado',
+    ],
+  },
+
+  footer: {
+    tagline:
+      'Consultoría experta en arquitectura cloud y software sanitario para organizaciones empresariales.',
+    copyright: '© 2024 BorderlessBits. Todos los derechos reservados.',
+    privacyPolicy: 'Política de privacidad',
+    servicesTitle: 'Servicios',
+    contactTitle: 'Contacto',
+    responseTime: 'Respuesta en menos de 24 horas',
+    remote: 'Consultoría en remoto disponible',
+  },
+
+  contact: {
+    metaTitle: 'Contacto - BorderlessBits',
+    metaDescription:
+      'Póngase en contacto con BorderlessBits para recibir consultoría experta en arquitectura cloud y software sanitario.',
+    ogTitle: 'Contacte con BorderlessBits - Consultoría experta en Cloud y Sanidad',
+    ogDescription:
+      'Hable con nuestro equipo sobre servicios profesionales de consultoría en arquitectura cloud y software sanitario.',
+    title: 'Contacte con nosotros',
+    intro:
+      '¿Listo para transformar su infraestructura tecnológica? Hablemos de los requisitos de su proyecto y de cómo podemos ayudarle a alcanzar sus objetivos.',
+    servicesTitle: 'Nuestros servicios',
+    services: [
+      'Arquitectura y migración cloud',
+      'Desarrollo de software sanitario',
+      'Consultoría tecnológica empresarial',
+      'Cumplimiento de HIPAA y seguridad',
+    ],
+    whyTitle: '¿Por qué elegir BorderlessBits?',
+    why: [
+      'Experiencia demostrada en entornos empresariales',
+      'Orientación a resultados de negocio medibles',
+      'Seguridad y cumplimiento normativo integrales',
+      'Enfoque ágil con entregas rápidas',
+    ],
+    closing: '¿Tiene preguntas sobre su proyecto? Estamos aquí para ayudarle.',
+  },
+
+  contactForm: {
+    honeypot: 'Sitio web (déjelo en blanco):',
+    name: 'Nombre completo *',
+    namePlaceholder: 'Introduzca su nombre completo',
+    email: 'Correo electrónico *',
+    emailPlaceholder: 'su.correo@empresa.com',
+    company: 'Nombre de la empresa',
+    companyPlaceholder: 'El nombre de su empresa',
+    projectType: 'Tipo de proyecto *',
+    projectTypes: {
+      cloud_architecture: 'Arquitectura Cloud',
+      healthcare_software: 'Software Sanitario',
+      enterprise_consulting: 'Consultoría Empresarial',
+      other: 'Otro',
+    },
+    timeline: 'Plazo del proyecto *',
+    timelines: {
+      immediate: 'Inmediato (en menos de 1 mes)',
+      within_3_months: 'En los próximos 3 meses',
+      within_6_months: 'En los próximos 6 meses',
+      planning_phase: 'En fase de planificación',
+    },
+    budget: 'Presupuesto (opcional)',
+    budgetPlaceholder: 'Seleccione un presupuesto (opcional)',
+    budgets: {
+      under_25k: 'Menos de 25.000 $',
+      from_25k_to_50k: '25.000 $ - 50.000 $',
+      from_50k_to_100k: '50.000 $ - 100.000 $',
+      over_100k: 'Más de 100.000 $',
+    },
+    referral: '¿Cómo nos ha conocido? (opcional)',
+    referralPlaceholder: 'Seleccione una opción (opcional)',
+    referrals: {
+      google_search: 'Búsqueda en Google',
+      linkedin: 'LinkedIn',
+      referral: 'Recomendación',
+      other: 'Otro',
+    },
+    message: 'Detalles del proyecto *',
+    messagePlaceholder:
+      'Describa los requisitos, retos y objetivos de su proyecto. Cuantos más detalles nos dé, mejor podremos ayudarle.',
+    characterCount: '{count}/2000 caracteres',
+    reset: 'Restablecer',
+    submit: 'Enviar mensaje',
+    sending: 'Enviando...',
+    success: '¡Gracias! Su mensaje se ha enviado correctamente.',
+    error: 'Se ha producido un error. Inténtelo de nuevo.',
+    errorFallback: 'Si el problema persiste, escriba directamente a',
+    fixErrors: 'Corrija los errores indicados arriba',
+    tooManyAttempts: 'Demasiados intentos. Espere {minutes} minutos.',
+    unexpectedError: 'Se ha producido un error inesperado. Inténtelo de nuevo.',
+    privacyNotice:
+      'Su privacidad es importante para nosotros. Este formulario está protegido contra el spam y su información solo se utilizará para responder a su consulta. Nunca compartimos sus datos con terceros.',
+    errors: {
+      suspicious:
+        'Se han detectado caracteres no válidos. Elimine cualquier contenido HTML o de script.',
+      nameRequired: 'El nombre es obligatorio',
+      nameTooShort: 'El nombre debe tener al menos 2 caracteres',
+      nameTooLong: 'El nombre debe tener menos de 100 caracteres',
+      nameInvalid: 'El nombre solo puede contener letras, espacios, guiones y apóstrofos',
+      emailRequired: 'El correo electrónico es obligatorio',
+      emailInvalid: 'Introduzca una dirección de correo electrónico válida',
+      emailTooLong: 'La dirección de correo electrónico es demasiado larga',
+      companyTooLong: 'El nombre de la empresa debe tener menos de 200 caracteres',
+      messageRequired: 'El mensaje es obligatorio',
+      messageTooShort: 'El mensaje debe tener al menos 10 caracteres',
+      messageTooLong: 'El mensaje debe tener menos de 2000 caracteres',
+      phoneInvalid: 'Introduzca un número de teléfono válido',
+      projectTypeInvalid: 'Seleccione un tipo de proyecto válido',
+      timelineInvalid: 'Seleccione un plazo válido',
+      budgetInvalid: 'Seleccione un presupuesto válido',
+      referralInvalid: 'Seleccione una opción válida',
+    },
+  },
+
+  blog: {
+    metaDescription:
+      'Artículos del equipo de BorderlessBits sobre arquitectura cloud, software sanitario y tecnología empresarial.',
+    title: 'Blog',
+    intro:
+      'Guías prácticas sobre arquitectura cloud, cumplimiento normativo sanitario y tecnología empresarial.',
+    browseTopics: 'Explorar por tema',
+    empty: 'Todavía no hay artículos publicados. Vuelva pronto.',
+    allPosts: 'Todos los artículos',
+    minRead: '{minutes} min de lectura',
+    updated: 'Actualizado',
+    changelogTitle: 'Qué ha cambiado',
+    topicsMetaTitle: 'Temas del blog',
+    topicsMetaDescription: 'Explore los artículos de BorderlessBits por tema.',
+    topicsTitle: 'Temas',
+    topicsIntro: 'Explore nuestros artículos por tema.',
+    topicsEmpty: 'Todavía no hay temas.',
+    allTopics: 'Todos los temas',
+    tagMetaTitle: 'Artículos sobre "{tag}"',
+    tagMetaDescription: 'Artículos de BorderlessBits sobre {tag}.',
+    articleCount: { one: '{count} artículo', other: '{count} artículos' },
+    pageTitle: '{title} (página {number})',
+    pagination: 'Paginación',
+    previousPage: 'Artículos más recientes',
+    nextPage: 'Artículos anteriores',
+    pageLabel: 'Página {number}',
+    archive: 'Archivo',
+    archiveMetaDescription: 'Todos los artículos de BorderlessBits, por año y mes.',
+    archiveIntro: 'Todos los artículos, por año y mes.',
+    archivePeriodTitle: 'Artículos de {period}',
+    archivePeriodMetaDescription: 'Artículos de BorderlessBits publicados en {period}.',
+  },
+
+  series: {
+    label: 'Serie',
+    metaDescription: 'Una serie de {count} partes de BorderlessBits: {name}.',
+    partCount: {
+      one: '{count} parte, mejor leída en orden.',
+      other: '{count} partes, mejor leídas en orden.',
+    },
+    partLabel: 'Parte {number}: ',
+    partOf: 'Parte {number} de {total}',
+    in: 'de',
+    navLabel: 'Serie {name}',
+  },
+
+  caseStudies: {
+    metaDescription:
+      'Proyectos de migración a la nube, plataformas sanitarias y arquitectura empresarial realizados por BorderlessBits, con resultados medibles.',
+    title: 'Casos de éxito',
+    intro:
+      'Proyectos reales, resultados reales. Descubra cómo hemos ayudado a organizaciones a modernizar sus plataformas, cumplir la normativa y reducir sus costes operativos.',
+    empty: 'Pronto publicaremos casos de éxito.',
+    allCaseStudies: 'Todos los casos de éxito',
+    client: 'Cliente',
+    industry: 'Sector',
+    timeline: 'Duración',
+    results: 'Resultados',
+    challenge: 'El reto',
+    solution: 'Nuestra solución',
+    technologies: 'Tecnologías',
+    technology: 'Tecnología',
+    tags: 'Temas',
+    filters: 'Filtrar casos de éxito',
+    clearFilters: 'Borrar filtros',
+    noMatches: 'Ningún caso de éxito coincide con estos filtros.',
+    caseStudyCount: { one: '{count} caso de éxito', other: '{count} casos de éxito' },
+    technologyMetaTitle: 'Casos de éxito con {technology}',
+    technologyMetaDescription: 'Proyectos de BorderlessBits realizados con {technology}.',
+    industryMetaTitle: 'Casos de éxito: {industry}',
+    industryMetaDescription: 'Proyectos de BorderlessBits en el sector {industry}.',
+    ctaTitle: '¿Se enfrenta a un reto similar?',
+    ctaBody: 'Hablemos de cómo podemos lograr el mismo tipo de resultados para su organización.',
+    ctaButton: 'Inicie su proyecto',
+  },
+
+  authors: {
+    description: '{name} en {site}.',
+    descriptionWithRole: '{name}, {role} en {site}.',
+    linkedin: 'Perfil de LinkedIn',
+    expertise: 'Especialidades',
+    caseStudies: 'Casos de éxito',
+    articles: 'Artículos',
+    writtenBy: 'Escrito por',
+    aboutAuthor: 'Sobre quien escribe',
+  },
+
+  content: {
+    onThisPage: 'En esta página',
+    tableOfContents: 'Índice',
+    related: 'Lecturas relacionadas',
+    article: 'Artículo',
+    caseStudy: 'Caso de éxito',
+    lastUpdated: 'Última actualización',
+    copy: 'Copiar',
+    copied: 'Copiado',
+    copyFailed: 'Error',
+    copyLabel: 'Copiar el código al portapapeles',
+    headingAnchor: 'Enlace a la sección: {title}',
+    ctaTitle: '¿Listo para hablar de su proyecto?',
+    ctaButton: 'Inicie su proyecto',
+  },
+
+  search: {
+    button: 'Buscar',
+    dialogLabel: 'Buscar artículos y casos de éxito',
+    placeholder: 'Buscar artículos y casos de éxito...',
+    unavailable: 'La búsqueda no está disponible en este momento. Inténtelo más tarde.',
+    recent: 'Búsquedas recientes',
+    hint: 'Busque por tema, tecnología o sector.',
+    noResults: 'No hay resultados para «{query}».',
+  },
+};
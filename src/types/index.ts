@@ -43,25 +43,133 @@ export interface PostMetadata {
   title: string;
   description: string;
   date: string;
+  // Last revision: the updated frontmatter, else the file's last git commit
+  updated?: string;
+  // Notable revisions, newest first, shown as "What changed"
+  changelog?: ChangelogEntry[];
+  draft?: boolean;
+  publishAt?: string;
   author: string;
   tags: string[];
   featured: boolean;
+  // Multi-part series this post belongs to, and its position within it
+  series?: string;
+  seriesOrder?: number;
   seo: {
     meta_title?: string;
     meta_description?: string;
     canonical_url?: string;
+    noindex?: boolean;
   };
 }
 
+export interface ChangelogEntry {
+  date: string;
+  summary: string;
+}
+
+// Languages the site is published in; see LOCALES in src/lib/i18n.ts
+export type Locale = 'en' | 'es';
+
+// Markdown bodies are stored as rendered HTML, MDX bodies as source compiled at render time
+export type ContentFormat = 'markdown' | 'mdx';
+
+// A heading in a content body's table of contents, with its subheadings nested
+export interface TocEntry {
+  id: string;
+  title: string;
+  depth: number;
+  children: TocEntry[];
+}
+
 export interface Post extends PostMetadata {
   slug: string;
   content: string;
+  format: ContentFormat;
+  // Language of the body; the default locale's when no translation exists
+  locale: Locale;
+  toc: TocEntry[];
   readingTime: number;
+  // Resolved from the author frontmatter when a matching profile exists
+  authorProfile?: Author;
+}
+
+// Layout variant chosen by a page's frontmatter
+export type PageLayout = 'default' | 'wide' | 'legal';
+
+// A standalone page from content/pages, served at /<slug>/
+export interface Page extends PostMetadata {
+  slug: string;
+  content: string;
+  format: ContentFormat;
+  locale: Locale;
+  toc: TocEntry[];
+  layout: PageLayout;
+}
+
+// A frontmatter violation, located by file and dotted field path (e.g. results[1].value)
+export interface ContentIssue {
+  file: string;
+  path: string;
+  message: string;
+}
+
+// An author profile from content/authors; the bio is the file body
+export interface Author {
+  slug: string;
+  name: string;
+  role: string;
+  bio: string;
+  format: ContentFormat;
+  locale: Locale;
+  avatar?: string;
+  linkedin?: string;
+  expertise: string[];
+}
+
+// A multi-part series, with its posts in reading order
+export interface Series {
+  name: string;
+  slug: string;
+  parts: Post[];
+}
+
+// One page of a listing, with the totals pagination controls need
+export interface Paginated<T> {
+  items: T[];
+  page: number;
+  pageSize: number;
+  totalItems: number;
+  totalPages: number;
+}
+
+// Criteria for a filtered post listing; tags match on their slug
+export interface PostFilter {
+  tag?: string;
+  year?: number;
+  month?: number;
+}
+
+// Posts published in a year, with a count per month (newest first)
+export interface YearArchive {
+  year: number;
+  count: number;
+  months: { month: number; count: number }[];
+}
+
+export interface TagSummary {
+  name: string;
+  slug: string;
+  count: number;
 }
 
 export interface CaseStudy extends PostMetadata {
   slug: string;
   content: string;
+  format: ContentFormat;
+  locale: Locale;
+  toc: TocEntry[];
+  authorProfile?: Author;
   client: string;
   industry: string;
   challenge: string;
@@ -74,6 +182,47 @@ export interface CaseStudy extends PostMetadata {
   timeline: string;
 }
 
+// Dimensions the case study browser filters on
+export type CaseStudyFacet = 'industry' | 'technology' | 'tag';
+
+// A value of a facet, with its URL slug and the number of case studies using it
+export interface FacetCount {
+  name: string;
+  slug: string;
+  count: number;
+}
+
+// The fields a case study card needs, small enough to send to the browser
+export type CaseStudySummary = Pick<
+  CaseStudy,
+  'slug' | 'title' | 'description' | 'client' | 'industry' | 'technologies' | 'tags' | 'results'
+>;
+
+// An entry in a "Related reading" list, which mixes posts and case studies
+export type RelatedContent =
+  | { type: 'post'; item: Post; score: number }
+  | { type: 'caseStudy'; item: CaseStudy; score: number };
+
+// A document in the prebuilt search index; only what the results list displays
+export interface SearchDocument {
+  type: 'post' | 'caseStudy';
+  title: string;
+  description: string;
+  url: string;
+  date: string;
+}
+
+export interface SearchIndex {
+  version: number;
+  documents: SearchDocument[];
+  // Postings per term, flattened as [documentIndex, weight, documentIndex, weight, ...]
+  terms: Record<string, number[]>;
+}
+
+export interface SearchResult extends SearchDocument {
+  score: number;
+}
+
 export interface Service {
   id: string;
   title: string;
@@ -148,6 +297,16 @@ export interface SEOData {
   nofollow?: boolean;
 }
 
+export interface SitemapEntry {
+  path: string;
+  lastModified?: string;
+  changeFrequency: 'always' | 'hourly' | 'daily' | 'weekly' | 'monthly' | 'yearly' | 'never';
+  priority: number;
+  // The same page in every locale, for hreflang alternates
+  alternates?: Partial<Record<Locale, string>>;
+}
+
+// A step in a breadcrumb trail; href is the unprefixed site path ('/blog/')
 export interface BreadcrumbItem {
   label: string;
   href: string;